@@ -0,0 +1,182 @@
+// Service worker: keeps the app shell available offline and delivers report
+// submissions queued in IndexedDB by client/src/lib/offlineQueue.ts.
+
+const CACHE_NAME = 'issue-reporter-shell-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Must match client/src/lib/offlineQueue.ts
+const QUEUE_DB = 'issueSubmissionQueue';
+const QUEUE_DB_VERSION = 1;
+const QUEUE_STORE = 'submissions';
+const QUEUE_SYNC_TAG = 'submit-issues';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first, falling back to the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      }))
+    );
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === QUEUE_SYNC_TAG) {
+    event.waitUntil(flushQueue());
+  }
+});
+
+// Fallback for browsers without Background Sync: the page asks directly
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'flush-queue') {
+    event.waitUntil(flushQueue().catch(() => {}));
+  }
+});
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB, QUEUE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function queueRequest(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, mode);
+    const request = run(transaction.objectStore(QUEUE_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function notifyClients() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: 'queue-updated' }));
+}
+
+let flushing = null;
+
+// Deliver every pending entry of the signed-in user. Rejects while anything
+// is still pending so Background Sync schedules another attempt.
+function flushQueue() {
+  if (!flushing) {
+    flushing = deliverPending().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function deliverPending() {
+  const meResponse = await fetch('/api/me', { credentials: 'include' });
+  if (!meResponse.ok) {
+    // Signed out: keep everything queued until someone signs in again
+    throw new Error('Not signed in');
+  }
+  const me = await meResponse.json();
+
+  const db = await openQueue();
+  let retryLater = false;
+
+  try {
+    const entries = await queueRequest(db, 'readonly', (store) => store.getAll());
+    const pending = entries.filter((entry) => entry.status === 'pending' && entry.userId === me.id);
+
+    for (const entry of pending) {
+      const updated = await deliver(entry);
+      await queueRequest(db, 'readwrite', (store) => store.put(updated));
+      await notifyClients();
+
+      if (updated.status === 'pending') {
+        retryLater = true;
+        break;
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  if (retryLater) {
+    throw new Error('Queued submissions are still pending');
+  }
+}
+
+async function deliver(entry) {
+  const formData = new FormData();
+  formData.append('issueData', entry.issueData);
+  if (entry.draftId) {
+    formData.append('draftId', String(entry.draftId));
+  }
+  entry.files.forEach((file) => formData.append('files', file, file.name));
+
+  const attempts = entry.attempts + 1;
+  let response;
+  try {
+    response = await fetch('/api/issues', { method: 'POST', body: formData, credentials: 'include' });
+  } catch (error) {
+    // Still offline
+    return { ...entry, attempts, lastError: String(error) };
+  }
+
+  if (response.ok) {
+    const result = await response.json();
+    return {
+      ...entry,
+      attempts,
+      status: 'sent',
+      lastError: null,
+      issueId: result.issue ? result.issue.id : null,
+      ticketId: result.ticketId || null,
+      sentAt: Date.now(),
+      files: [],
+    };
+  }
+
+  const text = await response.text();
+  // Server trouble or an expired session may clear up; anything else will not
+  if (response.status >= 500 || response.status === 401) {
+    return { ...entry, attempts, lastError: text || response.statusText };
+  }
+  return { ...entry, attempts, status: 'failed', lastError: text || response.statusText };
+}
@@ -2,15 +2,31 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import NotFound from "@/pages/not-found";
 import IssueReporting from "@/pages/IssueReporting";
 import SubmissionSuccess from "@/pages/SubmissionSuccess";
+import Login from "@/pages/Login";
+import IssueDashboard from "@/pages/IssueDashboard";
+import IssueDetail from "@/pages/IssueDetail";
+import PendingSubmissions from "@/pages/PendingSubmissions";
+import AdminWebhooks from "@/pages/AdminWebhooks";
+import NotificationSettings from "@/pages/NotificationSettings";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={IssueReporting} />
-      <Route path="/success/:ticketId" component={SubmissionSuccess} />
+      <Route path="/login" component={Login} />
+      <ProtectedRoute path="/" component={IssueReporting} />
+      <ProtectedRoute path="/drafts/:draftId" component={IssueReporting} />
+      <ProtectedRoute path="/success/:ticketId" component={SubmissionSuccess} />
+      <ProtectedRoute path="/submitted/:issueId" component={SubmissionSuccess} />
+      <ProtectedRoute path="/issues" component={IssueDashboard} />
+      <ProtectedRoute path="/issues/:id" component={IssueDetail} />
+      <ProtectedRoute path="/pending" component={PendingSubmissions} />
+      <ProtectedRoute path="/settings" component={NotificationSettings} />
+      <ProtectedRoute path="/admin/webhooks" component={AdminWebhooks} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -19,8 +35,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
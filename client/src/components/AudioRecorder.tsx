@@ -9,6 +9,13 @@ interface AudioRecorderProps {
   setAudio: (audio: { file: File; duration: string } | null) => void;
 }
 
+// File extension for a recording of the given MIME type
+function recordingExtension(mimeType: string): string {
+  if (mimeType.startsWith('audio/mp4')) return '.m4a';
+  if (mimeType.startsWith('audio/ogg')) return '.ogg';
+  return '.webm';
+}
+
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ audio, setAudio }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
@@ -42,12 +49,14 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ audio, setAudio }) => {
       };
       
       mediaRecorderRef.current.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        // Browsers pick the container: Chrome and Firefox record WebM, Safari MP4
+        const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
+        const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
         const url = URL.createObjectURL(audioBlob);
         
         // Create a File object
-        const audioFile = new File([audioBlob], 'voice-note.webm', {
-          type: 'audio/webm',
+        const audioFile = new File([audioBlob], `voice-note${recordingExtension(mimeType)}`, {
+          type: mimeType,
           lastModified: Date.now()
         });
         
@@ -131,6 +140,13 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ audio, setAudio }) => {
     };
   }, [audioUrl]);
   
+  // Audio restored from a saved draft arrives without a playback URL
+  React.useEffect(() => {
+    if (audio && !audioUrl) {
+      setAudioUrl(URL.createObjectURL(audio.file));
+    }
+  }, [audio]);
+  
   // Delete audio recording
   const deleteAudio = () => {
     if (audioUrl) {
@@ -0,0 +1,277 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Loader2, Paperclip, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { mediaUrl } from '@/components/MediaGallery';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import { acceptedTypesFor, fileRejectionReason, formatFileSize } from '@/lib/formValidation';
+import type { CommentWithAttachments } from '@shared/schema';
+
+interface CommentThreadProps {
+  issueId: number;
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({ issueId }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const commentsKey = [`/api/issues/${issueId}/comments`];
+  const { data: comments = [], isLoading } = useQuery<CommentWithAttachments[]>({
+    queryKey: commentsKey,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: describeError(error), variant: 'destructive' });
+  };
+
+  // Multipart so attachments go through the same upload pipeline as reports
+  const addComment = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append('body', body);
+      files.forEach(file => formData.append('files', file));
+
+      const res = await fetch(`/api/issues/${issueId}/comments`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return (await res.json()) as CommentWithAttachments;
+    },
+    onSuccess: () => {
+      setBody('');
+      setFiles([]);
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError('Could not add comment'),
+  });
+
+  const editComment = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest('PATCH', `/api/issues/${issueId}/comments/${commentId}`, { body: editBody });
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError('Could not update comment'),
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest('DELETE', `/api/issues/${issueId}/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError('Could not delete comment'),
+    onSettled: () => setDeleteId(null),
+  });
+
+  const startEditing = (comment: CommentWithAttachments) => {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+
+    const refusedFile = selected.find(file => fileRejectionReason(file));
+    if (refusedFile) {
+      toast({
+        title: 'File type not allowed',
+        description: `${refusedFile.name}: ${fileRejectionReason(refusedFile)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setFiles(current => [...current, ...selected]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-neutral-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {comments.map(comment => {
+            const isAuthor = user?.id === comment.authorId;
+            const canDelete = isAuthor || user?.role === 'admin';
+            return (
+              <li key={comment.id} className="p-3 bg-neutral-100 rounded-lg">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-medium">{comment.authorName}</span>
+                    <span className="text-neutral-500">
+                      {comment.createdAt && ` · ${new Date(comment.createdAt).toLocaleString()}`}
+                      {comment.updatedAt && ' (edited)'}
+                    </span>
+                  </div>
+                  {editingId !== comment.id && (
+                    <div className="flex gap-1">
+                      {isAuthor && (
+                        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(comment)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-[#FF5630]" onClick={() => setDeleteId(comment.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="mt-2 space-y-2">
+                    <Textarea value={editBody} onChange={(event) => setEditBody(event.target.value)} rows={3} />
+                    <div className="flex gap-2 justify-end">
+                      <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        className="bg-[#0052CC] hover:bg-[#0747A6]"
+                        disabled={!editBody.trim() || editComment.isPending}
+                        onClick={() => editComment.mutate(comment.id)}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm whitespace-pre-line">{comment.body}</p>
+                )}
+
+                {comment.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {comment.attachments.map(item => (
+                      <a
+                        key={item.id}
+                        href={mediaUrl(item)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center text-xs text-[#0052CC] hover:underline"
+                      >
+                        {item.type === 'photo' ? (
+                          <img
+                            src={mediaUrl(item, 'thumb')}
+                            alt=""
+                            loading="lazy"
+                            className="h-10 w-10 mr-2 rounded object-cover bg-neutral-200"
+                          />
+                        ) : (
+                          <Paperclip className="h-3 w-3 mr-1" />
+                        )}
+                        {item.filename} ({formatFileSize(item.fileSize)})
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Composer */}
+      <div className="space-y-2">
+        <Textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Ask a question or add more detail"
+          rows={3}
+        />
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <span key={`${file.name}-${index}`} className="inline-flex items-center text-xs bg-neutral-100 rounded px-2 py-1">
+                {file.name}
+                <button
+                  type="button"
+                  className="ml-1 text-neutral-500 hover:text-[#FF5630]"
+                  onClick={() => setFiles(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <Button type="button" variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Paperclip className="h-4 w-4 mr-1" /> Attach files
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={acceptedTypesFor('photo', 'video', 'audio', 'file')}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            className="bg-[#0052CC] hover:bg-[#0747A6]"
+            disabled={!body.trim() || addComment.isPending}
+            onClick={() => addComment.mutate()}
+          >
+            {addComment.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Comment
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The comment and its attachments will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-[#FF5630] hover:bg-[#BF2600]"
+              onClick={() => deleteId !== null && deleteComment.mutate(deleteId)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { FileClock, Paperclip, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import type { DraftWithMedia } from '@shared/schema';
+
+// Saved drafts of the signed-in user, offered for resuming on the report page
+const DraftList: React.FC = () => {
+  const { toast } = useToast();
+  const { data: drafts = [] } = useQuery<DraftWithMedia[]>({
+    queryKey: ['/api/drafts'],
+  });
+
+  const deleteDraft = useMutation({
+    mutationFn: async (draftId: number) => {
+      await apiRequest('DELETE', `/api/drafts/${draftId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete draft', description: describeError(error), variant: 'destructive' });
+    },
+  });
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-4 mb-6">
+      <h3 className="text-sm font-semibold text-neutral-500 uppercase mb-3">Resume a draft</h3>
+      <ul className="divide-y divide-neutral-200">
+        {drafts.map(draft => {
+          const title = typeof draft.values.title === 'string' && draft.values.title.trim()
+            ? draft.values.title
+            : 'Untitled draft';
+          return (
+            <li key={draft.id} className="flex items-center justify-between py-2 gap-3">
+              <div className="flex items-center min-w-0">
+                <FileClock className="h-5 w-5 text-neutral-400 flex-shrink-0" />
+                <div className="ml-3 min-w-0">
+                  <div className="font-medium truncate">{title}</div>
+                  <div className="text-xs text-neutral-500">
+                    Step {draft.currentStep} of 5
+                    {draft.updatedAt && ` · saved ${new Date(draft.updatedAt).toLocaleString()}`}
+                    {draft.media.length > 0 && (
+                      <span className="inline-flex items-center ml-1">
+                        · <Paperclip className="h-3 w-3 mx-1" />{draft.media.length}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Link to={`/drafts/${draft.id}`}>
+                  <Button size="sm" variant="outline">Resume draft</Button>
+                </Link>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-[#FF5630]"
+                  disabled={deleteDraft.isPending}
+                  onClick={() => deleteDraft.mutate(draft.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftList;
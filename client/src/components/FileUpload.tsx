@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { FileText, Upload, X, FileArchive, FileImage, File as FilePdf, FileText as FileTextIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { fileRejectionReason } from '@/lib/formValidation';
 
 interface FileUploadProps {
   files: File[];
@@ -74,6 +75,17 @@ const FileUpload: React.FC<FileUploadProps> = ({
       return;
     }
     
+    // Refuse types the server would reject
+    const refusedFile = selectedFiles.find(file => fileRejectionReason(file));
+    if (refusedFile) {
+      toast({
+        title: "File type not allowed",
+        description: `${refusedFile.name}: ${fileRejectionReason(refusedFile)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
     // Add files
     setFiles([...files, ...selectedFiles]);
     
@@ -111,6 +123,17 @@ const FileUpload: React.FC<FileUploadProps> = ({
         return;
       }
       
+      // Refuse types the server would reject
+      const refusedFile = droppedFiles.find(file => fileRejectionReason(file));
+      if (refusedFile) {
+        toast({
+          title: "File type not allowed",
+          description: `${refusedFile.name}: ${fileRejectionReason(refusedFile)}`,
+          variant: "destructive"
+        });
+        return;
+      }
+      
       // Add files
       setFiles([...files, ...droppedFiles]);
     }
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { issueStatusLabels, labelFor, severityLabels, syncStatusLabels } from '@shared/labels';
+
+const severityColors: Record<string, string> = {
+  blocker: 'bg-[#BF2600] text-white',
+  critical: 'bg-[#FF5630] text-white',
+  major: 'bg-[#FFAB00] text-[#172B4D]',
+  minor: 'bg-[#0065FF] text-white',
+  trivial: 'bg-neutral-200 text-[#172B4D]',
+};
+
+const statusColors: Record<string, string> = {
+  submitted: 'bg-neutral-200 text-[#172B4D]',
+  triaged: 'bg-[#DEEBFF] text-[#0747A6]',
+  in_progress: 'bg-[#0052CC] text-white',
+  needs_info: 'bg-[#FFF0B3] text-[#172B4D]',
+  resolved: 'bg-[#E3FCEF] text-[#006644]',
+  closed: 'bg-[#36B37E] text-white',
+  duplicate: 'bg-neutral-100 text-neutral-500',
+  wont_fix: 'bg-neutral-100 text-neutral-500',
+};
+
+const syncStatusColors: Record<string, string> = {
+  queued: 'bg-[#DEEBFF] text-[#0747A6]',
+  processed: 'bg-[#E3FCEF] text-[#006644]',
+  sync_failed: 'bg-[#FFEBE6] text-[#BF2600]',
+};
+
+export const SeverityBadge: React.FC<{ severity: string }> = ({ severity }) => (
+  <Badge className={`border-transparent hover:opacity-90 ${severityColors[severity] || 'bg-neutral-200 text-[#172B4D]'}`}>
+    {labelFor(severityLabels, severity)}
+  </Badge>
+);
+
+export const StatusBadge: React.FC<{ status: string | null }> = ({ status }) => (
+  <Badge variant="outline" className={`border-transparent ${statusColors[status ?? ''] || 'bg-neutral-100 text-neutral-500'}`}>
+    {status ? labelFor(issueStatusLabels, status) : 'Unknown'}
+  </Badge>
+);
+
+export const SyncStatusBadge: React.FC<{ syncStatus: string | null }> = ({ syncStatus }) => (
+  <Badge variant="outline" className={`border-transparent ${syncStatusColors[syncStatus ?? ''] || 'bg-neutral-100 text-neutral-500'}`}>
+    {syncStatus ? labelFor(syncStatusLabels, syncStatus) : 'Not queued'}
+  </Badge>
+);
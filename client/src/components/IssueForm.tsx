@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useLocation } from 'wouter';
@@ -17,8 +17,15 @@ import AudioRecorder from './AudioRecorder';
 import FileUpload from './FileUpload';
 import ReviewSummary from './ReviewSummary';
 import SpeechToText from './SpeechToText';
-import { issueFormSchema } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import UploadProgress from './UploadProgress';
+import { issueFormSchema, type DraftWithMedia } from '@shared/schema';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import { restoreDraftMedia, saveDraft as saveDraftToServer, type DraftUploads, type WizardMedia } from '@/lib/drafts';
+import { useAuth } from '@/hooks/use-auth';
+import { useLocalDraft } from '@/hooks/use-local-draft';
+import { isOfflineQueueSupported, queueSubmission } from '@/lib/offlineQueue';
+import { useAttachmentUploads } from '@/hooks/use-attachment-uploads';
+import { acceptedTypesFor } from '@/lib/formValidation';
 
 // Form schema with validation
 const formSchema = issueFormSchema;
@@ -32,12 +39,25 @@ const stepTitles = [
   'Review & Submit'
 ];
 
-const IssueForm: React.FC = () => {
+interface IssueFormProps {
+  // Server-side draft to resume
+  draftId?: number;
+}
+
+const IssueForm: React.FC<IssueFormProps> = ({ draftId: initialDraftId }) => {
   const [currentStep, setCurrentStep] = useState(1);
   const totalSteps = 5;
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [draftId, setDraftId] = useState<number | null>(initialDraftId ?? null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [isRestoringDraft, setIsRestoringDraft] = useState(!!initialDraftId);
+  const draftUploads = useRef<DraftUploads>(new WeakMap());
+  const localDraft = useLocalDraft(user ? `report-${user.id}` : null);
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const attachmentUploads = useAttachmentUploads();
   
   // Media state
   const [photos, setPhotos] = useState<File[]>([]);
@@ -71,6 +91,86 @@ const IssueForm: React.FC = () => {
   
   const errors = form.formState.errors;
   
+  // Reports are always filed as the signed-in user
+  useEffect(() => {
+    if (user) {
+      form.setValue('reportedBy', user.username, { shouldValidate: true });
+    }
+  }, [user]);
+  
+  // Put saved field values, wizard step and media back into the form
+  const applyDraftState = (values: Record<string, unknown>, step: number, media: WizardMedia) => {
+    form.reset({ ...form.getValues(), ...values, acceptTerms: false });
+    if (user) {
+      form.setValue('reportedBy', user.username);
+    }
+    setPhotos(media.photos);
+    setVideo(media.video);
+    setAudio(media.audio);
+    setFiles(media.files);
+    setCurrentStep(step);
+  };
+  
+  // Restore field values, wizard step and media when resuming a draft
+  useEffect(() => {
+    if (!initialDraftId) return;
+    
+    const restore = async () => {
+      try {
+        const res = await apiRequest('GET', `/api/drafts/${initialDraftId}`);
+        const draft = (await res.json()) as DraftWithMedia;
+        const media = await restoreDraftMedia(draft, draftUploads.current);
+        applyDraftState(draft.values, draft.currentStep, media);
+      } catch (error) {
+        setDraftId(null);
+        toast({
+          title: "Could not load draft",
+          description: error instanceof Error ? describeError(error) : "Failed to load draft",
+          variant: "destructive"
+        });
+      } finally {
+        setIsRestoringDraft(false);
+        setAutosaveEnabled(true);
+      }
+    };
+    
+    restore();
+  }, [initialDraftId]);
+  
+  // A new report starts autosaving once there is no earlier autosave left to offer
+  useEffect(() => {
+    if (!initialDraftId && localDraft.checked && !localDraft.saved) {
+      setAutosaveEnabled(true);
+    }
+  }, [localDraft.checked, localDraft.saved]);
+  
+  // Autosave to this browser on every field, step or media change
+  useEffect(() => {
+    if (!autosaveEnabled) return;
+    
+    const autosave = () => {
+      const { acceptTerms, ...values } = form.getValues();
+      localDraft.scheduleSave({ values, currentStep, draftId, media: { photos, video, audio, files } });
+    };
+    
+    autosave();
+    const subscription = form.watch(autosave);
+    return () => subscription.unsubscribe();
+  }, [autosaveEnabled, currentStep, draftId, photos, video, audio, files]);
+  
+  const restoreLocalDraft = () => {
+    const saved = localDraft.saved;
+    if (!saved) return;
+    
+    applyDraftState(saved.values, saved.currentStep, saved.media);
+    setDraftId(saved.draftId);
+    localDraft.dismiss();
+  };
+  
+  const discardLocalDraft = () => {
+    localDraft.clear().catch((error) => console.error('Error clearing autosaved report:', error));
+  };
+  
   // Step navigation functions
   const goToNextStep = async () => {
     // For each step, validate specific fields
@@ -125,15 +225,53 @@ const IssueForm: React.FC = () => {
     }
   };
   
-  // Save draft function
-  const saveDraft = () => {
-    // In a real app, we would save to localStorage or to the server
-    localStorage.setItem('issueFormDraft', JSON.stringify(form.getValues()));
+  // Save field values, the current step and all media as a server-side draft
+  const saveDraft = async () => {
+    try {
+      setIsSavingDraft(true);
+      const { acceptTerms, ...values } = form.getValues();
+      const draft = await saveDraftToServer(
+        draftId,
+        { values, currentStep },
+        { photos, video, audio, files },
+        draftUploads.current,
+      );
+      setDraftId(draft.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+      
+      toast({
+        title: "Draft Saved",
+        description: "Your draft and attachments have been saved. You can resume it later from the report page.",
+        variant: "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Draft Not Saved",
+        description: error instanceof Error ? describeError(error) : "Failed to save draft",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+  
+  // Hand the report to the offline queue; the service worker delivers it later
+  const queueForLater = async (attachments: File[]) => {
+    await queueSubmission({
+      userId: user!.id,
+      title: form.getValues('title'),
+      issueData: JSON.stringify(form.getValues()),
+      draftId,
+      files: attachments,
+    });
+    
+    setAutosaveEnabled(false);
+    await localDraft.clear().catch((error) => console.error('Error clearing autosaved report:', error));
     toast({
-      title: "Draft Saved",
-      description: "Your form draft has been saved successfully.",
-      variant: "default"
+      title: "Saved for Later",
+      description: "You appear to be offline. Your report will be submitted automatically when connectivity returns.",
     });
+    navigate('/pending');
   };
   
   // Form submission handler
@@ -141,44 +279,86 @@ const IssueForm: React.FC = () => {
     try {
       setIsSubmitting(true);
       
+      const attachments = [
+        ...photos,
+        ...(video ? [video] : []),
+        ...(audio?.file ? [audio.file] : []),
+        ...files,
+      ];
+      const canQueue = !!user && isOfflineQueueSupported();
+      const keptAttachments = () => {
+        const cancelled = attachmentUploads.cancelledFiles();
+        return attachments.filter(file => !cancelled.includes(file));
+      };
+      
+      if (!navigator.onLine && canQueue) {
+        await queueForLater(keptAttachments());
+        return;
+      }
+      
+      // Upload attachments one by one first, so each shows progress and a
+      // failed file can be retried without sending the form again
+      const uploadsReady = await attachmentUploads.uploadAll(attachments);
+      if (!uploadsReady) {
+        if (!navigator.onLine && canQueue) {
+          await queueForLater(keptAttachments());
+          return;
+        }
+        toast({
+          title: "Some Attachments Failed",
+          description: "Retry or remove the failed files, then submit again.",
+          variant: "destructive"
+        });
+        return;
+      }
+      
       // Prepare form data
       const formData = new FormData();
       
       // Add issue data as JSON
       formData.append('issueData', JSON.stringify(form.getValues()));
       
-      // Add all media files
-      photos.forEach(photo => {
-        formData.append('files', photo);
-      });
-      
-      if (video) {
-        formData.append('files', video);
-      }
-      
-      if (audio?.file) {
-        formData.append('files', audio.file);
+      // The server discards the draft once the report is created
+      if (draftId) {
+        formData.append('draftId', String(draftId));
       }
       
-      files.forEach(file => {
-        formData.append('files', file);
-      });
+      // Attachments are already on the server, referenced by upload ID
+      formData.append('stagedUploads', JSON.stringify(attachmentUploads.uploadIds()));
       
-      // Send the data
-      const response = await fetch('/api/issues', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
+      // Send the data; if connectivity drops now the service worker delivers it later
+      let response: Response;
+      try {
+        response = await fetch('/api/issues', {
+          method: 'POST',
+          body: formData,
+          credentials: 'include'
+        });
+      } catch (networkError) {
+        if (!canQueue) {
+          throw networkError;
+        }
+        await queueForLater(keptAttachments());
+        return;
+      }
       
       if (!response.ok) {
         throw new Error(`Error: ${response.statusText}`);
       }
       
       const result = await response.json();
+      attachmentUploads.finish();
       
-      // Navigate to success page
-      navigate(`/success/${result.ticketId}`);
+      if (draftId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+      }
+      
+      // The report is safely stored, so the browser copy is no longer needed
+      setAutosaveEnabled(false);
+      await localDraft.clear().catch((error) => console.error('Error clearing autosaved report:', error));
+      
+      // Navigate to success page; the ticket may still be queued for creation
+      navigate(result.ticketId ? `/success/${result.ticketId}` : `/submitted/${result.issue.id}`);
       
     } catch (error) {
       console.error('Submission error:', error);
@@ -515,24 +695,14 @@ const IssueForm: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <div className="flex justify-between">
-                <Label htmlFor="reported-by">Reported By <span className="text-[#FF5630]">*</span></Label>
-                <SpeechToText 
-                  onTranscriptReceived={(transcript) => {
-                    console.log("[IssueForm] Setting reportedBy to:", transcript);
-                    form.setValue('reportedBy', transcript, { shouldValidate: true });
-                  }}
-                  placeholder="Reported By"
-                  fieldId="reported-by"
-                />
-              </div>
+              <Label htmlFor="reported-by">Reported By <span className="text-[#FF5630]">*</span></Label>
               <Input
                 id="reported-by"
-                placeholder="Enter your name or email"
-                className={errors.reportedBy ? "border-[#FF5630]" : ""}
+                readOnly
+                className={`bg-neutral-100 ${errors.reportedBy ? "border-[#FF5630]" : ""}`}
                 value={form.watch('reportedBy') || ''}
-                onChange={(e) => form.setValue('reportedBy', e.target.value, { shouldValidate: true })}
               />
+              <p className="text-sm text-neutral-500">Filled in from your signed-in account.</p>
               {errors.reportedBy && (
                 <p className="text-sm text-[#FF5630]">{errors.reportedBy.message?.toString()}</p>
               )}
@@ -549,7 +719,7 @@ const IssueForm: React.FC = () => {
               setFiles={setPhotos}
               maxFiles={10}
               maxSize={10 * 1024 * 1024} // 10MB
-              acceptedTypes="image/*"
+              acceptedTypes={acceptedTypesFor('photo')}
             />
             
             <MediaUpload 
@@ -558,7 +728,7 @@ const IssueForm: React.FC = () => {
               setFiles={(files) => setVideo(files.length > 0 ? files[0] : null)}
               maxFiles={1}
               maxSize={100 * 1024 * 1024} // 100MB
-              acceptedTypes="video/*"
+              acceptedTypes={acceptedTypesFor('video')}
             />
             
             <AudioRecorder 
@@ -571,7 +741,7 @@ const IssueForm: React.FC = () => {
               setFiles={setFiles}
               maxFiles={5}
               maxSize={50 * 1024 * 1024} // 50MB
-              acceptedTypes=".pdf,.txt,.log,.csv,.zip"
+              acceptedTypes={acceptedTypesFor('file')}
             />
           </div>
         );
@@ -587,6 +757,13 @@ const IssueForm: React.FC = () => {
               files={files}
             />
             
+            <UploadProgress
+              uploads={attachmentUploads.uploads}
+              progress={attachmentUploads.progress}
+              onCancel={attachmentUploads.cancel}
+              onRetry={attachmentUploads.retry}
+            />
+            
             <div className="space-y-4">
               <div className="flex items-start">
                 <div className="flex items-center h-5 mt-1">
@@ -610,7 +787,12 @@ const IssueForm: React.FC = () => {
               )}
               
               <div className="bg-neutral-100 p-4 rounded-md text-sm text-neutral-500">
-                <p><strong>Note:</strong> Submitting this form will create a Jira ticket automatically. You'll receive a confirmation email with the ticket ID for tracking purposes.</p>
+                <p>
+                  <strong>Note:</strong> Submitting this form will create a ticket in the issue tracker automatically.{' '}
+                  {user?.email && user.notificationPreferences.issueSubmitted
+                    ? `You'll receive a confirmation email at ${user.email} with the ticket ID for tracking purposes.`
+                    : 'Turn on confirmation emails in Settings to receive the ticket ID by email.'}
+                </p>
               </div>
             </div>
           </div>
@@ -629,8 +811,27 @@ const IssueForm: React.FC = () => {
         stepTitles={stepTitles}
       />
       
+      {!initialDraftId && localDraft.saved && (
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-[#B3D4FF] bg-[#DEEBFF] p-4 text-sm">
+          <span>
+            You have an unfinished report autosaved on this device
+            ({new Date(localDraft.saved.savedAt).toLocaleString()}).
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={discardLocalDraft}>
+              Discard
+            </Button>
+            <Button size="sm" className="bg-[#0052CC] hover:bg-[#0747A6]" onClick={restoreLocalDraft}>
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+      
       <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
-        {renderStep()}
+        {isRestoringDraft ? (
+          <div className="py-16 text-center text-neutral-500">Loading draft...</div>
+        ) : renderStep()}
         
         {/* Navigation Buttons */}
         <div className="mt-8 flex justify-between">
@@ -645,13 +846,13 @@ const IssueForm: React.FC = () => {
             <Button
               variant="outline"
               onClick={saveDraft}
-              disabled={isSubmitting}
+              disabled={isSubmitting || isSavingDraft || isRestoringDraft}
             >
-              Save Draft
+              {isSavingDraft ? 'Saving...' : 'Save Draft'}
             </Button>
             <Button
               onClick={goToNextStep}
-              disabled={isSubmitting}
+              disabled={isSubmitting || isRestoringDraft}
               className="bg-[#0052CC] hover:bg-[#0747A6]"
             >
               {isSubmitting ? (
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import type { Issue } from '@shared/schema';
+import { issueStatusLabels, labelFor } from '@shared/labels';
+import { allowedTransitions } from '@shared/workflow';
+
+interface IssueStatusControlProps {
+  issue: Issue;
+}
+
+// Lets triagers move an issue to one of the statuses the workflow allows next
+const IssueStatusControl: React.FC<IssueStatusControlProps> = ({ issue }) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState('');
+  const [note, setNote] = useState('');
+  const nextStatuses = allowedTransitions(issue.status);
+
+  const changeStatus = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/issues/${issue.id}/status`, {
+        status,
+        note: note.trim() || undefined,
+      });
+      return (await res.json()) as Issue;
+    },
+    onSuccess: (updated) => {
+      setStatus('');
+      setNote('');
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issue.id}`] });
+      toast({
+        title: 'Status updated',
+        description: `Issue #${issue.id} is now ${labelFor(issueStatusLabels, updated.status ?? '')}.`,
+      });
+    },
+    onError: (error: Error) => {
+      // A 409 means the status moved underneath us; show the latest state
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issue.id}`] });
+      toast({
+        title: 'Could not change status',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (nextStatuses.length === 0) {
+    return <p className="text-sm text-neutral-500">No further status changes are available.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Select value={status} onValueChange={setStatus}>
+        <SelectTrigger>
+          <SelectValue placeholder="Move to..." />
+        </SelectTrigger>
+        <SelectContent>
+          {nextStatuses.map(next => (
+            <SelectItem key={next} value={next}>{labelFor(issueStatusLabels, next)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea
+        value={note}
+        onChange={(event) => setNote(event.target.value)}
+        placeholder="Add a note (optional)"
+        rows={2}
+        maxLength={2000}
+      />
+      <Button
+        className="w-full bg-[#0052CC] hover:bg-[#0747A6]"
+        disabled={!status || changeStatus.isPending}
+        onClick={() => changeStatus.mutate()}
+      >
+        {changeStatus.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Update Status
+      </Button>
+    </div>
+  );
+};
+
+export default IssueStatusControl;
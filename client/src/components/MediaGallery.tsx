@@ -0,0 +1,237 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { formatFileSize } from '@/lib/formValidation';
+import type { Media, MediaVariant } from '@shared/schema';
+
+interface MediaGalleryProps {
+  media: Media[];
+}
+
+// Attachments are streamed by media ID; photos also come as a small thumbnail
+// or a web-sized preview, videos as an MP4 rendition with a poster frame
+export const mediaUrl = (item: Pick<Media, 'id'>, size?: MediaVariant, download = false): string => {
+  const params = new URLSearchParams();
+  if (size) params.set('size', size);
+  if (download) params.set('download', '1');
+  const query = params.toString();
+  return `/api/media/${item.id}${query ? `?${query}` : ''}`;
+};
+
+const formatDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+// A voice note with its transcript; segment timestamps seek the player
+const VoiceNote: React.FC<{ audio: Media }> = ({ audio }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const seek = (seconds: number) => {
+    const player = audioRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    player.play().catch(() => {});
+  };
+
+  const renderTranscript = () => {
+    if (audio.transcriptionStatus === 'pending') {
+      return <span className="text-neutral-400">Transcribing…</span>;
+    }
+    if (audio.transcriptionSegments && audio.transcriptionSegments.length > 0) {
+      return (
+        <ol className="space-y-1">
+          {audio.transcriptionSegments.map((segment, index) => (
+            <li key={index} className="flex gap-2">
+              <button
+                type="button"
+                className="shrink-0 font-mono text-xs text-[#0052CC] hover:underline pt-0.5"
+                onClick={() => seek(segment.start)}
+              >
+                {formatDuration(segment.start)}
+              </button>
+              <span>{segment.text}</span>
+            </li>
+          ))}
+        </ol>
+      );
+    }
+    if (audio.transcription) {
+      return <div className="whitespace-pre-line">{audio.transcription}</div>;
+    }
+    if (audio.transcriptionStatus === 'failed') {
+      return <span className="text-neutral-400">The voice note could not be transcribed</span>;
+    }
+    return <span className="text-neutral-400">No transcription available</span>;
+  };
+
+  return (
+    <div className="p-3 bg-neutral-100 rounded-lg space-y-2">
+      <audio ref={audioRef} src={mediaUrl(audio)} controls preload="metadata" className="w-full" />
+      <div>
+        <div className="text-sm text-neutral-500">
+          Transcription
+          {audio.transcriptionLanguage && (
+            <span className="ml-2 text-xs uppercase">{audio.transcriptionLanguage}</span>
+          )}
+        </div>
+        <div className="text-sm">{renderTranscript()}</div>
+      </div>
+    </div>
+  );
+};
+
+const MediaGallery: React.FC<MediaGalleryProps> = ({ media }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const photos = media.filter(item => item.type === 'photo');
+  const videos = media.filter(item => item.type === 'video');
+  const audios = media.filter(item => item.type === 'audio');
+  const files = media.filter(item => item.type === 'file');
+
+  const showPrevious = () => {
+    setLightboxIndex(index => index === null ? null : (index - 1 + photos.length) % photos.length);
+  };
+
+  const showNext = () => {
+    setLightboxIndex(index => index === null ? null : (index + 1) % photos.length);
+  };
+
+  if (media.length === 0) {
+    return <p className="text-sm text-neutral-500">No attachments were included with this report.</p>;
+  }
+
+  const currentPhoto = lightboxIndex !== null ? photos[lightboxIndex] : null;
+
+  return (
+    <div className="space-y-6">
+      {photos.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Photos</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {photos.map((photo, index) => (
+              <button
+                key={photo.id}
+                type="button"
+                className="border rounded-lg overflow-hidden bg-neutral-100 focus:outline-none focus:ring-2 focus:ring-[#0052CC]"
+                onClick={() => setLightboxIndex(index)}
+              >
+                <img
+                  src={mediaUrl(photo, 'thumb')}
+                  alt={photo.filename}
+                  loading="lazy"
+                  className="w-full h-32 object-cover"
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {videos.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Video</h4>
+          <div className="space-y-3">
+            {videos.map(video => (
+              <div key={video.id} className="rounded-lg overflow-hidden bg-neutral-100">
+                <video
+                  src={video.renditionPath ? mediaUrl(video, 'mp4') : mediaUrl(video)}
+                  poster={video.posterPath ? mediaUrl(video, 'poster') : undefined}
+                  controls
+                  preload="metadata"
+                  className="w-full h-auto max-h-96 bg-black"
+                />
+                <div className="px-3 py-2 text-xs text-neutral-500">
+                  {video.filename} ({formatFileSize(video.fileSize)}
+                  {video.durationSeconds !== null && `, ${formatDuration(video.durationSeconds)}`})
+                  {video.processingStatus === 'pending' && ' · Preparing a copy that plays in every browser'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {audios.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Voice Notes</h4>
+          <div className="space-y-3">
+            {audios.map(audio => (
+              <VoiceNote key={audio.id} audio={audio} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Files</h4>
+          <div className="space-y-2">
+            {files.map(file => (
+              <div key={file.id} className="flex items-center justify-between p-3 bg-neutral-100 rounded-lg">
+                <div className="flex items-center">
+                  <FileText className="h-5 w-5 text-neutral-500" />
+                  <div className="ml-3 text-sm">
+                    {file.filename} <span className="text-neutral-500 text-xs">({formatFileSize(file.fileSize)})</span>
+                  </div>
+                </div>
+                <Button asChild variant="ghost" size="sm" className="text-[#0052CC]">
+                  <a href={mediaUrl(file, undefined, true)}>
+                    <Download className="h-4 w-4 mr-1" /> Download
+                  </a>
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Photo lightbox */}
+      <Dialog open={currentPhoto !== null} onOpenChange={(open) => !open && setLightboxIndex(null)}>
+        <DialogContent className="max-w-4xl p-2 bg-black border-none">
+          <DialogTitle className="sr-only">{currentPhoto?.filename ?? 'Photo'}</DialogTitle>
+          {currentPhoto && (
+            <div className="relative">
+              <img
+                src={mediaUrl(currentPhoto, 'preview')}
+                alt={currentPhoto.filename}
+                className="w-full max-h-[80vh] object-contain"
+              />
+              {photos.length > 1 && (
+                <>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="absolute left-2 top-1/2 -translate-y-1/2 text-white bg-black/50 hover:bg-black/75"
+                    onClick={showPrevious}
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-white bg-black/50 hover:bg-black/75"
+                    onClick={showNext}
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </Button>
+                </>
+              )}
+              <div className="flex items-center justify-between px-2 pt-2 text-xs text-neutral-300">
+                <span>{currentPhoto.filename} ({lightboxIndex! + 1} of {photos.length})</span>
+                <a href={mediaUrl(currentPhoto, undefined, true)} className="hover:text-white">
+                  <Download className="h-4 w-4" />
+                </a>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MediaGallery;
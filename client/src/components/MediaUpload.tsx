@@ -3,6 +3,7 @@ import { Camera, Video, Trash2, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { fileRejectionReason } from '@/lib/formValidation';
 import CameraCapture from './CameraCapture';
 
 interface MediaUploadProps {
@@ -78,6 +79,17 @@ const MediaUpload: React.FC<MediaUploadProps> = ({
       return;
     }
     
+    // Refuse types the server would reject
+    const refusedFile = selectedFiles.find(file => fileRejectionReason(file));
+    if (refusedFile) {
+      toast({
+        title: "File type not allowed",
+        description: `${refusedFile.name}: ${fileRejectionReason(refusedFile)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
     // Process files based on type
     if (type === 'photo') {
       setFiles([...files, ...selectedFiles]);
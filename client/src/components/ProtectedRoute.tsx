@@ -0,0 +1,30 @@
+import React from 'react';
+import { Redirect, Route } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+interface ProtectedRouteProps {
+  path: string;
+  component: React.ComponentType;
+}
+
+// Renders the route only for signed-in users, otherwise sends them to /login
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ path, component: Component }) => {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-[#0052CC]" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+};
+
+export default ProtectedRoute;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { IssueFormData } from '@shared/schema';
+import { frequencyLabels, labelFor, productCategoryLabels, severityDescriptions } from '@shared/labels';
 
 interface ReviewSummaryProps {
   formData: IssueFormData;
@@ -16,39 +17,16 @@ const ReviewSummary: React.FC<ReviewSummaryProps> = ({
   audio,
   files
 }) => {
-  // Helper to format severity and frequency as human-readable text
-  const getProductCategoryDisplay = (value: string): string => {
-    const map: Record<string, string> = {
-      pegasus: 'Pegasus',
-      pegasusX: 'Pegasus X',
-      mercury: 'Mercury',
-      titanium: 'Titanium',
-      antalya: 'Antalya'
-    };
-    return map[value] || value;
-  };
+  // Helpers to format coded values as human-readable text
+  const getProductCategoryDisplay = (value: string): string => labelFor(productCategoryLabels, value);
 
-  const getSeverityDisplay = (value: string): string => {
-    const map: Record<string, string> = {
-      blocker: 'Blocker - Prevents function',
-      critical: 'Critical - Major function affected',
-      major: 'Major - System performance affected',
-      minor: 'Minor - Non-essential function affected',
-      trivial: 'Trivial - Cosmetic issue'
-    };
-    return map[value] || value;
-  };
+  const getSeverityDisplay = (value: string): string => labelFor(severityDescriptions, value);
   
   const getFrequencyDisplay = (value: string, customDescription?: string | null): string => {
-    const map: Record<string, string> = {
-      always: 'Always (100% of the time)',
-      often: 'Often (approximately 75% of the time)',
-      sometimes: 'Sometimes (approximately 50% of the time)',
-      rarely: 'Rarely (approximately 25% of the time)',
-      once: 'Once (unable to reproduce consistently)',
-      custom: customDescription ? `Custom: ${customDescription}` : 'Custom frequency'
-    };
-    return map[value] || value;
+    if (value === 'custom') {
+      return customDescription ? `Custom: ${customDescription}` : 'Custom frequency';
+    }
+    return labelFor(frequencyLabels, value);
   };
   
   // Removed OS and Browser display functions as they are no longer needed
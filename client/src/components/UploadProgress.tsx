@@ -0,0 +1,99 @@
+import React from 'react';
+import { CheckCircle2, Loader2, RotateCcw, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { formatFileSize } from '@/lib/formValidation';
+import type { AttachmentUpload, AttachmentUploadStatus, UploadProgressSummary } from '@/hooks/use-attachment-uploads';
+
+interface UploadProgressProps {
+  uploads: AttachmentUpload[];
+  progress: UploadProgressSummary;
+  onCancel: (file: File) => void;
+  onRetry: (file: File) => void;
+}
+
+const statusLabels: Record<AttachmentUploadStatus, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Removed from report',
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const percent = (uploaded: number, total: number): number =>
+  total > 0 ? Math.min(100, Math.round((uploaded / total) * 100)) : 100;
+
+// Overall and per-attachment upload progress shown while a report is submitted
+const UploadProgress: React.FC<UploadProgressProps> = ({ uploads, progress, onCancel, onRetry }) => {
+  if (uploads.length === 0) return null;
+
+  const isUploading = uploads.some(upload => upload.status === 'uploading' || upload.status === 'queued');
+
+  return (
+    <div className="border border-neutral-200 rounded-lg p-4 space-y-4">
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="font-medium">Attachments</span>
+          <span className="text-neutral-500">
+            {formatFileSize(progress.uploaded)} of {formatFileSize(progress.total)}
+            {isUploading && progress.secondsRemaining !== null && ` · about ${formatDuration(progress.secondsRemaining)} left`}
+          </span>
+        </div>
+        <Progress value={percent(progress.uploaded, progress.total)} className="h-2" />
+      </div>
+
+      <ul className="space-y-3">
+        {uploads.map((upload, index) => (
+          <li key={`${upload.file.name}-${index}`} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center min-w-0">
+                {upload.status === 'uploading' && <Loader2 className="h-4 w-4 mr-2 shrink-0 animate-spin text-[#0052CC]" />}
+                {upload.status === 'done' && <CheckCircle2 className="h-4 w-4 mr-2 shrink-0 text-[#36B37E]" />}
+                {upload.status === 'failed' && <XCircle className="h-4 w-4 mr-2 shrink-0 text-[#FF5630]" />}
+                <span className={`truncate ${upload.status === 'cancelled' ? 'line-through text-neutral-400' : ''}`}>
+                  {upload.file.name}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs text-neutral-500">
+                  {upload.status === 'uploading'
+                    ? `${percent(upload.uploaded, upload.file.size)}% of ${formatFileSize(upload.file.size)}`
+                    : statusLabels[upload.status]}
+                </span>
+                {(upload.status === 'failed' || upload.status === 'cancelled') && (
+                  <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRetry(upload.file)}>
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {upload.status !== 'cancelled' && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-neutral-500 hover:text-[#FF5630]"
+                    onClick={() => onCancel(upload.file)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {upload.status !== 'cancelled' && (
+              <Progress value={percent(upload.uploaded, upload.file.size)} className="h-1 mt-1" />
+            )}
+            {upload.error && <p className="text-xs text-[#FF5630] mt-1">{upload.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadProgress;
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { describeError } from "@/lib/queryClient";
+import { discardResumableUpload, forgetResumableUpload, uploadResumable } from "@/lib/resumableUpload";
+
+export type AttachmentUploadStatus = "queued" | "uploading" | "done" | "failed" | "cancelled";
+
+export interface AttachmentUpload {
+  file: File;
+  status: AttachmentUploadStatus;
+  uploaded: number;
+  error: string | null;
+  uploadId: string | null;
+}
+
+export interface UploadProgressSummary {
+  uploaded: number;
+  total: number;
+  // Null until enough has been sent to estimate a rate
+  secondsRemaining: number | null;
+}
+
+const RATE_SAMPLE_MIN_MS = 1000;
+
+function uploadedBytes(tasks: Map<File, AttachmentUpload>): number {
+  let uploaded = 0;
+  tasks.forEach((task) => {
+    if (task.status !== "cancelled") uploaded += task.uploaded;
+  });
+  return uploaded;
+}
+
+// Uploads report attachments one by one through the resumable upload API so
+// each file can show progress, be cancelled, or be retried on its own. The
+// report itself is only posted once every file is done or cancelled.
+export function useAttachmentUploads() {
+  const tasks = useRef(new Map<File, AttachmentUpload>());
+  const controllers = useRef(new Map<File, AbortController>());
+  const inFlight = useRef(new Map<File, Promise<void>>());
+  const rateStart = useRef<{ time: number; uploaded: number } | null>(null);
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+
+  const update = useCallback((file: File, changes: Partial<AttachmentUpload>) => {
+    const current = tasks.current.get(file);
+    if (!current) return;
+    tasks.current.set(file, { ...current, ...changes });
+    setUploads(Array.from(tasks.current.values()));
+  }, []);
+
+  const uploadOne = useCallback((file: File): Promise<void> => {
+    const running = inFlight.current.get(file);
+    if (running) return running;
+
+    // Measure the transfer rate from when uploading (re)starts
+    if (inFlight.current.size === 0) {
+      rateStart.current = { time: Date.now(), uploaded: uploadedBytes(tasks.current) };
+    }
+
+    const controller = new AbortController();
+    controllers.current.set(file, controller);
+    update(file, { status: "uploading", error: null });
+
+    const run = uploadResumable(file, {
+      signal: controller.signal,
+      onProgress: (uploaded) => update(file, { uploaded }),
+    })
+      .then((uploadId) => update(file, { status: "done", uploaded: file.size, uploadId }))
+      .catch((error) => {
+        // cancel() has already marked the file
+        if (controller.signal.aborted) return;
+        update(file, {
+          status: "failed",
+          error: error instanceof Error ? describeError(error) : "Upload failed",
+        });
+      })
+      .finally(() => {
+        controllers.current.delete(file);
+        inFlight.current.delete(file);
+        if (inFlight.current.size === 0) {
+          rateStart.current = null;
+        }
+      });
+
+    inFlight.current.set(file, run);
+    return run;
+  }, [update]);
+
+  // Upload every attached file that is not done or cancelled yet, retrying
+  // earlier failures. Resolves true once each file is done or cancelled.
+  const uploadAll = useCallback(async (files: File[]): Promise<boolean> => {
+    for (const file of Array.from(tasks.current.keys())) {
+      if (!files.includes(file)) {
+        controllers.current.get(file)?.abort();
+        tasks.current.delete(file);
+        discardResumableUpload(file).catch((error) => console.error("Error discarding upload:", error));
+      }
+    }
+    for (const file of files) {
+      if (!tasks.current.has(file)) {
+        tasks.current.set(file, { file, status: "queued", uploaded: 0, error: null, uploadId: null });
+      }
+    }
+    setUploads(Array.from(tasks.current.values()));
+
+    for (const file of files) {
+      const task = tasks.current.get(file);
+      if (task && (task.status === "queued" || task.status === "failed" || task.status === "uploading")) {
+        await uploadOne(file);
+      }
+    }
+    // Retries started from the list while the loop ran
+    await Promise.all(Array.from(inFlight.current.values()));
+
+    return files.every((file) => {
+      const status = tasks.current.get(file)?.status;
+      return status === "done" || status === "cancelled";
+    });
+  }, [uploadOne]);
+
+  const retry = useCallback((file: File) => {
+    const task = tasks.current.get(file);
+    if (task && (task.status === "failed" || task.status === "cancelled")) {
+      uploadOne(file);
+    }
+  }, [uploadOne]);
+
+  // Leave the file out of the report and drop whatever reached the server
+  const cancel = useCallback((file: File) => {
+    if (!tasks.current.has(file)) return;
+    controllers.current.get(file)?.abort();
+    update(file, { status: "cancelled", uploaded: 0, error: null, uploadId: null });
+    discardResumableUpload(file).catch((error) => console.error("Error discarding upload:", error));
+  }, [update]);
+
+  // IDs to send in the stagedUploads field of POST /api/issues
+  const uploadIds = useCallback((): string[] => {
+    return Array.from(tasks.current.values())
+      .filter((task) => task.status === "done" && task.uploadId)
+      .map((task) => task.uploadId!);
+  }, []);
+
+  const cancelledFiles = useCallback((): File[] => {
+    return Array.from(tasks.current.values())
+      .filter((task) => task.status === "cancelled")
+      .map((task) => task.file);
+  }, []);
+
+  // The report was created, so the staged uploads were claimed
+  const finish = useCallback(() => {
+    tasks.current.forEach((task) => forgetResumableUpload(task.file));
+    tasks.current.clear();
+    setUploads([]);
+  }, []);
+
+  useEffect(() => () => {
+    controllers.current.forEach((controller) => controller.abort());
+  }, []);
+
+  const uploaded = uploadedBytes(tasks.current);
+  const total = uploads
+    .filter((task) => task.status !== "cancelled")
+    .reduce((sum, task) => sum + task.file.size, 0);
+
+  // Estimate from the average rate since uploading (re)started
+  let secondsRemaining: number | null = null;
+  const now = Date.now();
+  if (rateStart.current && now - rateStart.current.time >= RATE_SAMPLE_MIN_MS) {
+    const rate = (uploaded - rateStart.current.uploaded) / ((now - rateStart.current.time) / 1000);
+    if (rate > 0) {
+      secondsRemaining = Math.ceil((total - uploaded) / rate);
+    }
+  }
+  const progress: UploadProgressSummary = { uploaded, total, secondsRemaining };
+
+  return { uploads, progress, uploadAll, retry, cancel, uploadIds, cancelledFiles, finish };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useState } from "react";
+
+const STORAGE_KEY = "issueFilterPresets";
+
+export interface FilterPreset<T> {
+  name: string;
+  filters: T;
+}
+
+function loadPresets<T>(): FilterPreset<T>[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Named filter combinations saved in this browser
+export function useFilterPresets<T>() {
+  const [presets, setPresets] = useState<FilterPreset<T>[]>(loadPresets);
+
+  const persist = useCallback((next: FilterPreset<T>[]) => {
+    setPresets(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  const savePreset = useCallback((name: string, filters: T) => {
+    persist([...presets.filter((preset) => preset.name !== name), { name, filters }]);
+  }, [presets, persist]);
+
+  const deletePreset = useCallback((name: string) => {
+    persist(presets.filter((preset) => preset.name !== name));
+  }, [presets, persist]);
+
+  return { presets, savePreset, deletePreset };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { clearLocalDraft, isEmptyDraft, loadLocalDraft, saveLocalDraft, type LocalDraft } from "@/lib/localDraft";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Debounced autosave of the report wizard to IndexedDB. `saved` holds the
+// state found on load until the caller restores or discards it.
+export function useLocalDraft(key: string | null) {
+  const [saved, setSaved] = useState<LocalDraft | null>(null);
+  const [checked, setChecked] = useState(false);
+  const timer = useRef<number | null>(null);
+
+  const cancelPending = useCallback(() => {
+    if (timer.current !== null) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!key) return;
+
+    loadLocalDraft(key)
+      .then((draft) => setSaved(draft && !isEmptyDraft(draft) ? draft : null))
+      .catch((error) => console.error("Error loading autosaved report:", error))
+      .finally(() => setChecked(true));
+  }, [key]);
+
+  useEffect(() => cancelPending, [cancelPending]);
+
+  const scheduleSave = useCallback((draft: Omit<LocalDraft, "savedAt">) => {
+    if (!key) return;
+
+    cancelPending();
+    timer.current = window.setTimeout(() => {
+      timer.current = null;
+      const write = isEmptyDraft(draft)
+        ? clearLocalDraft(key)
+        : saveLocalDraft(key, { ...draft, savedAt: Date.now() });
+      write.catch((error) => console.error("Error autosaving report:", error));
+    }, AUTOSAVE_DELAY_MS);
+  }, [key, cancelPending]);
+
+  const clear = useCallback(async () => {
+    cancelPending();
+    setSaved(null);
+    if (key) {
+      await clearLocalDraft(key);
+    }
+  }, [key, cancelPending]);
+
+  // Forget the offered state without deleting it; the next autosave replaces it
+  const dismiss = useCallback(() => setSaved(null), []);
+
+  return { saved, checked, scheduleSave, clear, dismiss };
+}
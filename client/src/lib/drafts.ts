@@ -0,0 +1,108 @@
+import { apiRequest } from './queryClient';
+import type { DraftMedia, DraftWithMedia } from '@shared/schema';
+
+// Media held by the report wizard
+export interface WizardMedia {
+  photos: File[];
+  video: File | null;
+  audio: { file: File; duration: string } | null;
+  files: File[];
+}
+
+// Remembers which local File objects are already stored with the draft,
+// so saving again only uploads what changed
+export type DraftUploads = WeakMap<File, number>;
+
+interface DraftState {
+  values: Record<string, unknown>;
+  currentStep: number;
+}
+
+type SlotEntry = { slot: DraftMedia['slot']; file: File; duration?: string };
+
+const slotEntries = (media: WizardMedia): SlotEntry[] => [
+  ...media.photos.map(file => ({ slot: 'photo', file })),
+  ...(media.video ? [{ slot: 'video', file: media.video }] : []),
+  ...(media.audio ? [{ slot: 'audio', file: media.audio.file, duration: media.audio.duration }] : []),
+  ...media.files.map(file => ({ slot: 'file', file })),
+];
+
+async function uploadSlot(draftId: number, slot: string, entries: SlotEntry[], uploads: DraftUploads) {
+  const formData = new FormData();
+  formData.append('slot', slot);
+  if (entries[0].duration) {
+    formData.append('duration', entries[0].duration);
+  }
+  entries.forEach(entry => formData.append('files', entry.file));
+
+  const res = await fetch(`/api/drafts/${draftId}/media`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+
+  // Rows come back in upload order
+  const saved = (await res.json()) as DraftMedia[];
+  saved.forEach((row, index) => uploads.set(entries[index].file, row.id));
+}
+
+// Create or update a draft, then sync its media with the wizard's current files
+export async function saveDraft(
+  draftId: number | null,
+  state: DraftState,
+  media: WizardMedia,
+  uploads: DraftUploads,
+): Promise<DraftWithMedia> {
+  const res = draftId
+    ? await apiRequest('PUT', `/api/drafts/${draftId}`, state)
+    : await apiRequest('POST', '/api/drafts', state);
+  const draft = (await res.json()) as DraftWithMedia;
+
+  const entries = slotEntries(media);
+  const keptIds = new Set(entries.map(entry => uploads.get(entry.file)).filter(id => id !== undefined));
+
+  for (const item of draft.media) {
+    if (!keptIds.has(item.id)) {
+      await apiRequest('DELETE', `/api/drafts/${draft.id}/media/${item.id}`);
+    }
+  }
+
+  const pending = entries.filter(entry => !draft.media.some(item => item.id === uploads.get(entry.file)));
+  for (const slot of ['photo', 'video', 'audio', 'file']) {
+    const slotPending = pending.filter(entry => entry.slot === slot);
+    if (slotPending.length > 0) {
+      await uploadSlot(draft.id, slot, slotPending, uploads);
+    }
+  }
+
+  return draft;
+}
+
+// Draft files are served by stored name from the uploads route
+const draftMediaUrl = (item: DraftMedia): string => {
+  const storedName = item.filePath.split(/[\\/]/).pop() ?? '';
+  return `/uploads/${encodeURIComponent(storedName)}`;
+};
+
+// Download a draft's stored files back into File objects for the wizard
+export async function restoreDraftMedia(draft: DraftWithMedia, uploads: DraftUploads): Promise<WizardMedia> {
+  const restored: WizardMedia = { photos: [], video: null, audio: null, files: [] };
+
+  for (const item of draft.media) {
+    const res = await fetch(draftMediaUrl(item), { credentials: 'include' });
+    if (!res.ok) continue;
+
+    const file = new File([await res.blob()], item.filename, { type: item.mimeType });
+    uploads.set(file, item.id);
+
+    if (item.slot === 'photo') restored.photos.push(file);
+    else if (item.slot === 'video') restored.video = file;
+    else if (item.slot === 'audio') restored.audio = { file, duration: item.duration ?? '00:00' };
+    else restored.files.push(file);
+  }
+
+  return restored;
+}
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { uploadRejectionReason } from '@shared/uploadTypes';
+
+export { acceptedTypesFor } from '@shared/uploadTypes';
 
 // Validator for file types
 export const validateFileType = (file: File, acceptedTypes: string[]): boolean => {
@@ -17,6 +20,12 @@ export const validateFileType = (file: File, acceptedTypes: string[]): boolean =
   });
 };
 
+// Why the server would refuse a picked file, checked against the same
+// allow-list it uses; null when the file can be attached
+export const fileRejectionReason = (file: File): string | null => {
+  return uploadRejectionReason(file.name, file.type);
+};
+
 // Helper to parse accepted types string into array
 export const parseAcceptedTypes = (acceptedTypes: string): string[] => {
   return acceptedTypes.split(',').map(type => type.trim());
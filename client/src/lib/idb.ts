@@ -0,0 +1,37 @@
+// Minimal promise wrappers around IndexedDB, shared by the autosave and the
+// offline submission queue
+export interface DatabaseConfig {
+  name: string;
+  version: number;
+  upgrade: (db: IDBDatabase) => void;
+}
+
+function openDatabase(config: DatabaseConfig): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(config.name, config.version);
+    request.onupgradeneeded = () => config.upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request in its own transaction and resolve once it has committed
+export async function withStore<T>(
+  config: DatabaseConfig,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase(config);
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,43 @@
+import type { WizardMedia } from './drafts';
+import { withStore, type DatabaseConfig } from './idb';
+
+// Browser-local autosave of the report wizard. Media is kept as Blobs in
+// IndexedDB, which unlike localStorage can hold binary data of this size.
+const STORE_NAME = 'autosave';
+
+const database: DatabaseConfig = {
+  name: 'issueReporter',
+  version: 1,
+  upgrade: db => db.createObjectStore(STORE_NAME),
+};
+
+export interface LocalDraft {
+  values: Record<string, unknown>;
+  currentStep: number;
+  // Server-side draft the wizard was editing, if any
+  draftId: number | null;
+  media: WizardMedia;
+  savedAt: number;
+}
+
+// Nothing worth restoring: no media and no field typed in besides the reporter
+export const isEmptyDraft = (draft: Pick<LocalDraft, 'values' | 'media'>): boolean => {
+  const { photos, video, audio, files } = draft.media;
+  if (photos.length > 0 || video || audio || files.length > 0) return false;
+
+  return Object.entries(draft.values).every(([field, value]) =>
+    field === 'reportedBy' || value === undefined || value === null || value === '' || value === false
+  );
+};
+
+export async function loadLocalDraft(key: string): Promise<LocalDraft | undefined> {
+  return withStore<LocalDraft | undefined>(database, STORE_NAME, 'readonly', store => store.get(key));
+}
+
+export async function saveLocalDraft(key: string, draft: LocalDraft): Promise<void> {
+  await withStore(database, STORE_NAME, 'readwrite', store => store.put(draft, key));
+}
+
+export async function clearLocalDraft(key: string): Promise<void> {
+  await withStore(database, STORE_NAME, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,108 @@
+import { withStore, type DatabaseConfig } from './idb';
+
+// Report submissions captured without connectivity. The service worker
+// (client/public/sw.js) reads the same database and posts each entry to
+// /api/issues once the network is back; keep the names below in sync with it.
+const STORE_NAME = 'submissions';
+export const QUEUE_SYNC_TAG = 'submit-issues';
+
+const database: DatabaseConfig = {
+  name: 'issueSubmissionQueue',
+  version: 1,
+  upgrade: db => db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true }),
+};
+
+export type QueuedSubmissionStatus = 'pending' | 'sent' | 'failed';
+
+export interface QueuedSubmission {
+  id: number;
+  // Only delivered while this user is signed in
+  userId: number;
+  title: string;
+  issueData: string;
+  draftId: number | null;
+  files: File[];
+  status: QueuedSubmissionStatus;
+  attempts: number;
+  lastError: string | null;
+  issueId: number | null;
+  ticketId: string | null;
+  createdAt: number;
+  sentAt: number | null;
+}
+
+export type NewSubmission = Pick<QueuedSubmission, 'userId' | 'title' | 'issueData' | 'draftId' | 'files'>;
+
+export const isOfflineQueueSupported = (): boolean =>
+  'serviceWorker' in navigator && 'indexedDB' in window;
+
+export async function queueSubmission(submission: NewSubmission): Promise<number> {
+  const entry: Omit<QueuedSubmission, 'id'> = {
+    ...submission,
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    issueId: null,
+    ticketId: null,
+    createdAt: Date.now(),
+    sentAt: null,
+  };
+  const id = await withStore(database, STORE_NAME, 'readwrite', store => store.add(entry));
+  await requestQueueFlush();
+  return id as number;
+}
+
+export async function listSubmissions(userId: number): Promise<QueuedSubmission[]> {
+  const entries = await withStore<QueuedSubmission[]>(database, STORE_NAME, 'readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function removeSubmission(id: number): Promise<void> {
+  await withStore(database, STORE_NAME, 'readwrite', store => store.delete(id));
+}
+
+// Put a rejected submission back in the queue, e.g. after fixing the session
+export async function retrySubmission(id: number): Promise<void> {
+  const entry = await withStore<QueuedSubmission | undefined>(database, STORE_NAME, 'readonly', store => store.get(id));
+  if (!entry) return;
+
+  await withStore(database, STORE_NAME, 'readwrite', store =>
+    store.put({ ...entry, status: 'pending', lastError: null })
+  );
+  await requestQueueFlush();
+}
+
+// Ask the service worker to deliver queued submissions. Background Sync lets
+// the browser wake it when connectivity returns; otherwise message it directly.
+export async function requestQueueFlush(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  const syncManager = (registration as ServiceWorkerRegistration & {
+    sync?: { register(tag: string): Promise<void> };
+  }).sync;
+
+  if (syncManager) {
+    try {
+      await syncManager.register(QUEUE_SYNC_TAG);
+      return;
+    } catch {
+      // Registration can be refused (e.g. permissions); fall back to messaging
+    }
+  }
+
+  registration.active?.postMessage({ type: 'flush-queue' });
+}
+
+// Notified whenever the service worker changes a queued submission
+export function onQueueUpdated(listener: () => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === 'queue-updated') listener();
+  };
+  navigator.serviceWorker.addEventListener('message', handler);
+  return () => navigator.serviceWorker.removeEventListener('message', handler);
+}
@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pull the server's { error } message out of an apiRequest failure
+export function describeError(error: Error): string {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  if (!match) return error.message;
+  try {
+    return JSON.parse(match[1]).error ?? match[1];
+  } catch {
+    return match[1];
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,223 @@
+import type { StagedUploadStatus } from '@shared/schema';
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_ATTEMPTS = 6;
+const STORAGE_PREFIX = 'resumableUpload:';
+
+export interface ResumableUploadOptions {
+  onProgress?: (uploaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+class UploadRejectedError extends Error {
+  constructor(public status: number, message: string, public offset?: number) {
+    super(`${status}: ${message}`);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+// Same file picked again after a reload or crash maps to the same upload
+function storageKey(file: File): string {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function rememberedUploadId(file: File): string | null {
+  try {
+    return localStorage.getItem(storageKey(file));
+  } catch {
+    return null;
+  }
+}
+
+function rememberUploadId(file: File, id: string) {
+  try {
+    localStorage.setItem(storageKey(file), id);
+  } catch {
+    // Private mode: uploads still work, they just cannot resume after a reload
+  }
+}
+
+export function forgetResumableUpload(file: File) {
+  try {
+    localStorage.removeItem(storageKey(file));
+  } catch {
+    // Nothing stored
+  }
+}
+
+// Drop a file's staged upload on the server, e.g. when the user cancels it
+export async function discardResumableUpload(file: File) {
+  const id = rememberedUploadId(file);
+  forgetResumableUpload(file);
+  if (id) {
+    await fetch(`/api/uploads/${id}`, { method: 'DELETE', credentials: 'include' });
+  }
+}
+
+async function sha256(data: ArrayBuffer): Promise<string | null> {
+  // crypto.subtle only exists in secure contexts
+  if (!window.crypto?.subtle) return null;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  let binary = '';
+  digest.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+async function rejection(res: Response): Promise<UploadRejectedError> {
+  const text = (await res.text()) || res.statusText;
+  let message = text;
+  let offset: number | undefined;
+  try {
+    const body = JSON.parse(text);
+    message = body.error ?? text;
+    offset = body.offset;
+  } catch {
+    // Not JSON
+  }
+  return new UploadRejectedError(res.status, message, offset);
+}
+
+async function createUpload(file: File, signal?: AbortSignal): Promise<StagedUploadStatus> {
+  const res = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: file.name, mimeType: file.type, size: file.size }),
+    credentials: 'include',
+    signal,
+  });
+  if (!res.ok) throw await rejection(res);
+  return res.json();
+}
+
+async function fetchStatus(id: string, signal?: AbortSignal): Promise<StagedUploadStatus | null> {
+  const res = await fetch(`/api/uploads/${id}`, { credentials: 'include', signal });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await rejection(res);
+  return res.json();
+}
+
+// XMLHttpRequest rather than fetch, which cannot report upload progress
+function sendChunk(
+  id: string,
+  offset: number,
+  data: ArrayBuffer,
+  checksum: string | null,
+  onChunkProgress: (sent: number) => void,
+  signal?: AbortSignal,
+): Promise<StagedUploadStatus> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', `/api/uploads/${id}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    if (checksum) {
+      xhr.setRequestHeader('Upload-Checksum', `sha256 ${checksum}`);
+    }
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      settle();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText));
+        return;
+      }
+      let message = xhr.responseText || xhr.statusText;
+      let serverOffset: number | undefined;
+      try {
+        const body = JSON.parse(xhr.responseText);
+        message = body.error ?? message;
+        serverOffset = body.offset;
+      } catch {
+        // Not JSON
+      }
+      reject(new UploadRejectedError(xhr.status, message, serverOffset));
+    };
+    // Same error types fetch would produce, so retries treat both alike
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError('Network error while uploading'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.send(data);
+  });
+}
+
+// Network failures, server errors, offset conflicts and checksum mismatches
+// can all be retried from the offset the server reports
+function isRetryable(error: unknown): boolean {
+  if (error instanceof UploadRejectedError) {
+    return error.status >= 500 || error.status === 409 || error.status === 460;
+  }
+  return error instanceof TypeError;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// Upload a file in checksummed chunks, continuing where a previous attempt
+// (in this or an earlier page load) stopped. Resolves with the upload ID to
+// send in the stagedUploads field of POST /api/issues.
+export async function uploadResumable(file: File, options: ResumableUploadOptions = {}): Promise<string> {
+  const { onProgress, signal } = options;
+
+  let status: StagedUploadStatus | null = null;
+  const previousId = rememberedUploadId(file);
+  if (previousId) {
+    status = await fetchStatus(previousId, signal);
+  }
+  if (!status) {
+    status = await createUpload(file, signal);
+    rememberUploadId(file, status.id);
+  }
+
+  let offset = status.offset;
+  let failures = 0;
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    try {
+      const data = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+      const checksum = await sha256(data);
+      const start = offset;
+      const next = await sendChunk(status.id, start, data, checksum, (sent) => onProgress?.(start + sent, file.size), signal);
+      offset = next.offset;
+      failures = 0;
+      onProgress?.(offset, file.size);
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || ++failures >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await wait(Math.min(1000 * 2 ** (failures - 1), 30000), signal);
+
+      // Ask the server where to continue rather than trusting our own count
+      const current = await fetchStatus(status.id, signal).catch(() => undefined);
+      if (current === null) {
+        forgetResumableUpload(file);
+        throw new Error('The upload expired on the server, please try again');
+      }
+      if (current) {
+        offset = current.offset;
+      }
+    }
+  }
+
+  return status.id;
+}
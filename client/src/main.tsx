@@ -1,5 +1,19 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { requestQueueFlush } from "./lib/offlineQueue";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Installable PWA: the service worker caches the shell and delivers
+// submissions queued while offline
+if ("serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+  window.addEventListener("online", () => {
+    requestQueueFlush().catch(() => {});
+  });
+}
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, Copy, KeyRound, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import { webhookEvents, type PublicWebhookSubscription, type WebhookDelivery, type WebhookEvent } from '@shared/schema';
+import { labelFor, webhookDeliveryStatusLabels, webhookEventLabels } from '@shared/labels';
+
+const SUBSCRIPTIONS_KEY = '/api/admin/webhooks';
+
+// Returned when a subscription is created or its secret regenerated
+type SubscriptionWithSecret = PublicWebhookSubscription & { secret?: string };
+
+const deliveryStatusStyles: Record<string, string> = {
+  pending: 'bg-[#DEEBFF] text-[#0747A6]',
+  sent: 'bg-[#E3FCEF] text-[#006644]',
+  failed: 'bg-[#FFEBE6] text-[#BF2600]',
+};
+
+// Shown once, since the server never returns the secret again
+const SecretNotice: React.FC<{ subscription: SubscriptionWithSecret; onDismiss: () => void }> = ({ subscription, onDismiss }) => {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(subscription.secret ?? '');
+    toast({ title: 'Secret copied' });
+  };
+
+  return (
+    <Alert className="mb-4 border-[#0052CC]">
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>Signing secret for {subscription.url}</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">
+          Copy it now, it will not be shown again. Each request carries an X-Webhook-Signature header
+          with the HMAC-SHA256 of the body under this secret.
+        </p>
+        <div className="flex items-center gap-2">
+          <code className="text-xs bg-neutral-100 rounded px-2 py-1 break-all">{subscription.secret}</code>
+          <Button variant="outline" size="sm" onClick={copy}><Copy className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="sm" onClick={onDismiss}>Done</Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+const NewSubscriptionForm: React.FC<{ onCreated: (subscription: SubscriptionWithSecret) => void }> = ({ onCreated }) => {
+  const { toast } = useToast();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['issue.created']);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(item => item !== event));
+  };
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', SUBSCRIPTIONS_KEY, { url: url.trim(), description, events });
+      return (await res.json()) as SubscriptionWithSecret;
+    },
+    onSuccess: (subscription) => {
+      setUrl('');
+      setDescription('');
+      setEvents(['issue.created']);
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_KEY] });
+      onCreated(subscription);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not add webhook', description: describeError(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4 border border-neutral-200 rounded-lg p-4 mb-6"
+      onSubmit={(event) => {
+        event.preventDefault();
+        create.mutate();
+      }}
+    >
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="webhook-url">Payload URL</Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            placeholder="https://example.com/hooks/issues"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="What receives these events (optional)"
+            maxLength={255}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Events</Label>
+        <div className="flex flex-wrap gap-4">
+          {webhookEvents.map(event => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              {labelFor(webhookEventLabels, event)}
+            </label>
+          ))}
+        </div>
+      </div>
+      <Button
+        type="submit"
+        className="bg-[#0052CC] hover:bg-[#0747A6]"
+        disabled={!url.trim() || events.length === 0 || create.isPending}
+      >
+        {create.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+        Add Webhook
+      </Button>
+    </form>
+  );
+};
+
+// Recent deliveries of one subscription; refreshes while any are still queued
+const DeliveryLog: React.FC<{ subscriptionId: number }> = ({ subscriptionId }) => {
+  const { toast } = useToast();
+  const deliveriesKey = `/api/admin/webhooks/${subscriptionId}/deliveries`;
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+    refetchInterval: (query) => query.state.data?.some(delivery => delivery.status === 'pending') ? 5000 : false,
+  });
+
+  const replay = useMutation({
+    mutationFn: (deliveryId: number) => apiRequest('POST', `/api/admin/webhooks/deliveries/${deliveryId}/replay`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [deliveriesKey] });
+      toast({ title: 'Delivery queued again' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not replay delivery', description: describeError(error), variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-neutral-400 my-4" />;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-neutral-500 py-3">Nothing has been delivered yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>#</TableHead>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Queued</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map(delivery => (
+          <TableRow key={delivery.id}>
+            <TableCell>{delivery.id}</TableCell>
+            <TableCell>{labelFor(webhookEventLabels, delivery.event)}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={`border-transparent ${deliveryStatusStyles[delivery.status] ?? ''}`}>
+                {labelFor(webhookDeliveryStatusLabels, delivery.status)}
+              </Badge>
+              {delivery.attempts > 1 && (
+                <span className="ml-2 text-xs text-neutral-500">{delivery.attempts} attempts</span>
+              )}
+            </TableCell>
+            <TableCell className="max-w-xs">
+              {delivery.responseStatus && <span className="mr-2">{delivery.responseStatus}</span>}
+              {delivery.lastError && <span className="text-xs text-[#FF5630] break-words">{delivery.lastError}</span>}
+            </TableCell>
+            <TableCell className="text-sm text-neutral-500">
+              {delivery.createdAt && new Date(delivery.createdAt).toLocaleString()}
+            </TableCell>
+            <TableCell>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={replay.isPending}
+                onClick={() => replay.mutate(delivery.id)}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" /> Replay
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const SubscriptionItem: React.FC<{
+  subscription: PublicWebhookSubscription;
+  onSecretChanged: (subscription: SubscriptionWithSecret) => void;
+}> = ({ subscription, onSecretChanged }) => {
+  const { toast } = useToast();
+  const [showDeliveries, setShowDeliveries] = useState(false);
+
+  const update = useMutation({
+    mutationFn: async (changes: { active?: boolean; rotateSecret?: boolean }) => {
+      const res = await apiRequest('PATCH', `${SUBSCRIPTIONS_KEY}/${subscription.id}`, changes);
+      return (await res.json()) as SubscriptionWithSecret;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_KEY] });
+      if (updated.secret) onSecretChanged(updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update webhook', description: describeError(error), variant: 'destructive' });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => apiRequest('DELETE', `${SUBSCRIPTIONS_KEY}/${subscription.id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_KEY] }),
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete webhook', description: describeError(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <li className="py-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-medium break-all">{subscription.url}</div>
+          {subscription.description && <div className="text-sm text-neutral-500">{subscription.description}</div>}
+          <div className="flex flex-wrap gap-1 mt-2">
+            {subscription.events.map(event => (
+              <Badge key={event} variant="secondary">{labelFor(webhookEventLabels, event)}</Badge>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <label className="flex items-center gap-2 text-sm mr-2">
+            <Switch
+              checked={subscription.active}
+              disabled={update.isPending}
+              onCheckedChange={(active) => update.mutate({ active })}
+            />
+            Active
+          </label>
+          <Button variant="outline" size="sm" disabled={update.isPending} onClick={() => update.mutate({ rotateSecret: true })}>
+            <KeyRound className="h-4 w-4 mr-1" /> New secret
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-neutral-500 hover:text-[#FF5630]"
+            disabled={remove.isPending}
+            onClick={() => {
+              if (window.confirm('Delete this webhook and its delivery log?')) remove.mutate();
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <button
+        type="button"
+        className="mt-2 flex items-center text-sm text-[#0052CC] hover:underline"
+        onClick={() => setShowDeliveries(!showDeliveries)}
+      >
+        {showDeliveries ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Recent deliveries
+      </button>
+      {showDeliveries && <DeliveryLog subscriptionId={subscription.id} />}
+    </li>
+  );
+};
+
+// Admins subscribe other tools to issue lifecycle events and inspect deliveries
+const AdminWebhooks: React.FC = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [revealed, setRevealed] = useState<SubscriptionWithSecret | null>(null);
+
+  const { data: subscriptions = [], isLoading } = useQuery<PublicWebhookSubscription[]>({
+    queryKey: [SUBSCRIPTIONS_KEY],
+    enabled: isAdmin,
+  });
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <AppHeader description="Notify other tools when reports are filed or change" />
+        <main className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+          {!isAdmin ? (
+            <p className="py-8 text-center text-neutral-500">Only administrators can manage webhooks.</p>
+          ) : (
+            <>
+              {revealed && <SecretNotice subscription={revealed} onDismiss={() => setRevealed(null)} />}
+              <NewSubscriptionForm onCreated={setRevealed} />
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+                </div>
+              ) : subscriptions.length === 0 ? (
+                <p className="py-8 text-center text-neutral-500">No webhooks are configured.</p>
+              ) : (
+                <ul className="divide-y divide-neutral-200">
+                  {subscriptions.map(subscription => (
+                    <SubscriptionItem key={subscription.id} subscription={subscription} onSecretChanged={setRevealed} />
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default AdminWebhooks;
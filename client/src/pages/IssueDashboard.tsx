@@ -0,0 +1,399 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useInfiniteQuery, useQueries } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2, Save, Trash2 } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { SeverityBadge, StatusBadge } from '@/components/IssueBadges';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFilterPresets } from '@/hooks/use-filter-presets';
+import { useToast } from '@/hooks/use-toast';
+import type { IssueQueryResult, IssueSortField } from '@shared/schema';
+import { issueStatusLabels, labelFor, productCategoryLabels, severityLabels } from '@shared/labels';
+
+interface IssueFilters {
+  q: string;
+  severity: string;
+  productCategory: string;
+  status: string;
+  reportedBy: string;
+  createdFrom: string;
+  createdTo: string;
+  sort: IssueSortField;
+  order: 'asc' | 'desc';
+}
+
+const defaultFilters: IssueFilters = {
+  q: '',
+  severity: 'all',
+  productCategory: 'all',
+  status: 'all',
+  reportedBy: '',
+  createdFrom: '',
+  createdTo: '',
+  sort: 'createdAt',
+  order: 'desc',
+};
+
+const PAGE_SIZE = 25;
+const REFRESH_INTERVAL = 30_000;
+
+// Translate the filter form into issue list API query parameters
+const buildParams = (filters: IssueFilters, overrides: Record<string, string> = {}): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.severity !== 'all') params.set('severity', filters.severity);
+  if (filters.productCategory !== 'all') params.set('productCategory', filters.productCategory);
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.reportedBy.trim()) params.set('reportedBy', filters.reportedBy.trim());
+  // Date inputs are local calendar days; include the whole "to" day
+  if (filters.createdFrom) params.set('createdFrom', new Date(`${filters.createdFrom}T00:00:00`).toISOString());
+  if (filters.createdTo) params.set('createdTo', new Date(`${filters.createdTo}T23:59:59.999`).toISOString());
+  params.set('sort', filters.sort);
+  params.set('order', filters.order);
+  Object.entries(overrides).forEach(([key, value]) => params.set(key, value));
+  return params;
+};
+
+const fetchIssues = async (params: URLSearchParams): Promise<IssueQueryResult> => {
+  const res = await fetch(`/api/issues?${params}`, { credentials: 'include' });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+};
+
+const columns: { field: IssueSortField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'severity', label: 'Severity' },
+  { field: 'productCategory', label: 'Product Category' },
+  { field: 'status', label: 'Status' },
+  { field: 'reportedBy', label: 'Reporter' },
+  { field: 'createdAt', label: 'Created' },
+];
+
+const IssueDashboard: React.FC = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<IssueFilters>(defaultFilters);
+  const [searchInput, setSearchInput] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const { presets, savePreset, deletePreset } = useFilterPresets<IssueFilters>();
+
+  // Debounce free-text search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setFilters(prev => (prev.q === searchInput ? prev : { ...prev, q: searchInput }));
+    }, 300);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof IssueFilters>(key: K, value: IssueFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyFilters = (next: IssueFilters) => {
+    setFilters(next);
+    setSearchInput(next.q);
+  };
+
+  const toggleSort = (field: IssueSortField) => {
+    setFilters(prev => ({
+      ...prev,
+      sort: field,
+      order: prev.sort === field && prev.order === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  const params = useMemo(() => buildParams(filters), [filters]);
+
+  const issuesQuery = useInfiniteQuery({
+    queryKey: ['/api/issues', params.toString()],
+    queryFn: ({ pageParam }) => fetchIssues(
+      buildParams(filters, { limit: String(PAGE_SIZE), ...(pageParam ? { cursor: pageParam } : {}) })
+    ),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  // Live count per severity for the other active filters
+  const severityCounts = useQueries({
+    queries: Object.keys(severityLabels).map((severity) => ({
+      queryKey: [`/api/issues?${buildParams({ ...filters, severity }, { limit: '1' })}`],
+      refetchInterval: REFRESH_INTERVAL,
+    })),
+  });
+
+  const issues = issuesQuery.data?.pages.flatMap(page => page.items) ?? [];
+  const total = issuesQuery.data?.pages[0]?.total ?? 0;
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast({
+        title: "Preset name required",
+        description: "Enter a name for this filter preset.",
+        variant: "destructive"
+      });
+      return;
+    }
+    savePreset(name, filters);
+    setPresetName('');
+    toast({ title: "Preset Saved", description: `Saved filter preset "${name}".` });
+  };
+
+  const renderSortIcon = (field: IssueSortField) => {
+    if (filters.sort !== field) return <ArrowUpDown className="ml-1 h-3 w-3 text-neutral-400" />;
+    return filters.order === 'asc' ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+  };
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <AppHeader description="Review and triage submitted field issues" />
+
+        <main className="space-y-6">
+          {/* Severity counts */}
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {Object.keys(severityLabels).map((severity, index) => {
+              const countQuery = severityCounts[index];
+              const count = (countQuery.data as IssueQueryResult | undefined)?.total;
+              const active = filters.severity === severity;
+              return (
+                <button
+                  key={severity}
+                  type="button"
+                  onClick={() => updateFilter('severity', active ? 'all' : severity)}
+                  className={`bg-white rounded-lg border p-3 text-left transition-colors ${
+                    active ? 'border-[#0052CC] ring-1 ring-[#0052CC]' : 'border-neutral-200 hover:border-neutral-300'
+                  }`}
+                >
+                  <SeverityBadge severity={severity} />
+                  <div className="mt-2 text-2xl font-semibold">
+                    {count ?? <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-3">
+                <Label htmlFor="issue-search">Search</Label>
+                <Input
+                  id="issue-search"
+                  placeholder="Search title, description, actual behavior and reproduction steps"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select value={filters.severity} onValueChange={(value) => updateFilter('severity', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All severities</SelectItem>
+                    {Object.entries(severityLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Product Category</Label>
+                <Select value={filters.productCategory} onValueChange={(value) => updateFilter('productCategory', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All product categories</SelectItem>
+                    {Object.entries(productCategoryLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {Object.entries(issueStatusLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="filter-reporter">Reporter</Label>
+                <Input
+                  id="filter-reporter"
+                  placeholder="Username"
+                  value={filters.reportedBy}
+                  onChange={(e) => updateFilter('reportedBy', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="filter-from">Created From</Label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={filters.createdFrom}
+                  onChange={(e) => updateFilter('createdFrom', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="filter-to">Created To</Label>
+                <Input
+                  id="filter-to"
+                  type="date"
+                  value={filters.createdTo}
+                  onChange={(e) => updateFilter('createdTo', e.target.value)}
+                />
+              </div>
+            </div>
+
+            {/* Saved presets */}
+            <div className="flex flex-wrap items-end gap-3 pt-4 border-t border-neutral-200">
+              <div className="space-y-2">
+                <Label>Saved Presets</Label>
+                <div className="flex flex-wrap gap-2">
+                  {presets.length === 0 && (
+                    <span className="text-sm text-neutral-500">No saved presets</span>
+                  )}
+                  {presets.map((preset) => (
+                    <div key={preset.name} className="flex items-center rounded-md border border-neutral-200">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => applyFilters({ ...defaultFilters, ...preset.filters })}
+                      >
+                        {preset.name}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-neutral-500 hover:text-[#FF5630]"
+                        onClick={() => deletePreset(preset.name)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 ml-auto">
+                <Input
+                  placeholder="Preset name"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  className="w-48"
+                />
+                <Button type="button" variant="outline" onClick={handleSavePreset}>
+                  <Save className="h-4 w-4 mr-1" /> Save Filters
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => applyFilters(defaultFilters)}>
+                  Reset
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Issue table */}
+          <div className="bg-white rounded-lg shadow-sm border border-neutral-200">
+            <div className="flex items-center justify-between p-4 border-b border-neutral-200">
+              <h2 className="text-lg font-medium">Submitted Issues</h2>
+              <span className="text-sm text-neutral-500">{total} matching</span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">ID</TableHead>
+                  {columns.map((column) => (
+                    <TableHead key={column.field}>
+                      <button
+                        type="button"
+                        className="inline-flex items-center font-medium"
+                        onClick={() => toggleSort(column.field)}
+                      >
+                        {column.label}
+                        {renderSortIcon(column.field)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issuesQuery.isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={columns.length + 1} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-neutral-400" />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {issuesQuery.isError && (
+                  <TableRow>
+                    <TableCell colSpan={columns.length + 1} className="text-center py-8 text-[#FF5630]">
+                      Failed to load issues.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!issuesQuery.isLoading && !issuesQuery.isError && issues.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={columns.length + 1} className="text-center py-8 text-neutral-500">
+                      No issues match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {issues.map((issue) => (
+                  <TableRow key={issue.id}>
+                    <TableCell className="text-neutral-500">#{issue.id}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/issues/${issue.id}`} className="text-[#0052CC] hover:underline">
+                        {issue.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell><SeverityBadge severity={issue.severity} /></TableCell>
+                    <TableCell>{labelFor(productCategoryLabels, issue.productCategory)}</TableCell>
+                    <TableCell><StatusBadge status={issue.status} /></TableCell>
+                    <TableCell>{issue.reportedBy}</TableCell>
+                    <TableCell className="text-neutral-500 whitespace-nowrap">
+                      {issue.createdAt ? new Date(issue.createdAt).toLocaleString() : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {issuesQuery.hasNextPage && (
+              <div className="p-4 border-t border-neutral-200 text-center">
+                <Button
+                  variant="outline"
+                  onClick={() => issuesQuery.fetchNextPage()}
+                  disabled={issuesQuery.isFetchingNextPage}
+                >
+                  {issuesQuery.isFetchingNextPage ? 'Loading...' : 'Load More'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default IssueDashboard;
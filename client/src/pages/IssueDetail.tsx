@@ -0,0 +1,230 @@
+import React from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import MediaGallery from '@/components/MediaGallery';
+import CommentThread from '@/components/CommentThread';
+import IssueStatusControl from '@/components/IssueStatusControl';
+import { SeverityBadge, StatusBadge, SyncStatusBadge } from '@/components/IssueBadges';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/hooks/use-auth';
+import type { Issue, Media, StatusHistoryEntry } from '@shared/schema';
+import { frequencyLabels, issueStatusLabels, labelFor, productCategoryLabels, trackerSystemLabels } from '@shared/labels';
+
+interface IssueDetailResponse {
+  issue: Issue;
+  media: Media[];
+  statusHistory: StatusHistoryEntry[];
+}
+
+const Field: React.FC<{ label: string; className?: string; children: React.ReactNode }> = ({ label, className, children }) => (
+  <div className={className}>
+    <div className="text-sm text-neutral-500">{label}</div>
+    <div>{children}</div>
+  </div>
+);
+
+const IssueDetail: React.FC = () => {
+  const [, params] = useRoute('/issues/:id');
+  const issueId = params?.id;
+  const { user } = useAuth();
+  const canTriage = user?.role === 'triager' || user?.role === 'admin';
+
+  // Poll while attachments are still being transcoded or transcribed
+  const { data, isLoading, error } = useQuery<IssueDetailResponse>({
+    queryKey: [`/api/issues/${issueId}`],
+    enabled: !!issueId,
+    refetchInterval: (query) => {
+      const pending = query.state.data?.media.some(
+        item => item.processingStatus === 'pending' || item.transcriptionStatus === 'pending'
+      );
+      return pending ? 5000 : false;
+    },
+  });
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-400" />
+        </div>
+      );
+    }
+
+    if (error || !data) {
+      const message = error?.message.startsWith('403')
+        ? 'You do not have permission to view this issue.'
+        : error?.message.startsWith('404')
+          ? 'This issue could not be found.'
+          : 'Failed to load this issue.';
+      return <p className="py-16 text-center text-[#FF5630]">{message}</p>;
+    }
+
+    const { issue, media, statusHistory } = data;
+    const frequency = issue.frequency === 'custom' && issue.customFrequencyDescription
+      ? `Custom: ${issue.customFrequencyDescription}`
+      : labelFor(frequencyLabels, issue.frequency);
+
+    return (
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="text-neutral-500">#{issue.id}</span>
+              <SeverityBadge severity={issue.severity} />
+              <StatusBadge status={issue.status} />
+            </div>
+            <h2 className="text-xl font-semibold mb-4">{issue.title}</h2>
+
+            {/* Issue Details */}
+            <div className="mb-5 border-b border-neutral-200 pb-4">
+              <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Issue Details</h4>
+              <div className="grid md:grid-cols-2 gap-4">
+                <Field label="Platform"><span className="font-medium">{issue.platform}</span></Field>
+                <Field label="Product Category">
+                  <span className="font-medium">{labelFor(productCategoryLabels, issue.productCategory)}</span>
+                </Field>
+                <Field label="Description" className="md:col-span-2">
+                  <span className="whitespace-pre-line">{issue.description}</span>
+                </Field>
+              </div>
+            </div>
+
+            {/* Reproducibility */}
+            <div className="mb-5 border-b border-neutral-200 pb-4">
+              <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Reproducibility</h4>
+              <div className="space-y-4">
+                <Field label="Frequency"><span className="font-medium">{frequency}</span></Field>
+                <Field label="Reproducible"><span className="font-medium">{issue.reproducible}</span></Field>
+                <Field label="Steps to Reproduce">
+                  <span className="whitespace-pre-line">{issue.reproductionSteps}</span>
+                </Field>
+                {issue.expectedBehavior && (
+                  <Field label="Expected Behavior">
+                    <span className="whitespace-pre-line">{issue.expectedBehavior}</span>
+                  </Field>
+                )}
+                <Field label="Actual Behavior">
+                  <span className="whitespace-pre-line">{issue.actualBehavior}</span>
+                </Field>
+              </div>
+            </div>
+
+            {/* Environment */}
+            <div>
+              <h4 className="text-sm font-semibold text-neutral-500 uppercase mb-2">Environment</h4>
+              <div className="grid md:grid-cols-2 gap-4">
+                <Field label="Hardware Version"><span className="font-medium">{issue.softwareVersion}</span></Field>
+                {issue.osVersion && (
+                  <Field label="CNHOS Version"><span className="font-medium">{issue.osVersion}</span></Field>
+                )}
+                {issue.additionalEnvironment && (
+                  <Field label="Additional Environment Info" className="md:col-span-2">
+                    <span className="whitespace-pre-line">{issue.additionalEnvironment}</span>
+                  </Field>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Attachments */}
+          <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+            <h3 className="text-lg font-medium mb-4">Attachments</h3>
+            <MediaGallery media={media} />
+          </div>
+
+          {/* Comments */}
+          <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+            <h3 className="text-lg font-medium mb-4">Comments</h3>
+            <CommentThread issueId={issue.id} />
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="p-5 space-y-4">
+              <h3 className="text-lg font-medium">Tracker Ticket</h3>
+              <Field label="Ticket ID">
+                {issue.externalTicket?.url ? (
+                  <a href={issue.externalTicket.url} target="_blank" rel="noreferrer" className="font-medium text-[#0052CC] hover:underline">
+                    {issue.externalTicket.key}
+                  </a>
+                ) : (
+                  <span className="font-medium">{issue.externalTicket?.key ?? 'Not created yet'}</span>
+                )}
+              </Field>
+              {issue.externalTicket && (
+                <Field label="Tracker">
+                  <span className="font-medium">{labelFor(trackerSystemLabels, issue.externalTicket.system)}</span>
+                </Field>
+              )}
+              <Field label="Sync Status">
+                <SyncStatusBadge syncStatus={issue.syncStatus} />
+              </Field>
+              <Field label="Reported By"><span className="font-medium">{issue.reportedBy}</span></Field>
+              <Field label="Created">
+                {issue.createdAt ? new Date(issue.createdAt).toLocaleString() : '—'}
+              </Field>
+            </CardContent>
+          </Card>
+
+          {canTriage && (
+            <Card>
+              <CardContent className="p-5 space-y-4">
+                <h3 className="text-lg font-medium">Change Status</h3>
+                <IssueStatusControl issue={issue} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="p-5 space-y-4">
+              <h3 className="text-lg font-medium">Status History</h3>
+              {statusHistory.length === 0 ? (
+                <p className="text-sm text-neutral-500">No status changes recorded.</p>
+              ) : (
+                <ol className="border-l border-neutral-200 space-y-4">
+                  {statusHistory.map(entry => (
+                    <li key={entry.id} className="ml-4">
+                      <div className="flex flex-wrap items-center gap-1 text-sm">
+                        {entry.fromStatus && (
+                          <>
+                            <span>{labelFor(issueStatusLabels, entry.fromStatus)}</span>
+                            <span className="text-neutral-400">&rarr;</span>
+                          </>
+                        )}
+                        <StatusBadge status={entry.toStatus} />
+                      </div>
+                      <div className="text-xs text-neutral-500 mt-1">
+                        {entry.changedByName}
+                        {entry.createdAt && ` · ${new Date(entry.createdAt).toLocaleString()}`}
+                      </div>
+                      {entry.note && <p className="text-sm mt-1 whitespace-pre-line">{entry.note}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <AppHeader />
+        <main>
+          <Link to="/issues" className="inline-flex items-center text-sm text-[#0052CC] hover:underline mb-4">
+            <ArrowLeft className="h-4 w-4 mr-1" /> Back to issues
+          </Link>
+          {renderBody()}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default IssueDetail;
@@ -0,0 +1,160 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Redirect } from 'wouter';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+import { registerUserSchema } from '@shared/schema';
+
+const loginSchema = z.object({
+  username: z.string().min(1, { message: 'Username is required' }),
+  password: z.string().min(1, { message: 'Password is required' }),
+});
+
+type LoginValues = z.infer<typeof loginSchema>;
+type RegisterValues = z.input<typeof registerUserSchema>;
+
+const Login: React.FC = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  const registerForm = useForm<RegisterValues>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: '', password: '', email: '' },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const loginErrors = loginForm.formState.errors;
+  const registerErrors = registerForm.formState.errors;
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen flex items-center justify-center">
+      <div className="w-full max-w-md p-4 md:p-6">
+        <header className="mb-6 text-center">
+          <h1 className="text-2xl md:text-3xl font-bold">CNH FIRST</h1>
+          <p className="text-neutral-500 mt-1 font-semibold">Field Issue Reporting Service Tool</p>
+        </header>
+
+        <Card>
+          <CardContent className="p-6">
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login">Sign In</TabsTrigger>
+                <TabsTrigger value="register">Create Account</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <form
+                  className="space-y-4"
+                  onSubmit={loginForm.handleSubmit((values) => loginMutation.mutate(values))}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="login-username">Username</Label>
+                    <Input
+                      id="login-username"
+                      autoComplete="username"
+                      {...loginForm.register('username')}
+                      className={loginErrors.username ? "border-[#FF5630]" : ""}
+                    />
+                    {loginErrors.username && (
+                      <p className="text-sm text-[#FF5630]">{loginErrors.username.message}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      {...loginForm.register('password')}
+                      className={loginErrors.password ? "border-[#FF5630]" : ""}
+                    />
+                    {loginErrors.password && (
+                      <p className="text-sm text-[#FF5630]">{loginErrors.password.message}</p>
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-[#0052CC] hover:bg-[#0747A6]"
+                    disabled={loginMutation.isPending}
+                  >
+                    {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <form
+                  className="space-y-4"
+                  onSubmit={registerForm.handleSubmit((values) => registerMutation.mutate({ ...values, email: values.email ?? undefined }))}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="register-username">Username</Label>
+                    <Input
+                      id="register-username"
+                      autoComplete="username"
+                      {...registerForm.register('username')}
+                      className={registerErrors.username ? "border-[#FF5630]" : ""}
+                    />
+                    {registerErrors.username && (
+                      <p className="text-sm text-[#FF5630]">{registerErrors.username.message}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-email">Email (optional)</Label>
+                    <Input
+                      id="register-email"
+                      type="email"
+                      autoComplete="email"
+                      {...registerForm.register('email')}
+                      className={registerErrors.email ? "border-[#FF5630]" : ""}
+                    />
+                    {registerErrors.email ? (
+                      <p className="text-sm text-[#FF5630]">{registerErrors.email.message}</p>
+                    ) : (
+                      <p className="text-sm text-neutral-500">Used for ticket confirmations and updates on your reports.</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-password">Password</Label>
+                    <Input
+                      id="register-password"
+                      type="password"
+                      autoComplete="new-password"
+                      {...registerForm.register('password')}
+                      className={registerErrors.password ? "border-[#FF5630]" : ""}
+                    />
+                    {registerErrors.password && (
+                      <p className="text-sm text-[#FF5630]">{registerErrors.password.message}</p>
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-[#0052CC] hover:bg-[#0747A6]"
+                    disabled={registerMutation.isPending}
+                  >
+                    {registerMutation.isPending ? 'Creating account...' : 'Create Account'}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
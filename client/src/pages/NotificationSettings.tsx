@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth, type PublicUser } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, describeError, queryClient } from '@/lib/queryClient';
+import { defaultNotificationPreferences, type NotificationPreferences } from '@shared/schema';
+
+const preferenceOptions: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  {
+    key: 'issueSubmitted',
+    label: 'Report submitted',
+    description: 'A confirmation with the ticket ID when your report reaches the tracker. Triagers also hear about new reports.',
+  },
+  {
+    key: 'statusChanged',
+    label: 'Status changes',
+    description: 'When the status of an issue you reported changes.',
+  },
+  {
+    key: 'commentAdded',
+    label: 'New comments',
+    description: 'When someone comments on an issue you reported or commented on.',
+  },
+];
+
+const NotificationSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [preferences, setPreferences] = useState<NotificationPreferences>(defaultNotificationPreferences);
+
+  useEffect(() => {
+    if (!user) return;
+    setEmail(user.email ?? '');
+    setPreferences(user.notificationPreferences);
+  }, [user]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', '/api/me', { email: email.trim(), notificationPreferences: preferences });
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/me'], updated);
+      toast({ title: 'Settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not save settings',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <AppHeader description="Choose which emails you receive" />
+        <main className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+          <form
+            className="max-w-xl space-y-6"
+            onSubmit={(event) => {
+              event.preventDefault();
+              save.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="settings-email">Email address</Label>
+              <Input
+                id="settings-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                placeholder="you@example.com"
+              />
+              <p className="text-sm text-neutral-500">Leave empty to stop all notification emails.</p>
+            </div>
+
+            <div className="space-y-4">
+              {preferenceOptions.map((option) => (
+                <div key={option.key} className="flex items-start justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`settings-${option.key}`}>{option.label}</Label>
+                    <p className="text-sm text-neutral-500">{option.description}</p>
+                  </div>
+                  <Switch
+                    id={`settings-${option.key}`}
+                    checked={preferences[option.key]}
+                    disabled={!email.trim()}
+                    onCheckedChange={(checked) => setPreferences((current) => ({ ...current, [option.key]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Button type="submit" className="bg-[#0052CC] hover:bg-[#0747A6]" disabled={save.isPending}>
+              {save.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Settings
+            </Button>
+          </form>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { CloudOff, Loader2, RefreshCw, Trash2, Wifi } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { queryClient } from '@/lib/queryClient';
+import {
+  listSubmissions,
+  onQueueUpdated,
+  removeSubmission,
+  requestQueueFlush,
+  retrySubmission,
+  type QueuedSubmission,
+} from '@/lib/offlineQueue';
+import type { Issue } from '@shared/schema';
+
+const statusStyles: Record<QueuedSubmission['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for connection', className: 'bg-[#DEEBFF] text-[#0747A6]' },
+  sent: { label: 'Submitted', className: 'bg-[#E3FCEF] text-[#006644]' },
+  failed: { label: 'Rejected', className: 'bg-[#FFEBE6] text-[#BF2600]' },
+};
+
+// Ticket ID of a delivered submission; the tracker may assign it a little later
+const SubmittedTicket: React.FC<{ submission: QueuedSubmission }> = ({ submission }) => {
+  const { data } = useQuery<{ issue: Issue }>({
+    queryKey: [`/api/issues/${submission.issueId}`],
+    enabled: submission.issueId !== null && !submission.ticketId,
+    refetchInterval: (query) => {
+      const syncStatus = query.state.data?.issue.syncStatus;
+      return syncStatus === 'queued' || syncStatus === null ? 5000 : false;
+    },
+  });
+
+  const ticketId = submission.ticketId || data?.issue.externalTicket?.key;
+
+  return (
+    <span className="text-sm">
+      {ticketId ? <>Ticket <strong>#{ticketId}</strong></> : 'Ticket pending'}
+      {submission.issueId !== null && (
+        <Link to={`/issues/${submission.issueId}`} className="ml-2 text-[#0052CC] hover:underline">
+          View report
+        </Link>
+      )}
+    </span>
+  );
+};
+
+const PendingSubmissions: React.FC = () => {
+  const { user } = useAuth();
+  const [online, setOnline] = useState(navigator.onLine);
+  const queueKey = ['offline-queue', user?.id];
+
+  const { data: submissions = [], isLoading } = useQuery({
+    queryKey: queueKey,
+    queryFn: () => listSubmissions(user!.id),
+    enabled: !!user,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queueKey });
+
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const unsubscribe = onQueueUpdated(refresh);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  const handleRetry = async (id: number) => {
+    await retrySubmission(id);
+    refresh();
+  };
+
+  const handleRemove = async (id: number) => {
+    await removeSubmission(id);
+    refresh();
+  };
+
+  const hasPending = submissions.some(submission => submission.status === 'pending');
+
+  return (
+    <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <AppHeader description="Reports captured without connectivity are sent automatically once you are back online" />
+        <main className="bg-white rounded-lg shadow-sm border border-neutral-200 p-5 md:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-sm">
+              {online ? (
+                <><Wifi className="h-4 w-4 text-[#36B37E]" /> Online</>
+              ) : (
+                <><CloudOff className="h-4 w-4 text-[#FF5630]" /> Offline</>
+              )}
+            </div>
+            {hasPending && (
+              <Button variant="outline" size="sm" disabled={!online} onClick={() => requestQueueFlush()}>
+                <RefreshCw className="h-4 w-4 mr-1" /> Send now
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            </div>
+          ) : submissions.length === 0 ? (
+            <p className="py-8 text-center text-neutral-500">No reports are waiting to be sent from this device.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-200">
+              {submissions.map(submission => {
+                const status = statusStyles[submission.status];
+                return (
+                  <li key={submission.id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{submission.title || 'Untitled report'}</div>
+                      <div className="text-xs text-neutral-500">
+                        Captured {new Date(submission.createdAt).toLocaleString()}
+                        {submission.attempts > 0 && ` · ${submission.attempts} attempt${submission.attempts === 1 ? '' : 's'}`}
+                      </div>
+                      {submission.status === 'failed' && submission.lastError && (
+                        <div className="text-xs text-[#FF5630] mt-1">{submission.lastError}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline" className={`border-transparent ${status.className}`}>{status.label}</Badge>
+                      {submission.status === 'sent' && <SubmittedTicket submission={submission} />}
+                      {submission.status === 'failed' && (
+                        <Button variant="outline" size="sm" onClick={() => handleRetry(submission.id)}>Retry</Button>
+                      )}
+                      {submission.status !== 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-neutral-500 hover:text-[#FF5630]"
+                          onClick={() => handleRemove(submission.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default PendingSubmissions;
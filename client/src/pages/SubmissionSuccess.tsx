@@ -1,12 +1,33 @@
 import React from 'react';
 import { useLocation, useRoute, Link } from "wouter";
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { CheckCircle } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import type { Issue, Media } from '@shared/schema';
+import { labelFor, trackerSystemLabels } from '@shared/labels';
+import { useAuth } from '@/hooks/use-auth';
 
 const SubmissionSuccess: React.FC = () => {
   const [, params] = useRoute("/success/:ticketId");
-  const ticketId = params?.ticketId || 'Unknown';
+  const [, queuedParams] = useRoute("/submitted/:issueId");
+  const issueId = queuedParams?.issueId;
+  const { user } = useAuth();
+  const emailsConfirmation = !!user?.email && user.notificationPreferences.issueSubmitted;
+  
+  // While the ticket is queued, poll the issue until the tracker assigns an ID
+  const { data } = useQuery<{ issue: Issue; media: Media[] }>({
+    queryKey: [`/api/issues/${issueId}`],
+    enabled: !!issueId,
+    refetchInterval: (query) => {
+      const syncStatus = query.state.data?.issue.syncStatus;
+      return syncStatus === 'queued' || syncStatus === null ? 3000 : false;
+    },
+  });
+  
+  const ticketId = params?.ticketId || data?.issue.externalTicket?.key || null;
+  const tracker = data?.issue.externalTicket ? labelFor(trackerSystemLabels, data.issue.externalTicket.system) : null;
+  const syncFailed = data?.issue.syncStatus === 'sync_failed';
 
   return (
     <div className="font-sans text-[#172B4D] bg-[#FAFBFC] min-h-screen flex items-center justify-center">
@@ -19,9 +40,19 @@ const SubmissionSuccess: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-2xl font-semibold mb-4">Issue report submitted successfully!</h1>
-                <p className="mb-6">
-                  Your Jira ticket <strong>#{ticketId}</strong> has been created. You'll receive a confirmation email shortly.
-                </p>
+                {ticketId ? (
+                  <p className="mb-6">
+                    Your {tracker ? `${tracker} ` : ''}ticket <strong>#{ticketId}</strong> has been created.{emailsConfirmation && ` You'll receive a confirmation email at ${user!.email} shortly.`}
+                  </p>
+                ) : syncFailed ? (
+                  <p className="mb-6">
+                    Your report <strong>#{issueId}</strong> was saved, but we could not create the tracker ticket yet. Our team has been notified and will retry.
+                  </p>
+                ) : (
+                  <p className="mb-6">
+                    Your report <strong>#{issueId}</strong> has been saved and is queued for ticket creation in the issue tracker. The ticket ID will appear here shortly.
+                  </p>
+                )}
                 <div className="space-y-4">
                   <p className="text-sm text-gray-600">
                     Your issue has been documented and sent to our technical team. They will analyze the information provided
@@ -30,12 +61,17 @@ const SubmissionSuccess: React.FC = () => {
                   <p className="text-sm text-gray-600">
                     You can track the progress of your issue by referencing the ticket number in any follow-up communications.
                   </p>
-                  <div className="pt-4">
+                  <div className="pt-4 flex gap-3">
                     <Link to="/">
                       <Button className="bg-[#36B37E] hover:bg-[#2b9069]">
                         Create Another Report
                       </Button>
                     </Link>
+                    {issueId && (
+                      <Link to={`/issues/${issueId}`}>
+                        <Button variant="outline">View Report</Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,77 @@
+import { productCategoryLabels, severityLabels } from "@shared/labels";
+import type { ChatChannel, ChatRoute, ChatTarget } from "./types";
+import { SlackChannel } from "./slack";
+import { TeamsChannel } from "./teams";
+
+export * from "./types";
+export * from "./messages";
+export { SlackChannel } from "./slack";
+export { TeamsChannel } from "./teams";
+
+export interface ChatRateLimit {
+  maxMessages: number;
+  windowMs: number;
+}
+
+function createChannel(format: string, url: string): ChatChannel {
+  switch (format) {
+    case "slack":
+      return new SlackChannel(url);
+    case "teams":
+      return new TeamsChannel(url);
+    default:
+      throw new Error(`Unknown chat webhook format: ${format}`);
+  }
+}
+
+function parseRouteValues(entry: string, values: string, known: Record<string, string>): string[] {
+  const list = values.split(",").map((value) => value.trim()).filter(Boolean);
+  for (const value of list) {
+    if (!(value in known)) {
+      throw new Error(`Invalid chat webhook "${entry}": unknown value "${value}"`);
+    }
+  }
+  return list;
+}
+
+// Parse "slack https://hooks.slack.com/... severity=blocker,critical;
+// teams https://... category=pegasus" into chat targets. Each entry is a
+// format, a URL and optional severity= and category= filters.
+export function parseChatWebhooks(value: string | undefined): ChatTarget[] {
+  const targets: ChatTarget[] = [];
+  for (const entry of (value ?? "").split(";")) {
+    const [format, url, ...filters] = entry.trim().split(/\s+/);
+    if (!format) continue;
+    if (!url || !URL.canParse(url)) {
+      throw new Error(`Invalid chat webhook "${entry.trim()}", expected format url [severity=...] [category=...]`);
+    }
+
+    const route: ChatRoute = { severities: null, productCategories: null };
+    for (const filter of filters) {
+      const [key, values = ""] = filter.split("=");
+      if (key === "severity") {
+        route.severities = parseRouteValues(entry.trim(), values, severityLabels);
+      } else if (key === "category") {
+        route.productCategories = parseRouteValues(entry.trim(), values, productCategoryLabels);
+      } else {
+        throw new Error(`Invalid chat webhook "${entry.trim()}": unknown filter "${key}"`);
+      }
+    }
+
+    targets.push({ channel: createChannel(format, url), route });
+  }
+  return targets;
+}
+
+// CHAT_WEBHOOKS lists the channels (see parseChatWebhooks). Each channel gets
+// at most CHAT_RATE_LIMIT messages per CHAT_RATE_WINDOW_SECONDS.
+export function createChatTargets(env: NodeJS.ProcessEnv = process.env): ChatTarget[] {
+  return parseChatWebhooks(env.CHAT_WEBHOOKS);
+}
+
+export function createChatRateLimit(env: NodeJS.ProcessEnv = process.env): ChatRateLimit {
+  return {
+    maxMessages: env.CHAT_RATE_LIMIT ? parseInt(env.CHAT_RATE_LIMIT, 10) : 5,
+    windowMs: (env.CHAT_RATE_WINDOW_SECONDS ? parseInt(env.CHAT_RATE_WINDOW_SECONDS, 10) : 60) * 1000,
+  };
+}
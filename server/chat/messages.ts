@@ -0,0 +1,108 @@
+import type { Issue, Media } from "@shared/schema";
+import { labelFor, productCategoryLabels, severityLabels, trackerSystemLabels } from "@shared/labels";
+import type { ChatLink, ChatMessage } from "./types";
+
+const urgentSeverities = ["blocker", "critical"];
+
+// Base URL of this application, for links back to the report
+export interface ChatMessageOptions {
+  appBaseUrl?: string;
+}
+
+function appUrl(options: ChatMessageOptions, path: string): string | null {
+  return options.appBaseUrl ? `${options.appBaseUrl.replace(/\/+$/, "")}${path}` : null;
+}
+
+// What a channel is told about a report: that it was filed, or, in a
+// follow-up, which ticket the tracker created for it
+export interface ChatReport {
+  kind: "filed" | "ticket";
+  issue: Issue;
+  media: Media[];
+}
+
+export function reportMessage(report: ChatReport, options: ChatMessageOptions): ChatMessage {
+  return report.kind === "filed"
+    ? issueFiledMessage(report.issue, report.media, options)
+    : ticketCreatedMessage(report.issue, options);
+}
+
+// A newly filed report. Links to the photo and report need APP_BASE_URL and
+// open after signing in. The ticket usually follows separately, unless it was
+// created while the report was held back by the rate limit.
+export function issueFiledMessage(issue: Issue, media: Media[], options: ChatMessageOptions): ChatMessage {
+  const severity = labelFor(severityLabels, issue.severity);
+  const ticket = issue.externalTicket;
+  const links: ChatLink[] = [];
+
+  if (ticket?.url) {
+    links.push({ label: `Open ${ticket.key}`, url: ticket.url });
+  }
+  const reportUrl = appUrl(options, `/issues/${issue.id}`);
+  if (reportUrl) {
+    links.push({ label: "View report", url: reportUrl });
+  }
+  const photo = media.find((item) => item.type === "photo");
+  const photoUrl = photo && appUrl(options, `/api/media/${photo.id}?size=thumb`);
+  if (photoUrl) {
+    links.push({ label: "First photo", url: photoUrl });
+  }
+
+  return {
+    title: `${severity}: ${issue.title}`,
+    summary: `New ${severity.toLowerCase()} report: ${issue.title}`,
+    urgent: urgentSeverities.includes(issue.severity),
+    fields: [
+      { label: "Severity", value: severity },
+      { label: "Product", value: labelFor(productCategoryLabels, issue.productCategory) },
+      { label: "Reporter", value: issue.reportedBy },
+      ...(ticket ? [{ label: "Ticket", value: `${labelFor(trackerSystemLabels, ticket.system)} ${ticket.key}` }] : []),
+    ],
+    items: [],
+    links,
+  };
+}
+
+// Follow-up once the tracker ticket of an announced report exists
+export function ticketCreatedMessage(issue: Issue, options: ChatMessageOptions): ChatMessage {
+  const ticket = issue.externalTicket;
+  const ticketName = ticket ? `${labelFor(trackerSystemLabels, ticket.system)} ${ticket.key}` : "Ticket";
+  const links: ChatLink[] = [];
+
+  if (ticket?.url) {
+    links.push({ label: `Open ${ticket.key}`, url: ticket.url });
+  }
+  const reportUrl = appUrl(options, `/issues/${issue.id}`);
+  if (reportUrl) {
+    links.push({ label: "View report", url: reportUrl });
+  }
+
+  return {
+    title: `${ticketName} created for ${issue.title}`,
+    summary: `${ticketName} created for ${issue.title}`,
+    urgent: false,
+    fields: [],
+    items: [],
+    links,
+  };
+}
+
+// Reports held back by the rate limit, posted together once it allows. A
+// report whose ticket was created while it was held is listed once, with it.
+export function digestMessage(reports: ChatReport[], options: ChatMessageOptions): ChatMessage {
+  const title = `${reports.length} more report updates`;
+  return {
+    title,
+    summary: title,
+    urgent: reports.some((report) => report.kind === "filed" && urgentSeverities.includes(report.issue.severity)),
+    fields: [],
+    items: reports.map(({ kind, issue }) => {
+      const ticket = issue.externalTicket;
+      const text = kind === "filed"
+        ? `New ${labelFor(severityLabels, issue.severity).toLowerCase()}: ${issue.title} (${labelFor(productCategoryLabels, issue.productCategory)}${ticket ? `, ${ticket.key}` : ""})`
+        : `${ticket?.key ?? "Ticket"} created for ${issue.title}`;
+      return { text, url: ticket?.url ?? appUrl(options, `/issues/${issue.id}`) };
+    }),
+    links: [],
+  };
+}
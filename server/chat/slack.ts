@@ -0,0 +1,56 @@
+import { postJson, type ChatChannel, type ChatMessage } from "./types";
+
+// Slack mrkdwn treats these as control characters
+function escapeMrkdwn(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function link(url: string, text: string): string {
+  return `<${url}|${escapeMrkdwn(text)}>`;
+}
+
+// Posts Block Kit messages to a Slack incoming webhook. Mattermost and
+// Rocket.Chat accept the same payload.
+export class SlackChannel implements ChatChannel {
+  readonly format = "slack";
+
+  constructor(private url: string, private timeoutMs = 10_000) {}
+
+  async post(message: ChatMessage): Promise<void> {
+    await postJson(this.url, this.payload(message), this.timeoutMs);
+  }
+
+  payload(message: ChatMessage) {
+    const blocks: Record<string, unknown>[] = [
+      { type: "section", text: { type: "mrkdwn", text: `*${escapeMrkdwn(message.title)}*` } },
+    ];
+
+    if (message.fields.length > 0) {
+      blocks.push({
+        type: "section",
+        fields: message.fields.map((field) => ({
+          type: "mrkdwn",
+          text: `*${escapeMrkdwn(field.label)}*\n${escapeMrkdwn(field.value)}`,
+        })),
+      });
+    }
+
+    if (message.items.length > 0) {
+      const lines = message.items.map((item) => `• ${item.url ? link(item.url, item.text) : escapeMrkdwn(item.text)}`);
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: lines.join("\n") } });
+    }
+
+    if (message.links.length > 0) {
+      blocks.push({
+        type: "context",
+        elements: [{ type: "mrkdwn", text: message.links.map((item) => link(item.url, item.label)).join("  |  ") }],
+      });
+    }
+
+    // Blocks inside an attachment get the coloured severity bar
+    return {
+      text: escapeMrkdwn(message.summary),
+      attachments: [{ color: message.urgent ? "#DE350B" : "#0052CC", blocks }],
+    };
+  }
+}
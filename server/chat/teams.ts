@@ -0,0 +1,53 @@
+import { postJson, type ChatChannel, type ChatMessage } from "./types";
+
+// Posts Adaptive Cards to a Microsoft Teams incoming webhook or Workflows
+// ("Post to a channel when a webhook request is received") URL
+export class TeamsChannel implements ChatChannel {
+  readonly format = "teams";
+
+  constructor(private url: string, private timeoutMs = 10_000) {}
+
+  async post(message: ChatMessage): Promise<void> {
+    await postJson(this.url, this.payload(message), this.timeoutMs);
+  }
+
+  payload(message: ChatMessage) {
+    const body: Record<string, unknown>[] = [
+      {
+        type: "TextBlock",
+        text: message.title,
+        weight: "Bolder",
+        size: "Medium",
+        wrap: true,
+        color: message.urgent ? "Attention" : "Default",
+      },
+    ];
+
+    if (message.fields.length > 0) {
+      body.push({
+        type: "FactSet",
+        facts: message.fields.map((field) => ({ title: field.label, value: field.value })),
+      });
+    }
+
+    if (message.items.length > 0) {
+      const lines = message.items.map((item) => `- ${item.url ? `[${item.text}](${item.url})` : item.text}`);
+      body.push({ type: "TextBlock", text: lines.join("\n"), wrap: true });
+    }
+
+    return {
+      type: "message",
+      summary: message.summary,
+      attachments: [{
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: message.links.map((item) => ({ type: "Action.OpenUrl", title: item.label, url: item.url })),
+        },
+      }],
+    };
+  }
+}
@@ -0,0 +1,59 @@
+export interface ChatLink {
+  label: string;
+  url: string;
+}
+
+// One entry of a list message, such as a digest of held reports
+export interface ChatListItem {
+  text: string;
+  url: string | null;
+}
+
+// Format-neutral message, rendered by each channel for its service
+export interface ChatMessage {
+  title: string;
+  // Plain text shown in notifications and by clients that cannot render cards
+  summary: string;
+  // Highlighted as needing attention, e.g. blocker and critical reports
+  urgent: boolean;
+  fields: { label: string; value: string }[];
+  items: ChatListItem[];
+  links: ChatLink[];
+}
+
+// An incoming-webhook URL of a chat service
+export interface ChatChannel {
+  readonly format: string;
+  post(message: ChatMessage): Promise<void>;
+}
+
+// Which reports a channel receives; null accepts every value
+export interface ChatRoute {
+  severities: string[] | null;
+  productCategories: string[] | null;
+}
+
+export interface ChatTarget {
+  channel: ChatChannel;
+  route: ChatRoute;
+}
+
+// Raised when the chat service answers with a non-2xx status
+export class ChatWebhookError extends Error {
+  constructor(public status: number, body: string) {
+    super(`Chat webhook responded with status ${status}: ${body.slice(0, 500)}`);
+    this.name = "ChatWebhookError";
+  }
+}
+
+export async function postJson(url: string, body: unknown, timeoutMs: number): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new ChatWebhookError(response.status, await response.text());
+  }
+}
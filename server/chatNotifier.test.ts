@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Issue } from "@shared/schema";
+import type { ChatChannel, ChatMessage, ChatRoute } from "./chat";
+import { ChatNotifier } from "./chatNotifier";
+import { issueFixture } from "./trackers/testing";
+
+class RecordingChannel implements ChatChannel {
+  readonly format = "recording";
+  posted: ChatMessage[] = [];
+
+  async post(message: ChatMessage): Promise<void> {
+    this.posted.push(message);
+  }
+
+  get titles(): string[] {
+    return this.posted.map((message) => message.title);
+  }
+}
+
+const everything: ChatRoute = { severities: null, productCategories: null };
+const rateLimit = { maxMessages: 2, windowMs: 60_000 };
+const appBaseUrl = "https://first.example.com";
+
+function report(id: number, overrides: Partial<Issue> = {}): Issue {
+  return issueFixture({ id, title: `Report ${id}`, externalTicket: null, ...overrides });
+}
+
+function withTicket(issue: Issue, key: string): Issue {
+  return { ...issue, externalTicket: { system: "jira", key, url: `https://jira.example.com/browse/${key}` } };
+}
+
+describe("ChatNotifier", () => {
+  let channel: RecordingChannel;
+
+  // One channel taking every report
+  function notifier() {
+    return new ChatNotifier([{ channel, route: everything }], rateLimit, appBaseUrl);
+  }
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date", "setTimeout"], now: new Date("2024-05-01T10:00:00Z") });
+    channel = new RecordingChannel();
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it("posts only to channels whose route matches the report", () => {
+    const critical = new RecordingChannel();
+    const pegasus = new RecordingChannel();
+    const chat = new ChatNotifier([
+      { channel: critical, route: { severities: ["blocker", "critical"], productCategories: null } },
+      { channel: pegasus, route: { severities: null, productCategories: ["pegasus"] } },
+    ], rateLimit);
+
+    chat.issueFiled(report(1, { severity: "critical", productCategory: "pegasus" }), []);
+    chat.issueFiled(report(2, { severity: "minor", productCategory: "pegasus" }), []);
+    chat.issueFiled(report(3, { severity: "blocker", productCategory: "mercury" }), []);
+
+    assert.deepEqual(critical.titles, ["Critical: Report 1", "Blocker: Report 3"]);
+    assert.deepEqual(pegasus.titles, ["Critical: Report 1", "Minor: Report 2"]);
+  });
+
+  it("holds reports past maxMessages and posts them as one digest when the window allows", () => {
+    const chat = notifier();
+
+    for (let id = 1; id <= 5; id++) {
+      chat.issueFiled(report(id), []);
+      mock.timers.tick(1_000);
+    }
+    assert.deepEqual(channel.titles, ["Critical: Report 1", "Critical: Report 2"]);
+
+    // The first message leaves the window 60 seconds after it was posted
+    mock.timers.tick(60_000 - 5_000 - 1);
+    assert.equal(channel.posted.length, 2);
+    mock.timers.tick(1);
+
+    const digest = channel.posted[2];
+    assert.equal(digest.title, "3 more report updates");
+    assert.equal(digest.urgent, true);
+    assert.deepEqual(digest.items, [3, 4, 5].map((id) => ({
+      text: `New critical: Report ${id} (Pegasus)`,
+      url: `https://first.example.com/issues/${id}`,
+    })));
+  });
+
+  it("counts the window per channel", () => {
+    const other = new RecordingChannel();
+    const chat = new ChatNotifier([
+      { channel, route: everything },
+      { channel: other, route: { severities: ["minor"], productCategories: null } },
+    ], rateLimit);
+
+    chat.issueFiled(report(1), []);
+    chat.issueFiled(report(2), []);
+    chat.issueFiled(report(3), []);
+    chat.issueFiled(report(4, { severity: "minor" }), []);
+
+    assert.equal(channel.posted.length, 2);
+    assert.deepEqual(other.titles, ["Minor: Report 4"]);
+  });
+
+  it("follows up with the ticket once it exists", () => {
+    const chat = notifier();
+    const issue = report(1);
+
+    chat.issueFiled(issue, []);
+    chat.ticketCreated(withTicket(issue, "FIRST-12"));
+
+    const followUp = channel.posted[1];
+    assert.equal(followUp.title, "Jira FIRST-12 created for Report 1");
+    assert.equal(followUp.urgent, false);
+    assert.deepEqual(followUp.links, [
+      { label: "Open FIRST-12", url: "https://jira.example.com/browse/FIRST-12" },
+      { label: "View report", url: "https://first.example.com/issues/1" },
+    ]);
+  });
+
+  it("announces a held report together with its ticket instead of following up", () => {
+    const chat = notifier();
+    chat.issueFiled(report(1), []);
+    chat.issueFiled(report(2), []);
+    const held = report(3, { severity: "minor" });
+    chat.issueFiled(held, []);
+    chat.issueFiled(report(4, { severity: "minor" }), []);
+
+    chat.ticketCreated(withTicket(held, "FIRST-13"));
+    mock.timers.tick(60_000);
+
+    assert.equal(channel.posted.length, 3);
+    const digest = channel.posted[2];
+    assert.equal(digest.urgent, false);
+    assert.deepEqual(digest.items, [
+      { text: "New minor: Report 3 (Pegasus, FIRST-13)", url: "https://jira.example.com/browse/FIRST-13" },
+      { text: "New minor: Report 4 (Pegasus)", url: "https://first.example.com/issues/4" },
+    ]);
+  });
+
+  it("holds ticket follow-ups under the same limit", () => {
+    const chat = notifier();
+    const first = report(1);
+    const second = report(2);
+    chat.issueFiled(first, []);
+    chat.issueFiled(second, []);
+
+    chat.ticketCreated(withTicket(first, "FIRST-12"));
+    chat.ticketCreated(withTicket(second, "FIRST-13"));
+    assert.equal(channel.posted.length, 2);
+
+    mock.timers.tick(60_000);
+    assert.deepEqual(channel.posted[2].items.map((item) => item.text), [
+      "FIRST-12 created for Report 1",
+      "FIRST-13 created for Report 2",
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Issue, Media } from "@shared/schema";
+import {
+  createChatRateLimit,
+  createChatTargets,
+  digestMessage,
+  reportMessage,
+  type ChatMessage,
+  type ChatRateLimit,
+  type ChatReport,
+  type ChatTarget,
+} from "./chat";
+import { log } from "./vite";
+
+// Rate limit state of one channel
+interface ChannelWindow {
+  // When each message of the current window was posted
+  sentAt: number[];
+  // Reports and ticket follow-ups waiting for the window to reopen
+  held: ChatReport[];
+  timer: NodeJS.Timeout | null;
+}
+
+// Posts new reports to team chat channels whose route matches their
+// severity and product category, and follows up with the tracker ticket once
+// it exists. Each channel gets at most rateLimit.maxMessages per window;
+// anything beyond that is held and posted as a single digest when the window
+// allows, so a burst cannot flood it. Posting runs in the background and
+// failures are only logged.
+export class ChatNotifier {
+  private windows = new Map<ChatTarget, ChannelWindow>();
+
+  constructor(
+    private targets: ChatTarget[],
+    private rateLimit: ChatRateLimit,
+    private appBaseUrl?: string,
+  ) {}
+
+  issueFiled(issue: Issue, media: Media[]) {
+    for (const target of this.targets) {
+      if (this.matches(target, issue)) {
+        this.enqueue(target, { kind: "filed", issue, media });
+      }
+    }
+  }
+
+  // A report still held back is announced together with its ticket instead
+  ticketCreated(issue: Issue) {
+    for (const target of this.targets) {
+      if (!this.matches(target, issue)) continue;
+
+      const held = this.windows.get(target)?.held.find((report) => report.issue.id === issue.id);
+      if (held) {
+        held.issue = issue;
+      } else {
+        this.enqueue(target, { kind: "ticket", issue, media: [] });
+      }
+    }
+  }
+
+  private matches(target: ChatTarget, issue: Issue): boolean {
+    const { severities, productCategories } = target.route;
+    return (!severities || severities.includes(issue.severity))
+      && (!productCategories || productCategories.includes(issue.productCategory));
+  }
+
+  private enqueue(target: ChatTarget, report: ChatReport) {
+    const window = this.windowFor(target);
+    window.held.push(report);
+    this.flush(target, window);
+  }
+
+  private flush(target: ChatTarget, window: ChannelWindow) {
+    const now = Date.now();
+    window.sentAt = window.sentAt.filter((time) => now - time < this.rateLimit.windowMs);
+
+    if (window.sentAt.length >= this.rateLimit.maxMessages) {
+      if (!window.timer) {
+        const delay = window.sentAt[0] + this.rateLimit.windowMs - now;
+        window.timer = setTimeout(() => {
+          window.timer = null;
+          this.flush(target, window);
+        }, delay);
+      }
+      return;
+    }
+
+    const held = window.held.splice(0);
+    if (held.length === 0) return;
+
+    window.sentAt.push(now);
+    const options = { appBaseUrl: this.appBaseUrl };
+    const message = held.length === 1 ? reportMessage(held[0], options) : digestMessage(held, options);
+    this.post(target, message);
+  }
+
+  private windowFor(target: ChatTarget): ChannelWindow {
+    let window = this.windows.get(target);
+    if (!window) {
+      window = { sentAt: [], held: [], timer: null };
+      this.windows.set(target, window);
+    }
+    return window;
+  }
+
+  private post(target: ChatTarget, message: ChatMessage) {
+    target.channel.post(message).catch((error) => {
+      const reason = error instanceof Error ? error.message : String(error);
+      log(`posting "${message.title}" to ${target.channel.format} failed: ${reason}`, "chat");
+    });
+  }
+}
+
+export const chatNotifier = new ChatNotifier(createChatTargets(), createChatRateLimit(), process.env.APP_BASE_URL);
@@ -0,0 +1,71 @@
+import type { ExternalTicket, Issue, IssueComment, Media } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { trackerRouter, type IssueTrackerAdapter, type TrackerRouter } from "./trackers";
+import { log } from "./vite";
+
+// Mirrors issue comments onto the linked tracker ticket when its tracker
+// supports it. Sync runs in the background and failures are only logged,
+// so the comment itself is never rejected because the tracker is down.
+export class CommentSync {
+  constructor(
+    private storage: IStorage,
+    private trackers: TrackerRouter,
+    private enabled: boolean,
+  ) {}
+
+  commentCreated(issue: Issue, comment: IssueComment, attachments: Media[]) {
+    const ticket = issue.externalTicket;
+    const tracker = this.trackerFor(ticket);
+    if (!ticket || !tracker?.addComment) return;
+
+    // The pending marker lets the tracker's webhook recognise the comment
+    // as our own if it arrives before the tracker comment ID is stored
+    this.run(comment, async () => {
+      await this.storage.updateComment(comment.id, { trackerSyncPending: true });
+      try {
+        const trackerComment = await tracker.addComment!(ticket.key, comment, attachments);
+        await this.storage.updateComment(comment.id, { trackerCommentId: trackerComment.id, trackerSyncPending: false });
+      } catch (error) {
+        await this.storage.updateComment(comment.id, { trackerSyncPending: false });
+        throw error;
+      }
+    });
+  }
+
+  commentUpdated(issue: Issue, comment: IssueComment) {
+    const ticket = issue.externalTicket;
+    const tracker = this.trackerFor(ticket);
+    const trackerCommentId = comment.trackerCommentId;
+    if (!ticket || !trackerCommentId || !tracker?.updateComment) return;
+
+    this.run(comment, () => tracker.updateComment!(ticket.key, trackerCommentId, comment));
+  }
+
+  commentDeleted(issue: Issue, comment: IssueComment) {
+    const ticket = issue.externalTicket;
+    const tracker = this.trackerFor(ticket);
+    const trackerCommentId = comment.trackerCommentId;
+    if (!ticket || !trackerCommentId || !tracker?.deleteComment) return;
+
+    this.run(comment, () => tracker.deleteComment!(ticket.key, trackerCommentId));
+  }
+
+  // Comments go to the tracker holding the ticket
+  private trackerFor(ticket: ExternalTicket | null): IssueTrackerAdapter | undefined {
+    if (!this.enabled || !ticket) return undefined;
+    return this.trackers.forSystem(ticket.system);
+  }
+
+  private run(comment: IssueComment, task: () => Promise<void>) {
+    task().catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`syncing comment ${comment.id} of issue ${comment.issueId} failed: ${message}`, "comments");
+    });
+  }
+}
+
+export const commentSync = new CommentSync(
+  storage,
+  trackerRouter,
+  process.env.TRACKER_SYNC_COMMENTS === "true",
+);
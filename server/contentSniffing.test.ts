@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkUploadType, sniffMimeType, type UploadTypeCheck } from "./contentSniffing";
+
+// Leading bytes of a file: strings are taken byte for byte, padded with zeros
+// so container brands past the signature can be read
+function head(...parts: (string | number[])[]): Buffer {
+  const bytes = Buffer.concat(parts.map((part) => typeof part === "string" ? Buffer.from(part, "latin1") : Buffer.from(part)));
+  return Buffer.concat([bytes, Buffer.alloc(Math.max(0, 16 - bytes.length))]);
+}
+
+const ebml = [0x1a, 0x45, 0xdf, 0xa3];
+const files = {
+  jpeg: head([0xff, 0xd8, 0xff, 0xe0], "JFIF"),
+  png: head([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  gif: head("GIF89a"),
+  webp: head("RIFF\x24\0\0\0WEBPVP8 "),
+  wav: head("RIFF\x24\0\0\0WAVEfmt "),
+  mp4: head("\0\0\0\x20ftypisom"),
+  m4a: head("\0\0\0\x20ftypM4A "),
+  mov: head("\0\0\0\x14ftypqt  "),
+  oldMov: head("\0\0\0\x08wide"),
+  heic: head("\0\0\0\x18ftypheic"),
+  webm: head(ebml, "\x9f\x42\x82\x84webm"),
+  mkv: head(ebml, "\x9f\x42\x82\x88matroska"),
+  id3: head("ID3\x04\0"),
+  mpegFrame: head([0xff, 0xfb, 0x90, 0x64]),
+  ogg: head("OggS\0\x02"),
+  flac: head("fLaC"),
+  pdf: head("%PDF-1.7\n"),
+  zip: head("PK\x03\x04\x14\0"),
+  gzip: head([0x1f, 0x8b, 0x08]),
+  exe: head("MZ\x90\0"),
+  elf: head("\x7fELF\x02\x01"),
+  utf16: Buffer.from("\ufeffScanner log", "utf16le"),
+  text: Buffer.from("2024-05-01 10:00:00 scanner started\n"),
+  csv: Buffer.from("time,event\n10:00,started\n"),
+  html: Buffer.from("  <!DOCTYPE html><html><script>alert(1)</script>"),
+  svg: Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>'),
+  xml: Buffer.from('<?xml version="1.0"?><log/>'),
+  binary: head([0x00, 0x01, 0x02, 0x03]),
+};
+
+describe("sniffMimeType", () => {
+  const cases: [keyof typeof files, string | null][] = [
+    ["jpeg", "image/jpeg"],
+    ["png", "image/png"],
+    ["gif", "image/gif"],
+    ["webp", "image/webp"],
+    ["wav", "audio/wav"],
+    ["mp4", "video/mp4"],
+    ["m4a", "audio/mp4"],
+    ["mov", "video/quicktime"],
+    ["oldMov", "video/quicktime"],
+    ["heic", "image/heic"],
+    ["webm", "video/webm"],
+    ["mkv", "video/x-matroska"],
+    ["id3", "audio/mpeg"],
+    ["mpegFrame", "audio/mpeg"],
+    ["ogg", "audio/ogg"],
+    ["flac", "audio/flac"],
+    ["pdf", "application/pdf"],
+    ["zip", "application/zip"],
+    ["gzip", "application/gzip"],
+    ["exe", "application/x-msdownload"],
+    ["elf", "application/x-executable"],
+    ["utf16", "text/plain"],
+    ["text", "text/plain"],
+    ["csv", "text/plain"],
+    ["html", "text/html"],
+    ["svg", "image/svg+xml"],
+    ["xml", "application/xml"],
+    ["binary", null],
+  ];
+
+  for (const [file, expected] of cases) {
+    it(`identifies ${file} as ${expected}`, () => {
+      assert.equal(sniffMimeType(files[file]), expected);
+    });
+  }
+});
+
+describe("checkUploadType", () => {
+  const cases: { name: string; head: Buffer; filename: string; declared: string; expected: UploadTypeCheck }[] = [
+    { name: "a matching photo", head: files.png, filename: "screen.png", declared: "image/png", expected: { mimeType: "image/png" } },
+    { name: "a photo under the wrong image type", head: files.jpeg, filename: "screen.png", declared: "image/png", expected: { mimeType: "image/jpeg" } },
+    { name: "a WebM recording declared as audio", head: files.webm, filename: "voice-note.webm", declared: "audio/webm;codecs=opus", expected: { mimeType: "audio/webm" } },
+    { name: "a WebM recording declared as video", head: files.webm, filename: "capture.webm", declared: "video/webm", expected: { mimeType: "video/webm" } },
+    { name: "an MP4 recording declared as audio", head: files.mp4, filename: "voice-note.m4a", declared: "audio/mp4", expected: { mimeType: "audio/mp4" } },
+    { name: "an M4A file", head: files.m4a, filename: "memo.m4a", declared: "audio/x-m4a", expected: { mimeType: "audio/mp4" } },
+    { name: "text declared as CSV", head: files.csv, filename: "events.csv", declared: "text/csv", expected: { mimeType: "text/csv" } },
+    { name: "a log with no reported type", head: files.text, filename: "scanner.log", declared: "", expected: { mimeType: "text/plain" } },
+    {
+      name: "an executable named as a photo",
+      head: files.exe,
+      filename: "screen.png",
+      declared: "image/png",
+      expected: { reason: "The file contains application/x-msdownload data, which is not an allowed type." },
+    },
+    {
+      name: "a page named as a text file",
+      head: files.html,
+      filename: "notes.txt",
+      declared: "text/plain",
+      expected: { reason: "The file contains text/html data, which is not an allowed type." },
+    },
+    {
+      name: "a video named as audio",
+      head: files.mp4,
+      filename: "voice-note.mp3",
+      declared: "audio/mpeg",
+      expected: { reason: "The file is named as a MP3 audio but contains a MP4 video." },
+    },
+    {
+      name: "a PDF named as a photo",
+      head: files.pdf,
+      filename: "screen.jpg",
+      declared: "image/jpeg",
+      expected: { reason: "The file is named as a JPEG image but contains a PDF document." },
+    },
+    {
+      name: "unrecognised binary data",
+      head: files.binary,
+      filename: "capture.mp4",
+      declared: "video/mp4",
+      expected: { reason: "The file contents are not a valid MP4 video." },
+    },
+    { name: "an empty file", head: Buffer.alloc(0), filename: "screen.png", declared: "image/png", expected: { reason: "The file is empty." } },
+  ];
+
+  for (const testCase of cases) {
+    it(`checks ${testCase.name}`, () => {
+      assert.deepEqual(checkUploadType(testCase.head, testCase.filename, testCase.declared), testCase.expected);
+    });
+  }
+
+  it("rejects a declared type that is not allowed before reading the contents", () => {
+    const result = checkUploadType(files.png, "screen.bmp", "image/bmp");
+
+    assert.ok("reason" in result);
+    assert.match(result.reason, /^This file type is not allowed\./);
+  });
+});
@@ -0,0 +1,120 @@
+import fs from "fs";
+import { declaredUploadType, uploadRejectionReason, uploadTypeForMime } from "@shared/uploadTypes";
+
+// Enough for every signature below, including the EBML doc type of WebM
+export const sniffLength = 4100;
+
+function startsWith(head: Buffer, signature: string | number[], offset = 0): boolean {
+  const bytes = typeof signature === "string" ? Buffer.from(signature, "latin1") : Buffer.from(signature);
+  return head.length >= offset + bytes.length && head.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+// Bytes that never appear in text files (WHATWG MIME Sniffing, "binary data byte")
+function isBinaryByte(byte: number): boolean {
+  return byte <= 0x08 || byte === 0x0b || (byte >= 0x0e && byte <= 0x1a) || (byte >= 0x1c && byte <= 0x1f);
+}
+
+// Markup would run as a page or script if it were ever rendered inline
+function sniffMarkup(head: Buffer): string | null {
+  const start = head.subarray(0, 512).toString("latin1").trimStart().toLowerCase();
+  if (start.startsWith("<!doctype html") || start.startsWith("<html") || start.startsWith("<script")) return "text/html";
+  if (start.startsWith("<svg")) return "image/svg+xml";
+  if (start.startsWith("<?xml")) return start.includes("<svg") ? "image/svg+xml" : "application/xml";
+  return null;
+}
+
+// Identify a file by its leading bytes. Returns null for binary content that
+// matches no known signature. Formats we do not accept are still recognised
+// so rejections can say what the file actually is.
+export function sniffMimeType(head: Buffer): string | null {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(head, "GIF87a") || startsWith(head, "GIF89a")) return "image/gif";
+  if (startsWith(head, "II*\0") || startsWith(head, "MM\0*")) return "image/tiff";
+  if (startsWith(head, "RIFF")) {
+    if (startsWith(head, "WEBP", 8)) return "image/webp";
+    if (startsWith(head, "WAVE", 8)) return "audio/wav";
+    if (startsWith(head, "AVI ", 8)) return "video/x-msvideo";
+  }
+
+  if (startsWith(head, "ftyp", 4)) {
+    const brand = head.subarray(8, 12).toString("latin1");
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+    return "video/mp4";
+  }
+  // Older QuickTime files start straight with an atom
+  if (["moov", "mdat", "wide", "free", "skip"].some((atom) => startsWith(head, atom, 4))) return "video/quicktime";
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return head.includes("webm", 0, "latin1") ? "video/webm" : "video/x-matroska";
+  }
+
+  // UTF-16 text has zero bytes, so it is recognised by its byte order
+  // mark, which would otherwise pass for an MPEG frame sync
+  if (startsWith(head, [0xfe, 0xff]) || startsWith(head, [0xff, 0xfe])) return "text/plain";
+  if (startsWith(head, "ID3")) return "audio/mpeg";
+  // MPEG audio frame sync: 11 set bits, then a valid version and layer
+  if (head.length >= 2 && head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x18) !== 0x08 && (head[1] & 0x06) !== 0) {
+    return "audio/mpeg";
+  }
+  if (startsWith(head, "OggS")) return "audio/ogg";
+  if (startsWith(head, "fLaC")) return "audio/flac";
+
+  if (startsWith(head, "%PDF-")) return "application/pdf";
+  if (startsWith(head, "PK\x03\x04") || startsWith(head, "PK\x05\x06")) return "application/zip";
+  if (startsWith(head, [0x1f, 0x8b])) return "application/gzip";
+  if (startsWith(head, "Rar!\x1a\x07")) return "application/vnd.rar";
+  if (startsWith(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return "application/x-7z-compressed";
+  if (startsWith(head, "MZ")) return "application/x-msdownload";
+  if (startsWith(head, "\x7fELF")) return "application/x-executable";
+
+  if (head.some(isBinaryByte)) return null;
+  return sniffMarkup(head) ?? "text/plain";
+}
+
+export async function readFileHead(filePath: string): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(sniffLength);
+    const { bytesRead } = await handle.read(buffer, 0, sniffLength, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export type UploadTypeCheck = { mimeType: string } | { reason: string };
+
+// Decide the type an upload is stored and served as from its leading bytes.
+// The declared type only settles what a signature cannot: WebM and MP4 audio
+// versus video, and CSV versus plain text.
+export function checkUploadType(head: Buffer, filename: string, declaredMimeType: string): UploadTypeCheck {
+  const declared = declaredUploadType(filename, declaredMimeType);
+  if (!declared) {
+    return { reason: uploadRejectionReason(filename, declaredMimeType)! };
+  }
+  if (head.length === 0) {
+    return { reason: "The file is empty." };
+  }
+
+  const sniffed = sniffMimeType(head);
+  if (!sniffed) {
+    return { reason: `The file contents are not a valid ${declared.label}.` };
+  }
+
+  let detected = uploadTypeForMime(sniffed);
+  if (!detected) {
+    return { reason: `The file contains ${sniffed} data, which is not an allowed type.` };
+  }
+  if ((detected.mimeType === "video/webm" && declared.mimeType === "audio/webm") ||
+      (detected.mimeType === "video/mp4" && declared.mimeType === "audio/mp4") ||
+      (detected.mimeType === "text/plain" && declared.mimeType === "text/csv")) {
+    detected = declared;
+  }
+
+  if (detected.kind !== declared.kind) {
+    return { reason: `The file is named as a ${declared.label} but contains a ${detected.label}.` };
+  }
+  return { mimeType: detected.mimeType };
+}
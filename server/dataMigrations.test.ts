@@ -0,0 +1,93 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { migrateJiraTicketIds, migrateSyncStatuses } from "./dataMigrations";
+
+describe("migrateJiraTicketIds", () => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  // The issues table as it was before external_ticket replaced jira_ticket_id
+  beforeEach(async () => {
+    await client.exec(`
+      DROP TABLE IF EXISTS issues;
+      CREATE TABLE issues (id serial PRIMARY KEY, title text NOT NULL, jira_ticket_id text);
+      INSERT INTO issues (title, jira_ticket_id) VALUES ('Filed', 'SCAN-1'), ('Not filed yet', NULL);
+    `);
+  });
+
+  after(() => client.close());
+
+  const tickets = async () =>
+    (await client.query<{ title: string; external_ticket: unknown }>("SELECT title, external_ticket FROM issues ORDER BY id")).rows;
+
+  it("copies Jira ticket IDs into external_ticket", async () => {
+    assert.equal(await migrateJiraTicketIds(db, "https://jira.example.com/"), 1);
+
+    assert.deepEqual(await tickets(), [
+      { title: "Filed", external_ticket: { system: "jira", key: "SCAN-1", url: "https://jira.example.com/browse/SCAN-1" } },
+      { title: "Not filed yet", external_ticket: null },
+    ]);
+  });
+
+  it("leaves the URL empty without a Jira base URL", async () => {
+    await migrateJiraTicketIds(db);
+
+    assert.deepEqual((await tickets())[0].external_ticket, { system: "jira", key: "SCAN-1", url: null });
+  });
+
+  it("does nothing when run again or after the column is gone", async () => {
+    await migrateJiraTicketIds(db, "https://jira.example.com");
+    assert.equal(await migrateJiraTicketIds(db, "https://jira.example.com"), 0);
+
+    await client.exec("ALTER TABLE issues DROP COLUMN jira_ticket_id");
+    assert.equal(await migrateJiraTicketIds(db, "https://jira.example.com"), 0);
+  });
+});
+
+describe("migrateSyncStatuses", () => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  // Issues from before sync_status, when the outbox wrote its progress to status
+  beforeEach(async () => {
+    await client.exec(`
+      DROP TABLE IF EXISTS issues;
+      CREATE TABLE issues (id serial PRIMARY KEY, title text NOT NULL, status text DEFAULT 'submitted');
+      INSERT INTO issues (title, status) VALUES
+        ('Queued', 'queued'), ('Filed', 'processed'), ('Failed', 'sync_failed'), ('Triaged', 'triaged'), ('Untouched', NULL);
+    `);
+  });
+
+  after(() => client.close());
+
+  const statuses = async () =>
+    (await client.query<{ title: string; status: string | null; sync_status: string | null }>(
+      "SELECT title, status, sync_status FROM issues ORDER BY id",
+    )).rows;
+
+  it("moves sync states to sync_status and restarts those issues as submitted", async () => {
+    assert.equal(await migrateSyncStatuses(db), 3);
+
+    assert.deepEqual(await statuses(), [
+      { title: "Queued", status: "submitted", sync_status: "queued" },
+      { title: "Filed", status: "submitted", sync_status: "processed" },
+      { title: "Failed", status: "submitted", sync_status: "sync_failed" },
+      { title: "Triaged", status: "triaged", sync_status: null },
+      { title: "Untouched", status: null, sync_status: null },
+    ]);
+  });
+
+  it("keeps a sync_status recorded since and does nothing when run again", async () => {
+    await client.exec(`
+      ALTER TABLE issues ADD COLUMN sync_status text;
+      UPDATE issues SET sync_status = 'processed' WHERE title = 'Queued';
+    `);
+
+    assert.equal(await migrateSyncStatuses(db), 3);
+    assert.deepEqual((await statuses())[0], { title: "Queued", status: "submitted", sync_status: "processed" });
+    assert.equal(await migrateSyncStatuses(db), 0);
+  });
+});
@@ -0,0 +1,69 @@
+import { sql } from "drizzle-orm";
+import { syncStatuses } from "@shared/workflow";
+import type { Database } from "./db";
+
+// Data that a schema change would otherwise lose is carried over here before
+// `drizzle-kit push` applies the change (npm runs this as predb:push). Every
+// migration checks for the old shape first, so running them again is harmless.
+
+async function columnExists(db: Database, table: string, column: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+// issues.jira_ticket_id became issues.external_ticket when trackers other
+// than Jira were added. Returns the number of issues carried over.
+export async function migrateJiraTicketIds(db: Database, jiraBaseUrl?: string): Promise<number> {
+  if (!(await columnExists(db, "issues", "jira_ticket_id"))) return 0;
+
+  await db.execute(sql`ALTER TABLE issues ADD COLUMN IF NOT EXISTS external_ticket jsonb`);
+  const browseUrl = jiraBaseUrl ? `${jiraBaseUrl.replace(/\/+$/, "")}/browse/` : null;
+  const result = await db.execute(sql`
+    UPDATE issues
+    SET external_ticket = jsonb_build_object(
+      'system', 'jira',
+      'key', jira_ticket_id,
+      'url', ${browseUrl}::text || jira_ticket_id
+    )
+    WHERE jira_ticket_id IS NOT NULL AND external_ticket IS NULL
+    RETURNING id
+  `);
+  return result.rows.length;
+}
+
+// Tracker delivery progress (queued, processed, sync_failed) used to be
+// written to issues.status. It moved to issues.sync_status when the triage
+// workflow took over status, and those issues restart the workflow as
+// submitted. A sync_status recorded since then is kept. Returns the number of
+// issues moved.
+export async function migrateSyncStatuses(db: Database): Promise<number> {
+  if (!(await columnExists(db, "issues", "status"))) return 0;
+
+  await db.execute(sql`ALTER TABLE issues ADD COLUMN IF NOT EXISTS sync_status text`);
+  const result = await db.execute(sql`
+    UPDATE issues
+    SET sync_status = coalesce(sync_status, status), status = 'submitted'
+    WHERE status IN (${sql.join(syncStatuses.map((status) => sql`${status}`), sql`, `)})
+    RETURNING id
+  `);
+  return result.rows.length;
+}
+
+export async function runDataMigrations(db: Database, env: NodeJS.ProcessEnv = process.env): Promise<string[]> {
+  const applied: string[] = [];
+
+  const tickets = await migrateJiraTicketIds(db, env.JIRA_BASE_URL);
+  if (tickets > 0) {
+    applied.push(`copied ${tickets} Jira ticket IDs into issues.external_ticket`);
+  }
+
+  const syncStates = await migrateSyncStatuses(db);
+  if (syncStates > 0) {
+    applied.push(`moved the tracker sync state of ${syncStates} issues from status to sync_status`);
+  }
+
+  return applied;
+}
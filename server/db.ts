@@ -0,0 +1,23 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Results of any driver that returns rows: node-postgres here, PGlite in tests
+interface RowsQueryResult<TRow> {
+  rows: TRow[];
+}
+
+export interface RowsQueryResultHKT extends PgQueryResultHKT {
+  type: RowsQueryResult<this["row"]>;
+}
+
+export type Database = PgDatabase<RowsQueryResultHKT, typeof schema>;
+
+// Create a drizzle client backed by a node-postgres connection pool.
+// Works against any reachable Postgres, including a local instance.
+export function createDb(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
@@ -1,8 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { outboxWorker } from "./outbox";
+import { stagedUploads } from "./stagedUploads";
+import { videoTranscoder } from "./videoTranscoder";
+import { transcriber } from "./transcriber";
+import { webhookDispatcher } from "./webhookDispatcher";
+import { ensureAdminAccount } from "./auth";
 
 const app = express();
+// Webhook signatures cover the exact bytes sent, so those bodies stay raw
+app.use("/api/webhooks", express.raw({ type: "*/*", limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -37,6 +45,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await ensureAdminAccount();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -66,5 +75,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    outboxWorker.start();
+    stagedUploads.start();
+    videoTranscoder.start();
+    transcriber.start();
+    webhookDispatcher.start();
   });
 })();
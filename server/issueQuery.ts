@@ -0,0 +1,100 @@
+import type { Issue, IssueQuery, IssueSortField } from "@shared/schema";
+
+// Shared semantics for IStorage.queryIssues so every backend filters,
+// sorts and paginates identically.
+
+// Higher rank = more severe, so descending order lists blockers first
+export const severityRanks: Record<string, number> = {
+  trivial: 1,
+  minor: 2,
+  major: 3,
+  critical: 4,
+  blocker: 5,
+};
+
+export type SortValue = string | number;
+
+export interface IssueCursor {
+  value: SortValue;
+  id: number;
+}
+
+// Columns matched by the free-text search
+export const searchableFields = ["title", "description", "actualBehavior", "reproductionSteps"] as const;
+
+// Each whitespace-separated term must appear (case-insensitively) in at
+// least one searchable field
+export function searchTerms(q: string | undefined): string[] {
+  return q ? q.toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+export function sortValue(issue: Issue, sort: IssueSortField): SortValue {
+  switch (sort) {
+    case "createdAt":
+      return issue.createdAt ? issue.createdAt.getTime() : 0;
+    case "severity":
+      return severityRanks[issue.severity] ?? 0;
+    default:
+      return issue[sort] ?? "";
+  }
+}
+
+export function encodeCursor(cursor: IssueCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): IssueCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if ((typeof value === "string" || typeof value === "number") && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+export class InvalidCursorError extends Error {
+  status = 400;
+
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function matchesIssueQuery(issue: Issue, query: IssueQuery): boolean {
+  if (query.severity?.length && !query.severity.includes(issue.severity)) return false;
+  if (query.productCategory?.length && !query.productCategory.includes(issue.productCategory)) return false;
+  if (query.platform?.length && !query.platform.includes(issue.platform)) return false;
+  if (query.status?.length && !query.status.includes(issue.status ?? "")) return false;
+  if (query.reportedBy && issue.reportedBy !== query.reportedBy) return false;
+  if (query.reporterId !== undefined && issue.reporterId !== query.reporterId) return false;
+
+  const createdAt = issue.createdAt?.getTime() ?? 0;
+  if (query.createdFrom && createdAt < query.createdFrom.getTime()) return false;
+  if (query.createdTo && createdAt > query.createdTo.getTime()) return false;
+
+  return searchTerms(query.q).every((term) =>
+    searchableFields.some((field) => (issue[field] ?? "").toLowerCase().includes(term)),
+  );
+}
+
+// Plain code-point comparison, matching Postgres' "C" collation
+function compareValues(a: SortValue, b: SortValue): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareIssues(a: Issue, b: Issue, query: IssueQuery): number {
+  const direction = query.order === "asc" ? 1 : -1;
+  const byValue = compareValues(sortValue(a, query.sort), sortValue(b, query.sort));
+  return direction * (byValue !== 0 ? byValue : a.id - b.id);
+}
+
+// True when the issue sorts strictly after the cursor position
+export function isAfterCursor(issue: Issue, cursor: IssueCursor, query: IssueQuery): boolean {
+  const direction = query.order === "asc" ? 1 : -1;
+  const byValue = compareValues(sortValue(issue, query.sort), cursor.value);
+  return direction * (byValue !== 0 ? byValue : issue.id - cursor.id) > 0;
+}
@@ -0,0 +1,131 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { streamFile } from "./mediaStreaming";
+
+const contents = "0123456789abcdefghij";
+// Sub-second part, since HTTP dates only carry seconds
+const modifiedAt = new Date("2024-05-01T10:00:00.500Z");
+const lastModified = "Wed, 01 May 2024 10:00:00 GMT";
+const earlier = "Wed, 01 May 2024 09:59:59 GMT";
+
+interface Validators {
+  etag: string;
+}
+
+interface Case {
+  name: string;
+  method?: "GET" | "HEAD";
+  headers: (validators: Validators) => Record<string, string>;
+  status: number;
+  body?: string;
+  contentRange?: string;
+  // Defaults to the length of the body
+  contentLength?: number;
+}
+
+const cases: Case[] = [
+  { name: "whole file without a range", headers: () => ({}), status: 200, body: contents },
+  { name: "closed range", headers: () => ({ Range: "bytes=0-4" }), status: 206, body: "01234", contentRange: "bytes 0-4/20" },
+  { name: "open-ended range", headers: () => ({ Range: "bytes=15-" }), status: 206, body: "fghij", contentRange: "bytes 15-19/20" },
+  { name: "suffix range", headers: () => ({ Range: "bytes=-3" }), status: 206, body: "hij", contentRange: "bytes 17-19/20" },
+  { name: "range past the end, clamped", headers: () => ({ Range: "bytes=10-100" }), status: 206, body: "abcdefghij", contentRange: "bytes 10-19/20" },
+  { name: "suffix longer than the file", headers: () => ({ Range: "bytes=-50" }), status: 206, body: contents, contentRange: "bytes 0-19/20" },
+  { name: "range starting at the end", headers: () => ({ Range: "bytes=20-" }), status: 416, body: "", contentRange: "bytes */20" },
+  { name: "range ending before it starts", headers: () => ({ Range: "bytes=5-2" }), status: 416, body: "", contentRange: "bytes */20" },
+  { name: "empty suffix range", headers: () => ({ Range: "bytes=-0" }), status: 416, body: "", contentRange: "bytes */20" },
+  { name: "multiple ranges, answered whole", headers: () => ({ Range: "bytes=0-1,4-5" }), status: 200, body: contents },
+  { name: "other range unit, answered whole", headers: () => ({ Range: "items=0-4" }), status: 200, body: contents },
+  { name: "If-None-Match with the ETag", headers: ({ etag }) => ({ "If-None-Match": etag }), status: 304, body: "" },
+  { name: "If-None-Match with the weak ETag", headers: ({ etag }) => ({ "If-None-Match": `"other", W/${etag}` }), status: 304, body: "" },
+  { name: "If-None-Match *", headers: () => ({ "If-None-Match": "*" }), status: 304, body: "" },
+  { name: "If-None-Match with another ETag", headers: () => ({ "If-None-Match": '"other"' }), status: 200, body: contents },
+  { name: "If-Modified-Since the modification time", headers: () => ({ "If-Modified-Since": lastModified }), status: 304, body: "" },
+  { name: "If-Modified-Since an earlier time", headers: () => ({ "If-Modified-Since": earlier }), status: 200, body: contents },
+  {
+    name: "If-None-Match taking precedence over If-Modified-Since",
+    headers: () => ({ "If-None-Match": '"other"', "If-Modified-Since": lastModified }),
+    status: 200,
+    body: contents,
+  },
+  { name: "If-Range with the ETag", headers: ({ etag }) => ({ Range: "bytes=0-4", "If-Range": etag }), status: 206, body: "01234", contentRange: "bytes 0-4/20" },
+  { name: "If-Range with another ETag", headers: () => ({ Range: "bytes=0-4", "If-Range": '"other"' }), status: 200, body: contents },
+  { name: "If-Range with a weak ETag", headers: ({ etag }) => ({ Range: "bytes=0-4", "If-Range": `W/${etag}` }), status: 200, body: contents },
+  { name: "If-Range with the modification time", headers: () => ({ Range: "bytes=0-4", "If-Range": lastModified }), status: 206, body: "01234", contentRange: "bytes 0-4/20" },
+  { name: "If-Range with an earlier time", headers: () => ({ Range: "bytes=0-4", "If-Range": earlier }), status: 200, body: contents },
+  { name: "HEAD of a range", method: "HEAD", headers: () => ({ Range: "bytes=0-4" }), status: 206, body: "", contentRange: "bytes 0-4/20", contentLength: 5 },
+];
+
+describe("streamFile", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "media-streaming-test-"));
+  const filePath = path.join(dir, "device.log");
+  let server: Server;
+  let baseUrl: string;
+  let validators: Validators;
+
+  before(async () => {
+    fs.writeFileSync(filePath, contents);
+    fs.utimesSync(filePath, modifiedAt, modifiedAt);
+
+    const app = express();
+    app.get("/file", (req, res) => streamFile(req, res, {
+      filePath,
+      mimeType: "text/plain",
+      filename: "Gerät log.txt",
+      disposition: "attachment",
+    }));
+    app.get("/missing", (req, res) => streamFile(req, res, {
+      filePath: path.join(dir, "missing.log"),
+      mimeType: "text/plain",
+      filename: "missing.log",
+      disposition: "inline",
+    }));
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    validators = { etag: (await fetch(`${baseUrl}/file`)).headers.get("ETag")! };
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  for (const testCase of cases) {
+    it(`answers ${testCase.status} to ${testCase.name}`, async () => {
+      const response = await fetch(`${baseUrl}/file`, { method: testCase.method ?? "GET", headers: testCase.headers(validators) });
+
+      assert.equal(response.status, testCase.status);
+      assert.equal(await response.text(), testCase.body);
+      assert.equal(response.headers.get("Content-Range"), testCase.contentRange ?? null);
+      assert.equal(response.headers.get("ETag"), validators.etag);
+      assert.equal(response.headers.get("Last-Modified"), lastModified);
+      if (testCase.status === 206) {
+        assert.equal(response.headers.get("Content-Length"), String(testCase.contentLength ?? testCase.body!.length));
+      }
+    });
+  }
+
+  it("describes the file for the browser", async () => {
+    const response = await fetch(`${baseUrl}/file`);
+
+    assert.equal(response.headers.get("Content-Type"), "text/plain; charset=utf-8");
+    assert.equal(response.headers.get("Content-Disposition"), `attachment; filename="Ger_t log.txt"; filename*=UTF-8''Ger%C3%A4t%20log.txt`);
+    assert.equal(response.headers.get("X-Content-Type-Options"), "nosniff");
+    assert.equal(response.headers.get("Accept-Ranges"), "bytes");
+    assert.equal(response.headers.get("Cache-Control"), "private, max-age=3600");
+  });
+
+  it("answers 404 for a file that is gone", async () => {
+    const response = await fetch(`${baseUrl}/missing`);
+
+    assert.equal(response.status, 404);
+  });
+});
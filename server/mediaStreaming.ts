@@ -0,0 +1,136 @@
+import type { Request, Response } from "express";
+import fs from "fs";
+
+export interface StreamedFile {
+  filePath: string;
+  mimeType: string;
+  // Name offered to the browser when saving the file
+  filename: string;
+  disposition: "inline" | "attachment";
+}
+
+type ByteRange = { start: number; end: number };
+
+// Media is only served to signed-in users, so shared caches must not keep it
+const cacheControl = "private, max-age=3600";
+
+// Stored files are never rewritten in place, so size and mtime identify them
+function etagFor(stats: fs.Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+// RFC 6266 header with an ASCII fallback and the UTF-8 name for modern browsers
+function contentDisposition(disposition: StreamedFile["disposition"], filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.get("If-None-Match");
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(",").some((tag) => {
+      const trimmed = tag.trim();
+      return trimmed === "*" || trimmed.replace(/^W\//, "") === etag.replace(/^W\//, "");
+    });
+  }
+
+  const ifModifiedSince = Date.parse(req.get("If-Modified-Since") ?? "");
+  // HTTP dates have second precision
+  return !isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+// A Range is only honoured when If-Range still matches the current file
+function rangeApplies(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  // Weak validators never match for If-Range
+  if (ifRange.startsWith("W/")) return false;
+  if (ifRange.startsWith('"')) return ifRange === etag;
+  return Date.parse(ifRange) >= Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+// Parse a single "bytes=" range. Returns null when the header is absent or
+// unusable (served as a full response), "unsatisfiable" for a 416.
+function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  // Multiple ranges or other units: answering with the whole file is allowed
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+// Serve a file with byte-range support for seeking in audio and video,
+// validators for conditional requests and an explicit content type
+export async function streamFile(req: Request, res: Response, file: StreamedFile): Promise<void> {
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(file.filePath);
+  } catch {
+    res.status(404).json({ error: "File not found" });
+    return;
+  }
+
+  const etag = etagFor(stats);
+  const lastModified = stats.mtime;
+
+  res.set({
+    "Accept-Ranges": "bytes",
+    "Cache-Control": cacheControl,
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+  });
+
+  if (isNotModified(req, etag, lastModified)) {
+    res.status(304).end();
+    return;
+  }
+
+  res.set({
+    "Content-Type": file.mimeType,
+    "Content-Disposition": contentDisposition(file.disposition, file.filename),
+    // Uploaded files are never sniffed into something more dangerous
+    "X-Content-Type-Options": "nosniff",
+  });
+
+  const range = rangeApplies(req, etag, lastModified) ? parseRange(req.get("Range"), stats.size) : null;
+  if (range === "unsatisfiable") {
+    res.status(416).set("Content-Range", `bytes */${stats.size}`).end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: stats.size - 1 };
+  if (range) {
+    res.status(206).set("Content-Range", `bytes ${start}-${end}/${stats.size}`);
+  }
+  res.set("Content-Length", String(Math.max(end - start + 1, 0)));
+
+  if (req.method === "HEAD" || stats.size === 0) {
+    res.end();
+    return;
+  }
+
+  const stream = fs.createReadStream(file.filePath, { start, end });
+  stream.on("error", (error) => {
+    console.error("Error streaming file:", error);
+    res.destroy(error);
+  });
+  // Stop reading when the player seeks away and drops the connection
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import type { Media, MediaVariant } from "@shared/schema";
+import { variantDir } from "./uploads";
+
+type ImageVariant = Extract<MediaVariant, "thumb" | "preview">;
+
+// Longest edge and JPEG quality of each generated size
+const variantOptions: Record<ImageVariant, { maxEdge: number; quality: number }> = {
+  thumb: { maxEdge: 320, quality: 70 },
+  preview: { maxEdge: 1280, quality: 80 },
+};
+
+export interface ImageVariantPaths {
+  thumbnailPath: string | null;
+  previewPath: string | null;
+}
+
+async function writeVariant(filePath: string, variant: ImageVariant): Promise<string> {
+  const { maxEdge, quality } = variantOptions[variant];
+  const target = path.join(variantDir, `${path.parse(filePath).name}-${variant}.jpg`);
+
+  await sharp(filePath)
+    .rotate() // apply EXIF orientation from phone cameras
+    .resize({ width: maxEdge, height: maxEdge, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality, mozjpeg: true })
+    .toFile(target);
+
+  return target;
+}
+
+// Thumbnail and web-sized preview of an uploaded photo. A failure only means
+// the original is served instead, so it never fails the upload.
+export async function generateImageVariants(filePath: string): Promise<ImageVariantPaths> {
+  try {
+    return {
+      thumbnailPath: await writeVariant(filePath, "thumb"),
+      previewPath: await writeVariant(filePath, "preview"),
+    };
+  } catch (error) {
+    console.error(`Error generating image variants for ${filePath}:`, error);
+    return { thumbnailPath: null, previewPath: null };
+  }
+}
+
+function variantPath(item: Media, variant: MediaVariant): string | null {
+  switch (variant) {
+    case "thumb":
+      return item.thumbnailPath;
+    case "preview":
+      return item.previewPath;
+    case "poster":
+      return item.posterPath;
+    case "mp4":
+      return item.renditionPath;
+  }
+}
+
+export interface MediaFile {
+  filePath: string;
+  mimeType: string;
+  filename: string;
+}
+
+// The file to serve for a media row: the requested derived copy when it
+// exists, otherwise the original upload
+export function mediaFile(item: Media, variant?: MediaVariant): MediaFile {
+  const derivedPath = variant ? variantPath(item, variant) : null;
+  if (!variant || !derivedPath || !fs.existsSync(derivedPath)) {
+    return { filePath: item.filePath, mimeType: item.mimeType, filename: item.filename };
+  }
+
+  const name = path.parse(item.filename).name;
+  return variant === "mp4"
+    ? { filePath: derivedPath, mimeType: "video/mp4", filename: `${name}.mp4` }
+    : { filePath: derivedPath, mimeType: "image/jpeg", filename: `${name}-${variant}.jpg` };
+}
+
+// Every file on disk that belongs to a media row
+export function mediaFilePaths(item: Media): string[] {
+  return [item.filePath, item.thumbnailPath, item.previewPath, item.renditionPath, item.posterPath]
+    .filter((filePath): filePath is string => !!filePath);
+}
@@ -0,0 +1,19 @@
+import { createDb } from "./db";
+import { runDataMigrations } from "./dataMigrations";
+
+// Entry point of `npm run predb:push`, see dataMigrations.ts
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL, ensure the database is provisioned");
+}
+
+const { db, pool } = createDb(process.env.DATABASE_URL);
+(async () => {
+  try {
+    const applied = await runDataMigrations(db);
+    for (const line of applied) {
+      console.log(`data migration: ${line}`);
+    }
+  } finally {
+    await pool.end();
+  }
+})();
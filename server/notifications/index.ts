@@ -0,0 +1,21 @@
+import { SmtpMailer, type Mailer } from "./mailer";
+
+export * from "./mailer";
+export * from "./templates";
+
+// Email is sent through SMTP_HOST when it is set; null means notifications are off
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer | null {
+  if (!env.SMTP_HOST) return null;
+
+  const secure = env.SMTP_SECURE === "true";
+  return new SmtpMailer({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : secure ? 465 : 587,
+    secure,
+    user: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+    from: env.MAIL_FROM || "CNH FIRST <no-reply@localhost>",
+  });
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,40 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS, usually on port 465. Otherwise STARTTLS is used when the
+  // server offers it, so plain local SMTP catchers work too.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.config.from, ...message });
+  }
+}
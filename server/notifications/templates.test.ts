@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IssueComment } from "@shared/schema";
+import { issueFixture } from "../trackers/testing";
+import { commentAddedEmail, newReportEmail, statusChangedEmail, submissionConfirmationEmail } from "./templates";
+
+const markup = `<img src=x onerror="alert('x')"> & co`;
+const escaped = "&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt; &amp; co";
+
+const issue = issueFixture({ title: markup, description: `Steps:\n${markup}`, reportedBy: markup });
+const comment: IssueComment = {
+  id: 4,
+  issueId: issue.id,
+  authorId: null,
+  authorName: markup,
+  body: markup,
+  trackerCommentId: null,
+  trackerSyncPending: false,
+  createdAt: new Date("2024-05-01T10:00:00Z"),
+  updatedAt: null,
+};
+const options = { appBaseUrl: "https://first.example.com/" };
+
+describe("email templates", () => {
+  const emails = {
+    submissionConfirmation: submissionConfirmationEmail(issue, { system: "jira", key: "FIRST-12", url: `https://jira.example.com/browse/FIRST-12?a=1&b="2"` }, options),
+    newReport: newReportEmail(issue, options),
+    statusChanged: statusChangedEmail(issue, { fromStatus: "submitted", toStatus: "triaged", changedByName: markup, note: markup }, options),
+    commentAdded: commentAddedEmail(issue, comment, options),
+  };
+
+  for (const [name, email] of Object.entries(emails)) {
+    it(`escapes user text in the ${name} HTML and keeps it as written in the text`, () => {
+      assert.ok(!email.html.includes(markup), "raw markup in the HTML");
+      assert.ok(email.html.includes(escaped));
+      assert.ok(email.text.includes(markup));
+    });
+
+    it(`links the ${name} email to the issue`, () => {
+      assert.ok(email.text.includes("View the issue: https://first.example.com/issues/7"));
+      assert.ok(email.html.includes(`<a href="https://first.example.com/issues/7"`));
+    });
+  }
+
+  it("escapes the ticket URL", () => {
+    assert.ok(emails.submissionConfirmation.html.includes("https://jira.example.com/browse/FIRST-12?a=1&amp;b=&quot;2&quot;"));
+  });
+
+  it("quotes multi-line text line by line in the text version", () => {
+    assert.ok(emails.newReport.text.includes(`> Steps:\n> ${markup}`));
+  });
+
+  it("leaves out the link without an application URL", () => {
+    const email = newReportEmail(issue, {});
+
+    assert.ok(!email.text.includes("View the issue"));
+    assert.ok(!email.html.includes("<a "));
+  });
+});
@@ -0,0 +1,137 @@
+import type { ExternalTicket, Issue, IssueComment } from "@shared/schema";
+import { issueStatusLabels, labelFor, productCategoryLabels, severityLabels, trackerSystemLabels } from "@shared/labels";
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface StatusChange {
+  fromStatus: string | null;
+  toStatus: string;
+  changedByName: string;
+  note: string | null;
+}
+
+// Base URL of this application, for links back to the issue
+export interface TemplateOptions {
+  appBaseUrl?: string;
+}
+
+interface EmailLayout {
+  subject: string;
+  heading: string;
+  intro: string;
+  details?: [string, string][];
+  // Comment or note text, shown as a quotation
+  quote?: string | null;
+  issueUrl: string | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function issueUrl(issue: Issue, options: TemplateOptions): string | null {
+  return options.appBaseUrl ? `${options.appBaseUrl.replace(/\/+$/, "")}/issues/${issue.id}` : null;
+}
+
+function issueSubject(issue: Issue, summary: string): string {
+  return `[Issue #${issue.id}] ${summary}`;
+}
+
+function render(layout: EmailLayout): EmailContent {
+  const details = layout.details ?? [];
+
+  const text = [
+    layout.heading,
+    layout.intro,
+    details.map(([label, value]) => `${label}: ${value}`).join("\n"),
+    layout.quote ? layout.quote.split("\n").map((line) => `> ${line}`).join("\n") : "",
+    layout.issueUrl ? `View the issue: ${layout.issueUrl}` : "",
+  ].filter(Boolean).join("\n\n");
+
+  const rows = details
+    .map(([label, value]) => `<tr><td style="padding:2px 12px 2px 0;color:#6B778C">${escapeHtml(label)}</td><td style="padding:2px 0">${escapeHtml(value)}</td></tr>`)
+    .join("");
+  const html = [
+    `<div style="font-family:Arial,sans-serif;color:#172B4D;max-width:600px">`,
+    `<h2 style="font-size:18px">${escapeHtml(layout.heading)}</h2>`,
+    `<p>${escapeHtml(layout.intro)}</p>`,
+    rows ? `<table style="font-size:14px;border-collapse:collapse">${rows}</table>` : "",
+    layout.quote
+      ? `<blockquote style="margin:16px 0;padding:8px 12px;border-left:3px solid #DFE1E6;white-space:pre-wrap">${escapeHtml(layout.quote)}</blockquote>`
+      : "",
+    layout.issueUrl
+      ? `<p><a href="${escapeHtml(layout.issueUrl)}" style="color:#0052CC">View the issue</a></p>`
+      : "",
+    `<p style="font-size:12px;color:#6B778C">CNH FIRST Field Issue Reporting. Change which emails you receive in Settings.</p>`,
+    `</div>`,
+  ].join("\n");
+
+  return { subject: layout.subject, text, html };
+}
+
+function issueDetails(issue: Issue): [string, string][] {
+  return [
+    ["Title", issue.title],
+    ["Severity", labelFor(severityLabels, issue.severity)],
+    ["Product", labelFor(productCategoryLabels, issue.productCategory)],
+    ["Platform", issue.platform],
+  ];
+}
+
+// To the reporter once the tracker ticket exists
+export function submissionConfirmationEmail(issue: Issue, ticket: ExternalTicket, options: TemplateOptions): EmailContent {
+  const tracker = labelFor(trackerSystemLabels, ticket.system);
+  return render({
+    subject: issueSubject(issue, `Ticket ${ticket.key} created for your report`),
+    heading: "Your issue report was received",
+    intro: `Thank you for reporting "${issue.title}". ${tracker} ticket ${ticket.key} has been created for it; use this ID when following up.`,
+    details: [
+      ["Ticket", ticket.url ? `${ticket.key} (${ticket.url})` : ticket.key],
+      ...issueDetails(issue),
+    ],
+    issueUrl: issueUrl(issue, options),
+  });
+}
+
+// To triagers when a report comes in
+export function newReportEmail(issue: Issue, options: TemplateOptions): EmailContent {
+  return render({
+    subject: issueSubject(issue, `New report: ${issue.title}`),
+    heading: "A new issue was reported",
+    intro: `${issue.reportedBy} reported a new issue that needs triage.`,
+    details: issueDetails(issue),
+    quote: issue.description,
+    issueUrl: issueUrl(issue, options),
+  });
+}
+
+export function statusChangedEmail(issue: Issue, change: StatusChange, options: TemplateOptions): EmailContent {
+  const from = change.fromStatus ? labelFor(issueStatusLabels, change.fromStatus) : "none";
+  const to = labelFor(issueStatusLabels, change.toStatus);
+  return render({
+    subject: issueSubject(issue, `Status changed to ${to}`),
+    heading: `"${issue.title}" is now ${to}`,
+    intro: `${change.changedByName} changed the status from ${from} to ${to}.`,
+    quote: change.note,
+    issueUrl: issueUrl(issue, options),
+  });
+}
+
+export function commentAddedEmail(issue: Issue, comment: IssueComment, options: TemplateOptions): EmailContent {
+  return render({
+    subject: issueSubject(issue, `New comment on ${issue.title}`),
+    heading: `New comment on "${issue.title}"`,
+    intro: `${comment.authorName} wrote:`,
+    quote: comment.body,
+    issueUrl: issueUrl(issue, options),
+  });
+}
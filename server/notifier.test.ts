@@ -0,0 +1,136 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Issue, NotificationPreferences, UserRole } from "@shared/schema";
+import { MemStorage } from "./storage";
+import type { MailMessage, Mailer } from "./notifications";
+import { Notifier } from "./notifier";
+import { reportValues } from "./testing";
+
+// Collects sent messages; addresses in `failing` are refused
+class RecordingMailer implements Mailer {
+  sent: MailMessage[] = [];
+
+  constructor(private failing: string[] = []) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (this.failing.includes(message.to)) throw new Error("Mailbox unavailable");
+    this.sent.push(message);
+  }
+
+  get recipients(): string[] {
+    return this.sent.map((message) => message.to);
+  }
+}
+
+// Notifications are sent in the background; MemStorage and the mailer above
+// only chain promises, so they have all settled by the next macrotask
+const settled = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("Notifier", () => {
+  let storage: MemStorage;
+  let mailer: RecordingMailer;
+  let notifier: Notifier;
+
+  async function user(username: string, role: UserRole, options: { email?: string | null; preferences?: Partial<NotificationPreferences> } = {}) {
+    const created = await storage.createUser({ username, password: "secret", email: options.email === undefined ? `${username}@example.com` : options.email });
+    await storage.updateUserRole(created.id, role);
+    if (options.preferences) {
+      await storage.updateUserSettings(created.id, { notificationPreferences: { ...created.notificationPreferences, ...options.preferences } });
+    }
+    return created;
+  }
+
+  async function report(reporterId: number | null): Promise<Issue> {
+    return storage.createIssue(reportValues({ reporterId }));
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    mailer = new RecordingMailer();
+    notifier = new Notifier(storage, mailer, "https://first.example.com");
+  });
+
+  it("tells triagers and admins about a new report, but not the triager who filed it", async () => {
+    const reporter = await user("dana", "reporter");
+    await user("tom", "triager");
+    const filingTriager = await user("ada", "triager");
+    await user("root", "admin");
+
+    notifier.issueSubmitted(await report(reporter.id));
+    notifier.issueSubmitted(await report(filingTriager.id));
+    await settled();
+
+    assert.deepEqual(mailer.recipients.sort(), ["ada@example.com", "root@example.com", "root@example.com", "tom@example.com", "tom@example.com"]);
+    assert.match(mailer.sent[0].subject, /^\[Issue #\d+\] New report: Scanner freezes on startup$/);
+  });
+
+  it("confirms the ticket to the reporter only once it exists", async () => {
+    const reporter = await user("dana", "reporter");
+    await user("tom", "triager");
+    const issue = await report(reporter.id);
+
+    notifier.ticketCreated(issue);
+    await settled();
+    assert.equal(mailer.sent.length, 0);
+
+    notifier.ticketCreated({ ...issue, externalTicket: { system: "jira", key: "FIRST-12", url: null } });
+    await settled();
+    assert.deepEqual(mailer.recipients, ["dana@example.com"]);
+    assert.match(mailer.sent[0].subject, /Ticket FIRST-12 created for your report/);
+  });
+
+  it("tells the reporter about status changes made by someone else", async () => {
+    const reporter = await user("dana", "reporter");
+    const triager = await user("tom", "triager");
+    const issue = await report(reporter.id);
+    const change = { fromStatus: "submitted", toStatus: "triaged", changedByName: "tom", note: null };
+
+    notifier.statusChanged(issue, { ...change, changedById: triager.id });
+    notifier.statusChanged(issue, { ...change, changedById: reporter.id });
+    await settled();
+
+    assert.deepEqual(mailer.recipients, ["dana@example.com"]);
+  });
+
+  it("tells the reporter and other commenters about a comment, but not its author", async () => {
+    const reporter = await user("dana", "reporter");
+    const triager = await user("tom", "triager");
+    const other = await user("ada", "triager");
+    await user("root", "admin");
+    const issue = await report(reporter.id);
+    await storage.createComment({ issueId: issue.id, authorId: other.id, authorName: "ada", body: "Seen it too" });
+    await storage.createComment({ issueId: issue.id, authorId: other.id, authorName: "ada", body: "And again" });
+    const comment = await storage.createComment({ issueId: issue.id, authorId: triager.id, authorName: "tom", body: "Looking into it" });
+
+    notifier.commentAdded(issue, comment);
+    await settled();
+
+    assert.deepEqual(mailer.recipients.sort(), ["ada@example.com", "dana@example.com"]);
+  });
+
+  it("honours notification preferences and skips users without an address", async () => {
+    await user("tom", "triager", { preferences: { issueSubmitted: false } });
+    await user("ada", "triager", { preferences: { statusChanged: false, commentAdded: false } });
+    await user("sam", "triager", { email: null });
+    const reporter = await user("dana", "reporter", { preferences: { statusChanged: false } });
+    const issue = await report(reporter.id);
+
+    notifier.issueSubmitted(issue);
+    notifier.statusChanged(issue, { fromStatus: "submitted", toStatus: "triaged", changedByName: "tom", note: null, changedById: null });
+    await settled();
+
+    assert.deepEqual(mailer.recipients, ["ada@example.com"]);
+  });
+
+  it("keeps emailing the others when one recipient fails", async () => {
+    mailer = new RecordingMailer(["tom@example.com"]);
+    notifier = new Notifier(storage, mailer);
+    await user("tom", "triager");
+    await user("ada", "triager");
+
+    notifier.issueSubmitted(await report(null));
+    await settled();
+
+    assert.deepEqual(mailer.recipients, ["ada@example.com"]);
+  });
+});
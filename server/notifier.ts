@@ -0,0 +1,104 @@
+import type { Issue, IssueComment, NotificationPreferences, User } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import {
+  commentAddedEmail,
+  mailer,
+  newReportEmail,
+  statusChangedEmail,
+  submissionConfirmationEmail,
+  type EmailContent,
+  type Mailer,
+  type StatusChange,
+} from "./notifications";
+import { log } from "./vite";
+
+// Emails reporters and triagers about issue activity, honouring each user's
+// notification preferences. Users without an email address are skipped.
+// Sending runs in the background and failures are only logged, so the change
+// that triggered a notification is never rejected because of the mail server.
+export class Notifier {
+  constructor(
+    private storage: IStorage,
+    private mailer: Mailer | null,
+    private appBaseUrl?: string,
+  ) {}
+
+  // Tell triagers and admins about a new report
+  issueSubmitted(issue: Issue) {
+    this.run(`new report ${issue.id}`, async () => {
+      const triagers = (await this.storage.getUsers())
+        .filter((user) => user.role !== "reporter" && user.id !== issue.reporterId);
+      await this.send(triagers, "issueSubmitted", newReportEmail(issue, this.templateOptions()));
+    });
+  }
+
+  // Confirm to the reporter that their report reached the tracker
+  ticketCreated(issue: Issue) {
+    const ticket = issue.externalTicket;
+    if (!ticket) return;
+
+    this.run(`ticket confirmation ${issue.id}`, async () => {
+      await this.send(await this.reporter(issue), "issueSubmitted", submissionConfirmationEmail(issue, ticket, this.templateOptions()));
+    });
+  }
+
+  // changedById is null for changes made in the tracker
+  statusChanged(issue: Issue, change: StatusChange & { changedById: number | null }) {
+    this.run(`status change ${issue.id}`, async () => {
+      const recipients = (await this.reporter(issue)).filter((user) => user.id !== change.changedById);
+      await this.send(recipients, "statusChanged", statusChangedEmail(issue, change, this.templateOptions()));
+    });
+  }
+
+  // The reporter and everyone else who commented hear about new comments
+  commentAdded(issue: Issue, comment: IssueComment) {
+    this.run(`comment ${comment.id}`, async () => {
+      const participantIds = new Set<number>();
+      if (issue.reporterId) participantIds.add(issue.reporterId);
+      for (const other of await this.storage.getCommentsForIssue(issue.id)) {
+        if (other.authorId) participantIds.add(other.authorId);
+      }
+      if (comment.authorId) participantIds.delete(comment.authorId);
+
+      const recipients = await this.usersById(Array.from(participantIds));
+      await this.send(recipients, "commentAdded", commentAddedEmail(issue, comment, this.templateOptions()));
+    });
+  }
+
+  private async reporter(issue: Issue): Promise<User[]> {
+    return issue.reporterId ? this.usersById([issue.reporterId]) : [];
+  }
+
+  private async usersById(ids: number[]): Promise<User[]> {
+    const users = await Promise.all(ids.map((id) => this.storage.getUser(id)));
+    return users.filter((user): user is User => user !== undefined);
+  }
+
+  // One failed recipient does not keep the email from the others
+  private async send(recipients: User[], preference: keyof NotificationPreferences, content: EmailContent) {
+    for (const user of recipients) {
+      if (!user.email || !user.notificationPreferences[preference]) continue;
+      try {
+        await this.mailer!.send({ to: user.email, ...content });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`emailing ${user.username} about "${content.subject}" failed: ${message}`, "notify");
+      }
+    }
+  }
+
+  private templateOptions() {
+    return { appBaseUrl: this.appBaseUrl };
+  }
+
+  private run(description: string, task: () => Promise<void>) {
+    if (!this.mailer) return;
+
+    task().catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`sending ${description} email failed: ${message}`, "notify");
+    });
+  }
+}
+
+export const notifier = new Notifier(storage, mailer, process.env.APP_BASE_URL);
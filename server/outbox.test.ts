@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Issue, Media } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { TrackerRouter, type IssueTrackerAdapter, type TrackerTicket } from "./trackers";
+import { WebhookDispatcher } from "./webhookDispatcher";
+import { Notifier } from "./notifier";
+import { ChatNotifier } from "./chatNotifier";
+import { OutboxRetryError, OutboxWorker, type OutboxWorkerOptions } from "./outbox";
+import { reportValues } from "./testing";
+
+// Fails the first `failures` tickets, then files them as STUB-<issue id>
+class StubTracker implements IssueTrackerAdapter {
+  readonly system = "stub";
+  created: number[] = [];
+
+  constructor(private failures = 0) {}
+
+  async createTicket(issue: Issue, _media: Media[]): Promise<TrackerTicket> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("Tracker unavailable");
+    }
+    this.created.push(issue.id);
+    return { key: `STUB-${issue.id}`, url: `https://tracker.example.com/STUB-${issue.id}` };
+  }
+}
+
+const options: Partial<OutboxWorkerOptions> = {
+  pollIntervalMs: 1_000,
+  maxAttempts: 4,
+  baseDelayMs: 10_000,
+  maxDelayMs: 25_000,
+  maxMediaWaitMs: 60_000,
+};
+
+describe("OutboxWorker", () => {
+  let storage: MemStorage;
+
+  function worker(tracker: StubTracker) {
+    const outbox = new OutboxWorker(
+      storage,
+      new TrackerRouter([tracker], {}, "stub"),
+      new WebhookDispatcher(storage),
+      new Notifier(storage, null),
+      new ChatNotifier([], { maxMessages: 10, windowMs: 60_000 }),
+      options,
+    );
+    // The tests run processDue themselves rather than in the background
+    mock.method(outbox, "kick", () => {});
+    return outbox;
+  }
+
+  async function queuedIssue() {
+    const issue = await storage.createIssue(reportValues());
+    const entry = await storage.createOutboxEntry(issue.id);
+    return { issue, entry };
+  }
+
+  beforeEach(() => {
+    // Only Date is mocked, so deliveries still run on the real event loop
+    mock.timers.enable({ apis: ["Date"], now: new Date("2024-05-01T10:00:00Z") });
+    storage = new MemStorage();
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it("files the ticket and records it on the issue", async () => {
+    const tracker = new StubTracker();
+    const { issue, entry } = await queuedIssue();
+
+    await worker(tracker).processDue();
+
+    assert.deepEqual(tracker.created, [issue.id]);
+    assert.equal((await storage.getOutboxEntry(entry.id))?.status, "sent");
+    const updated = await storage.getIssue(issue.id);
+    assert.deepEqual(updated?.externalTicket, { system: "stub", key: `STUB-${issue.id}`, url: `https://tracker.example.com/STUB-${issue.id}` });
+    assert.equal(updated?.syncStatus, "processed");
+  });
+
+  it("backs off exponentially up to maxDelayMs", async () => {
+    const outbox = worker(new StubTracker(3));
+    const { entry } = await queuedIssue();
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await outbox.processDue();
+      const pending = (await storage.getOutboxEntry(entry.id))!;
+      assert.equal(pending.status, "pending");
+      assert.equal(pending.attempts, attempt);
+      assert.equal(pending.lastError, "Tracker unavailable");
+
+      const delay = pending.nextAttemptAt!.getTime() - Date.now();
+      delays.push(delay);
+      // Not due until the delay has passed
+      mock.timers.tick(delay - 1);
+      await outbox.processDue();
+      assert.equal((await storage.getOutboxEntry(entry.id))?.attempts, attempt);
+      mock.timers.tick(1);
+    }
+    assert.deepEqual(delays, [10_000, 20_000, 25_000]);
+
+    await outbox.processDue();
+    assert.equal((await storage.getOutboxEntry(entry.id))?.status, "sent");
+  });
+
+  it("gives up after maxAttempts and marks the issue sync_failed", async () => {
+    const outbox = worker(new StubTracker(Infinity));
+    const { issue, entry } = await queuedIssue();
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await outbox.processDue();
+      mock.timers.tick(25_000);
+    }
+
+    const failed = await storage.getOutboxEntry(entry.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal(failed?.attempts, 4);
+    assert.equal((await storage.getIssue(issue.id))?.syncStatus, "sync_failed");
+
+    // Failed entries are no longer picked up
+    mock.timers.tick(60 * 60 * 1000);
+    await outbox.processDue();
+    assert.equal((await storage.getOutboxEntry(entry.id))?.attempts, 4);
+  });
+
+  it("retries only entries that failed", async () => {
+    const tracker = new StubTracker();
+    const outbox = worker(tracker);
+    const { issue, entry } = await queuedIssue();
+
+    await assert.rejects(outbox.retry(entry.id), (error) => error instanceof OutboxRetryError && error.status === "pending");
+
+    await storage.updateOutboxEntry(entry.id, { status: "failed", attempts: 4, lastError: "Tracker unavailable" });
+    await storage.updateSyncStatus(issue.id, "sync_failed");
+    const retried = await outbox.retry(entry.id);
+    assert.equal(retried?.status, "pending");
+    assert.equal(retried?.attempts, 0);
+    assert.equal(retried?.lastError, null);
+    assert.equal((await storage.getIssue(issue.id))?.syncStatus, "queued");
+
+    await outbox.processDue();
+    await assert.rejects(outbox.retry(entry.id), (error) => error instanceof OutboxRetryError && error.status === "sent");
+    assert.deepEqual(tracker.created, [issue.id]);
+    assert.equal(await outbox.retry(999), undefined);
+  });
+
+  for (const pending of [{ processingStatus: "pending" }, { transcriptionStatus: "pending" }]) {
+    it(`holds the ticket while ${Object.keys(pending)[0]} is pending, up to maxMediaWaitMs`, async () => {
+      const tracker = new StubTracker();
+      const outbox = worker(tracker);
+      const { issue, entry } = await queuedIssue();
+      await storage.createMedia({
+        issueId: issue.id,
+        type: "processingStatus" in pending ? "video" : "audio",
+        filename: "recording.webm",
+        filePath: "uploads/recording.webm",
+        mimeType: "video/webm",
+        fileSize: 1024,
+        ...pending,
+      });
+
+      await outbox.processDue();
+      const held = await storage.getOutboxEntry(entry.id);
+      assert.equal(held?.status, "pending");
+      assert.equal(held?.attempts, 0);
+      assert.equal(held?.nextAttemptAt?.getTime(), Date.now() + 1_000);
+      assert.deepEqual(tracker.created, []);
+
+      mock.timers.tick(60_000);
+      await outbox.processDue();
+      assert.equal((await storage.getOutboxEntry(entry.id))?.status, "sent");
+      assert.deepEqual(tracker.created, [issue.id]);
+    });
+  }
+});
@@ -0,0 +1,186 @@
+import type { Media, OutboxEntry } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { trackerRouter, type TrackerRouter } from "./trackers";
+import { webhookDispatcher, type WebhookDispatcher } from "./webhookDispatcher";
+import { notifier, type Notifier } from "./notifier";
+import { chatNotifier, type ChatNotifier } from "./chatNotifier";
+import { log } from "./vite";
+
+export interface OutboxWorkerOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // How long a ticket may wait for its videos to finish transcoding
+  maxMediaWaitMs: number;
+}
+
+const defaultOptions: OutboxWorkerOptions = {
+  pollIntervalMs: 5_000,
+  batchSize: 10,
+  maxAttempts: 8,
+  baseDelayMs: 30_000,
+  maxDelayMs: 60 * 60 * 1000,
+  maxMediaWaitMs: 10 * 60 * 1000,
+};
+
+// Raised when an entry cannot be retried because it did not fail
+export class OutboxRetryError extends Error {
+  constructor(public status: string) {
+    super(`Only failed deliveries can be retried, this one is ${status}`);
+    this.name = "OutboxRetryError";
+  }
+}
+
+// Delivers queued issues to the tracker their category is routed to. Entries are persisted through
+// IStorage, so anything still pending after a restart is picked up again.
+export class OutboxWorker {
+  private options: OutboxWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private storage: IStorage,
+    private trackers: TrackerRouter,
+    private events: WebhookDispatcher,
+    private notifier: Notifier,
+    private chat: ChatNotifier,
+    options: Partial<OutboxWorkerOptions> = {},
+  ) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.kick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue ticket creation for a newly stored issue
+  async enqueue(issueId: number): Promise<OutboxEntry> {
+    const entry = await this.storage.createOutboxEntry(issueId);
+    await this.storage.updateSyncStatus(issueId, "queued");
+    this.kick();
+    return entry;
+  }
+
+  // Put a failed delivery back in the queue for immediate processing. Pending
+  // entries are already queued and sent ones have their ticket, so retrying
+  // those would file it twice.
+  async retry(entryId: number): Promise<OutboxEntry | undefined> {
+    const entry = await this.storage.getOutboxEntry(entryId);
+    if (!entry) return undefined;
+    if (entry.status !== "failed") {
+      throw new OutboxRetryError(entry.status);
+    }
+
+    const updated = await this.storage.updateOutboxEntry(entryId, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    });
+    await this.storage.updateSyncStatus(entry.issueId, "queued");
+    this.kick();
+    return updated;
+  }
+
+  // Trigger a processing pass without waiting for it to finish
+  kick() {
+    this.processDue().catch((error) => {
+      console.error("Error processing ticket outbox:", error);
+    });
+  }
+
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const entries = await this.storage.getDueOutboxEntries(new Date(), this.options.batchSize);
+      for (const entry of entries) {
+        await this.deliver(entry);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    const attempts = entry.attempts + 1;
+
+    try {
+      const issue = await this.storage.getIssue(entry.issueId);
+      if (!issue) {
+        throw new Error(`Issue ${entry.issueId} no longer exists`);
+      }
+
+      const media = await this.storage.getMediaForIssue(issue.id);
+      if (this.awaitingMedia(entry, media)) {
+        await this.storage.updateOutboxEntry(entry.id, {
+          nextAttemptAt: new Date(Date.now() + this.options.pollIntervalMs),
+        });
+        return;
+      }
+
+      const tracker = this.trackers.forIssue(issue);
+      const ticket = await tracker.createTicket(issue, media);
+
+      const externalTicket = { system: tracker.system, key: ticket.key, url: ticket.url ?? null };
+      const updatedIssue = await this.storage.updateExternalTicket(issue.id, externalTicket);
+      await this.storage.updateOutboxEntry(entry.id, {
+        status: "sent",
+        attempts,
+        lastError: null,
+        sentAt: new Date(),
+      });
+      this.events.emit("issue.ticket_created", { issue: updatedIssue ?? issue, ticket: externalTicket });
+      this.notifier.ticketCreated(updatedIssue ?? { ...issue, externalTicket });
+      this.chat.ticketCreated(updatedIssue ?? { ...issue, externalTicket });
+      log(`created ${tracker.system} ticket ${ticket.key} for issue ${issue.id}`, "outbox");
+      for (const failure of ticket.failedAttachments ?? []) {
+        log(`attaching to ${ticket.key} failed: ${failure}`, "outbox");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= this.options.maxAttempts;
+
+      await this.storage.updateOutboxEntry(entry.id, {
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + this.backoff(attempts)),
+      });
+
+      if (exhausted) {
+        await this.storage.updateSyncStatus(entry.issueId, "sync_failed");
+      }
+      log(`delivery of issue ${entry.issueId} failed (attempt ${attempts}): ${message}`, "outbox");
+    }
+  }
+
+  // Hold the ticket while videos are transcoded and voice notes transcribed
+  // so the tracker receives playable renditions and transcripts, but never
+  // longer than maxMediaWaitMs
+  private awaitingMedia(entry: OutboxEntry, media: Media[]): boolean {
+    const pending = media.some((item) => item.processingStatus === "pending" || item.transcriptionStatus === "pending");
+    if (!pending) return false;
+    const queuedAt = entry.createdAt?.getTime() ?? 0;
+    return Date.now() - queuedAt < this.options.maxMediaWaitMs;
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at maxDelayMs
+  private backoff(attempts: number): number {
+    return Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+  }
+}
+
+export const outboxWorker = new OutboxWorker(storage, trackerRouter, webhookDispatcher, notifier, chatNotifier);
@@ -0,0 +1,45 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Issue, IssueComment, IssueDraft, User, UserRole } from "@shared/schema";
+
+// Every permission denial uses the same response shape
+export function sendForbidden(res: Response, message = "You do not have permission to perform this action") {
+  return res.status(403).json({ error: message });
+}
+
+export function hasRole(user: User | undefined, ...roles: UserRole[]): boolean {
+  return !!user && roles.includes(user.role);
+}
+
+// Triagers and admins can see every issue; reporters only their own
+export function canViewAllIssues(user: User | undefined): boolean {
+  return hasRole(user, "triager", "admin");
+}
+
+export function canAccessIssue(user: User | undefined, issue: Issue): boolean {
+  if (!user) return false;
+  return canViewAllIssues(user) || issue.reporterId === user.id;
+}
+
+// Drafts are private to the user who saved them
+export function canAccessDraft(user: User | undefined, draft: IssueDraft): boolean {
+  return !!user && draft.userId === user.id;
+}
+
+// Only the author may edit a comment; admins may also delete it
+export function canEditComment(user: User | undefined, comment: IssueComment): boolean {
+  return !!user && comment.authorId === user.id;
+}
+
+export function canDeleteComment(user: User | undefined, comment: IssueComment): boolean {
+  return canEditComment(user, comment) || hasRole(user, "admin");
+}
+
+// Route middleware allowing only the given roles. Use after requireAuth.
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, ...roles)) {
+      return sendForbidden(res);
+    }
+    next();
+  };
+}
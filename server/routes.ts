@@ -1,74 +1,124 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { insertIssueSchema, insertMediaSchema } from "@shared/schema";
+import { randomBytes } from "crypto";
+import { commentBodySchema, draftBodySchema, insertDraftMediaSchema, insertIssueSchema, insertMediaSchema, issueQuerySchema, mediaFileQuerySchema, stagedUploadIdsSchema, stagedUploadSchema, statusChangeSchema, updateIssueSchema, updateWebhookSubscriptionSchema, userRoles, webhookSubscriptionSchema, type DraftMedia, type Media, type PublicWebhookSubscription, type WebhookSubscription } from "@shared/schema";
+import { allowedTransitions, canTransition } from "@shared/workflow";
+import { receiveFiles, uploadDir, uploadedFiles, removeFiles, type StoredFile } from "./uploads";
+import { generateImageVariants, mediaFile, mediaFilePaths } from "./mediaVariants";
+import { streamFile } from "./mediaStreaming";
+import { stagedUploads, StagedUploadError, maxChunkSize } from "./stagedUploads";
+import { videoTranscoder } from "./videoTranscoder";
+import { transcriber } from "./transcriber";
+import { outboxWorker, OutboxRetryError } from "./outbox";
+import { commentSync } from "./commentSync";
+import { trackerRouter } from "./trackers";
+import { trackerWebhooks } from "./trackerWebhooks";
+import { webhookDispatcher } from "./webhookDispatcher";
+import { notifier } from "./notifier";
+import { chatNotifier } from "./chatNotifier";
+import { setupAuth, requireAuth, toPublicUser } from "./auth";
+import { requireRole, canAccessIssue, canViewAllIssues, canEditComment, canDeleteComment, canAccessDraft, sendForbidden } from "./permissions";
+import { InvalidCursorError } from "./issueQuery";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-const storage_config = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, uniqueSuffix + path.extname(file.originalname));
-  }
-});
-
-const upload = multer({ 
-  storage: storage_config,
-  limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB max file size
-  },
-  fileFilter: function(req, file, cb) {
-    // Accept images, videos, audios, and common document types
-    const validTypes = [
-      'image/jpeg', 'image/png', 'image/gif',
-      'video/mp4', 'video/webm', 'video/quicktime',
-      'audio/mpeg', 'audio/wav', 'audio/ogg',
-      'application/pdf', 'text/plain', 'text/csv',
-      'application/zip', 'application/x-zip-compressed'
-    ];
+// Store a media row for each uploaded file, attached to an issue or one of its comments
+async function saveUploadedFiles(files: StoredFile[], issueId: number, commentId: number | null = null): Promise<Media[]> {
+  const saved: Media[] = [];
+  for (const file of files) {
+    const mediaType = file.mimetype.startsWith('image/') ? 'photo' :
+                     file.mimetype.startsWith('video/') ? 'video' :
+                     file.mimetype.startsWith('audio/') ? 'audio' : 'file';
     
-    if (validTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only images, videos, audios, and specific document types are allowed.'), false);
-    }
+    // Thumbnails and previews keep list and gallery views light
+    const variants = mediaType === 'photo'
+      ? await generateImageVariants(file.path)
+      : { thumbnailPath: null, previewPath: null };
+    
+    const mediaData = {
+      issueId,
+      commentId,
+      type: mediaType,
+      filename: file.originalname,
+      filePath: file.path,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      ...variants,
+      // Videos get a playable MP4 rendition in the background
+      processingStatus: mediaType === 'video' && videoTranscoder.enabled ? "pending" : null,
+      // Voice notes are transcribed in the background
+      transcriptionStatus: mediaType === 'audio' && transcriber.enabled ? "pending" : null,
+    };
+    
+    const validatedMediaData = insertMediaSchema.parse(mediaData);
+    saved.push(await storage.createMedia(validatedMediaData));
+  }
+  
+  if (saved.some((item) => item.processingStatus === "pending")) {
+    videoTranscoder.kick();
   }
-});
-
-// Function to simulate Jira ticket creation (would connect to actual Jira API in production)
-async function createJiraTicket(issueData: any): Promise<string> {
-  // In a real app, you would call the Jira API here
-  // For now, we'll simulate it by generating a random ticket ID
-  const ticketPrefix = "IRS";
-  const ticketNumber = Math.floor(1000 + Math.random() * 9000);
-  return `${ticketPrefix}-${ticketNumber}`;
+  if (saved.some((item) => item.transcriptionStatus === "pending")) {
+    transcriber.kick();
+  }
+  return saved;
+}
+
+// Delete a draft and its uploaded files, if it belongs to the user
+async function deleteOwnDraft(user: Express.User, draftId: number): Promise<boolean> {
+  const draft = await storage.getDraft(draftId);
+  if (!draft || !canAccessDraft(user, draft)) return false;
+  
+  const media = await storage.getMediaForDrafts([draft.id]);
+  await storage.deleteDraft(draft.id);
+  removeFiles(media.map((item) => item.filePath));
+  return true;
+}
+
+// Subscriptions are listed without their secret
+function toPublicSubscription({ secret: _secret, ...subscription }: WebhookSubscription): PublicWebhookSubscription {
+  return subscription;
+}
+
+function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions plus /api/register, /api/login, /api/logout and /api/me
+  setupAuth(app);
+
   // API endpoints
-  app.get("/api/issues", async (req: Request, res: Response) => {
+  // List issues with filtering, search, sorting and cursor pagination
+  app.get("/api/issues", requireAuth, async (req: Request, res: Response) => {
     try {
-      const issues = await storage.getIssues();
-      res.json(issues);
+      const query = issueQuerySchema.parse(req.query);
+      
+      // Reporters only ever see their own issues
+      if (!canViewAllIssues(req.user)) {
+        query.reporterId = req.user!.id;
+      }
+      
+      const result = await storage.queryIssues(query);
+      res.json(result);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
       console.error("Error fetching issues:", error);
       res.status(500).json({ error: "Failed to fetch issues" });
     }
   });
 
-  app.get("/api/issues/:id", async (req: Request, res: Response) => {
+  app.get("/api/issues/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const issue = await storage.getIssue(id);
@@ -77,10 +127,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Issue not found" });
       }
       
-      // Get associated media
+      if (!canAccessIssue(req.user, issue)) {
+        return sendForbidden(res);
+      }
+      
+      // Get associated media and workflow history
       const media = await storage.getMediaForIssue(id);
+      const statusHistory = await storage.getStatusHistory(id);
       
-      res.json({ issue, media });
+      res.json({ issue, media, statusHistory });
     } catch (error) {
       console.error("Error fetching issue:", error);
       res.status(500).json({ error: "Failed to fetch issue" });
@@ -88,60 +143,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create issue with possible file attachments
-  app.post("/api/issues", upload.array('files'), async (req: Request, res: Response) => {
+  app.post("/api/issues", requireAuth, receiveFiles('files'), async (req: Request, res: Response) => {
+    const claimedFiles: StoredFile[] = [];
+    let issueId: number | undefined;
+    
     try {
-      // Parse issue data
-      const issueData = JSON.parse(req.body.issueData);
+      // Parse issue data; the reporter is always the signed-in user
+      const issueData = {
+        ...JSON.parse(req.body.issueData),
+        reportedBy: req.user!.username,
+        reporterId: req.user!.id,
+      };
       
       // Validate using Zod schema
       const validatedIssueData = insertIssueSchema.parse(issueData);
       
+      // Large files sent beforehand through /api/uploads are referenced by ID
+      const stagedIds = stagedUploadIdsSchema.parse(JSON.parse(req.body.stagedUploads || "[]"));
+      await stagedUploads.assertComplete(stagedIds, req.user!.id);
+      for (const id of stagedIds) {
+        claimedFiles.push(await stagedUploads.claim(id, req.user!.id));
+      }
+      
       // Create issue in storage
       const issue = await storage.createIssue(validatedIssueData);
+      issueId = issue.id;
+      await storage.createStatusHistory({
+        issueId: issue.id,
+        fromStatus: null,
+        toStatus: "submitted",
+        changedById: req.user!.id,
+        changedByName: req.user!.username,
+      });
       
       // Process uploaded files if any
-      if (req.files && Array.isArray(req.files) && req.files.length > 0) {
-        for (const file of req.files) {
-          const mediaType = file.mimetype.startsWith('image/') ? 'photo' :
-                           file.mimetype.startsWith('video/') ? 'video' :
-                           file.mimetype.startsWith('audio/') ? 'audio' : 'file';
-          
-          const mediaData = {
-            issueId: issue.id,
-            type: mediaType,
-            filename: file.originalname,
-            filePath: file.path,
-            mimeType: file.mimetype,
-            fileSize: file.size,
-            transcription: null // Would be filled by a transcription service for audio files
-          };
-          
-          const validatedMediaData = insertMediaSchema.parse(mediaData);
-          await storage.createMedia(validatedMediaData);
-        }
-      }
+      const media = await saveUploadedFiles([...uploadedFiles(req), ...claimedFiles], issue.id);
+      
+      // Team chat hears of the report right away, and of its ticket once the outbox creates it
+      chatNotifier.issueFiled(issue, media);
       
-      // Create Jira ticket
-      const jiraTicketId = await createJiraTicket(issue);
+      // Queue ticket creation; the outbox worker delivers it to the tracker
+      await outboxWorker.enqueue(issue.id);
+      // Once queued the report stands, even if what follows fails
+      issueId = undefined;
+      const queuedIssue = await storage.getIssue(issue.id);
+      webhookDispatcher.emit("issue.created", { issue: queuedIssue ?? issue });
+      notifier.issueSubmitted(queuedIssue ?? issue);
       
-      // Update issue with Jira ticket ID
-      const updatedIssue = await storage.updateJiraTicketId(issue.id, jiraTicketId);
+      // A report resumed from a draft no longer needs the draft
+      const draftId = parseInt(req.body.draftId);
+      if (!isNaN(draftId)) {
+        await deleteOwnDraft(req.user!, draftId);
+      }
       
       res.status(201).json({ 
-        issue: updatedIssue, 
+        issue: queuedIssue, 
         message: "Issue reported successfully",
-        ticketId: jiraTicketId
+        ticketId: queuedIssue?.externalTicket?.key ?? null
       });
     } catch (error) {
       console.error("Error creating issue:", error);
       
-      // Clean up any uploaded files on error
-      if (req.files && Array.isArray(req.files)) {
-        for (const file of req.files) {
-          fs.unlink(file.path, (err) => {
-            if (err) console.error("Error deleting file:", err);
-          });
-        }
+      // Clean up any uploaded files on error, and the report itself if it
+      // was stored, so resubmitting does not leave a duplicate behind
+      removeFiles([...uploadedFiles(req), ...claimedFiles].map((file) => file.path));
+      if (issueId !== undefined) {
+        await storage.deleteIssue(issueId).catch((cleanupError) => {
+          console.error("Error removing unfiled issue:", cleanupError);
+        });
       }
       
       if (error instanceof ZodError) {
@@ -149,21 +218,761 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: validationError.message });
       }
       
+      if (error instanceof StagedUploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      
       res.status(500).json({ error: "Failed to create issue report" });
     }
   });
 
-  // Serve uploaded files
-  app.get("/uploads/:filename", (req: Request, res: Response) => {
-    const filename = req.params.filename;
-    const filePath = path.join(uploadDir, filename);
+  // Triagers and admins can correct issue fields after submission
+  app.patch("/api/issues/:id", requireAuth, requireRole("triager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateIssueSchema.parse(req.body);
+      const issue = await storage.updateIssue(id, updates);
+      
+      if (!issue) {
+        return res.status(404).json({ error: "Issue not found" });
+      }
+      
+      res.json(issue);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error updating issue:", error);
+      res.status(500).json({ error: "Failed to update issue" });
+    }
+  });
+
+  // Triagers and admins move issues through the triage workflow
+  app.patch("/api/issues/:id/status", requireAuth, requireRole("triager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, note } = statusChangeSchema.parse(req.body);
+      const current = await storage.getIssue(id);
+      
+      if (!current) {
+        return res.status(404).json({ error: "Issue not found" });
+      }
+      
+      if (!canTransition(current.status, status)) {
+        return res.status(409).json({
+          error: `Cannot change status from ${current.status} to ${status}`,
+          allowed: allowedTransitions(current.status),
+        });
+      }
+      
+      // Only applies if nobody else changed the status in the meantime
+      const issue = await storage.changeIssueStatus({
+        issueId: id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedById: req.user!.id,
+        changedByName: req.user!.username,
+        note: note || null,
+      });
+      
+      if (!issue) {
+        return res.status(409).json({ error: "The issue status was changed by someone else, reload and try again" });
+      }
+      
+      webhookDispatcher.emit("issue.status_changed", {
+        issue,
+        fromStatus: current.status,
+        toStatus: status,
+        changedBy: req.user!.username,
+        note: note || null,
+      });
+      notifier.statusChanged(issue, {
+        fromStatus: current.status,
+        toStatus: status,
+        changedById: req.user!.id,
+        changedByName: req.user!.username,
+        note: note || null,
+      });
+      
+      res.json(issue);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error updating issue status:", error);
+      res.status(500).json({ error: "Failed to update issue status" });
+    }
+  });
+
+  // Comment thread on an issue, oldest first
+  app.get("/api/issues/:id/comments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const issue = await storage.getIssue(id);
+      
+      if (!issue) {
+        return res.status(404).json({ error: "Issue not found" });
+      }
+      
+      if (!canAccessIssue(req.user, issue)) {
+        return sendForbidden(res);
+      }
+      
+      const comments = await storage.getCommentsForIssue(id);
+      const attachments = await storage.getMediaForComments(comments.map((comment) => comment.id));
+      
+      res.json(comments.map((comment) => ({
+        ...comment,
+        attachments: attachments.filter((item) => item.commentId === comment.id),
+      })));
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ error: "Failed to fetch comments" });
+    }
+  });
+
+  // Add a comment, optionally with attachments (multipart field "files")
+  app.post("/api/issues/:id/comments", requireAuth, receiveFiles('files'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const issue = await storage.getIssue(id);
+      
+      if (!issue) {
+        removeFiles(uploadedFiles(req).map((file) => file.path));
+        return res.status(404).json({ error: "Issue not found" });
+      }
+      
+      if (!canAccessIssue(req.user, issue)) {
+        removeFiles(uploadedFiles(req).map((file) => file.path));
+        return sendForbidden(res);
+      }
+      
+      const { body } = commentBodySchema.parse(req.body);
+      const comment = await storage.createComment({
+        issueId: id,
+        authorId: req.user!.id,
+        authorName: req.user!.username,
+        body,
+      });
+      const attachments = await saveUploadedFiles(uploadedFiles(req), id, comment.id);
+      
+      commentSync.commentCreated(issue, comment, attachments);
+      webhookDispatcher.emit("comment.created", { issueId: id, comment });
+      notifier.commentAdded(issue, comment);
+      
+      res.status(201).json({ ...comment, attachments });
+    } catch (error) {
+      removeFiles(uploadedFiles(req).map((file) => file.path));
+      
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error creating comment:", error);
+      res.status(500).json({ error: "Failed to add comment" });
+    }
+  });
+
+  // Authors can edit the text of their own comments
+  app.patch("/api/issues/:id/comments/:commentId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const comment = await storage.getComment(parseInt(req.params.commentId));
+      const issue = await storage.getIssue(id);
+      
+      if (!comment || !issue || comment.issueId !== id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      
+      if (!canAccessIssue(req.user, issue) || !canEditComment(req.user, comment)) {
+        return sendForbidden(res);
+      }
+      
+      const { body } = commentBodySchema.parse(req.body);
+      const updated = await storage.updateComment(comment.id, { body, updatedAt: new Date() });
+      
+      if (!updated) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      
+      commentSync.commentUpdated(issue, updated);
+      
+      const attachments = await storage.getMediaForComments([updated.id]);
+      res.json({ ...updated, attachments });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error updating comment:", error);
+      res.status(500).json({ error: "Failed to update comment" });
+    }
+  });
+
+  // Authors can delete their own comments, admins can delete any
+  app.delete("/api/issues/:id/comments/:commentId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const comment = await storage.getComment(parseInt(req.params.commentId));
+      const issue = await storage.getIssue(id);
+      
+      if (!comment || !issue || comment.issueId !== id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      
+      if (!canAccessIssue(req.user, issue) || !canDeleteComment(req.user, comment)) {
+        return sendForbidden(res);
+      }
+      
+      const attachments = await storage.getMediaForComments([comment.id]);
+      await storage.deleteComment(comment.id);
+      removeFiles(attachments.flatMap(mediaFilePaths));
+      
+      commentSync.commentDeleted(issue, comment);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ error: "Failed to delete comment" });
+    }
+  });
+
+  // The signed-in user's saved drafts, most recently updated first
+  app.get("/api/drafts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const drafts = await storage.getDraftsForUser(req.user!.id);
+      const media = await storage.getMediaForDrafts(drafts.map((draft) => draft.id));
+      
+      res.json(drafts.map((draft) => ({
+        ...draft,
+        media: media.filter((item) => item.draftId === draft.id),
+      })));
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      res.status(500).json({ error: "Failed to fetch drafts" });
+    }
+  });
+
+  app.get("/api/drafts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const draft = await storage.getDraft(parseInt(req.params.id));
+      
+      if (!draft || !canAccessDraft(req.user, draft)) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      const media = await storage.getMediaForDrafts([draft.id]);
+      res.json({ ...draft, media });
+    } catch (error) {
+      console.error("Error fetching draft:", error);
+      res.status(500).json({ error: "Failed to fetch draft" });
+    }
+  });
+
+  app.post("/api/drafts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const body = draftBodySchema.parse(req.body);
+      const draft = await storage.createDraft(req.user!.id, body);
+      res.status(201).json({ ...draft, media: [] });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error creating draft:", error);
+      res.status(500).json({ error: "Failed to save draft" });
+    }
+  });
+
+  app.put("/api/drafts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getDraft(parseInt(req.params.id));
+      
+      if (!existing || !canAccessDraft(req.user, existing)) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      const body = draftBodySchema.parse(req.body);
+      const draft = await storage.updateDraft(existing.id, body);
+      
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      const media = await storage.getMediaForDrafts([draft.id]);
+      res.json({ ...draft, media });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error updating draft:", error);
+      res.status(500).json({ error: "Failed to save draft" });
+    }
+  });
+
+  app.delete("/api/drafts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const deleted = await deleteOwnDraft(req.user!, parseInt(req.params.id));
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+      res.status(500).json({ error: "Failed to delete draft" });
+    }
+  });
+
+  // Upload files for one wizard slot of a draft (multipart fields "files", "slot", "duration")
+  app.post("/api/drafts/:id/media", requireAuth, receiveFiles('files'), async (req: Request, res: Response) => {
+    const files = uploadedFiles(req);
     
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      return res.status(404).json({ error: "File not found" });
+    try {
+      const draft = await storage.getDraft(parseInt(req.params.id));
+      
+      if (!draft || !canAccessDraft(req.user, draft)) {
+        removeFiles(files.map((file) => file.path));
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      const saved: DraftMedia[] = [];
+      for (const file of files) {
+        const mediaData = insertDraftMediaSchema.parse({
+          draftId: draft.id,
+          slot: req.body.slot,
+          filename: file.originalname,
+          filePath: file.path,
+          mimeType: file.mimetype,
+          fileSize: file.size,
+          duration: req.body.duration || null,
+        });
+        saved.push(await storage.createDraftMedia(mediaData));
+      }
+      
+      res.status(201).json(saved);
+    } catch (error) {
+      removeFiles(files.map((file) => file.path));
+      
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error uploading draft media:", error);
+      res.status(500).json({ error: "Failed to upload draft media" });
+    }
+  });
+
+  app.delete("/api/drafts/:id/media/:mediaId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const draft = await storage.getDraft(parseInt(req.params.id));
+      
+      if (!draft || !canAccessDraft(req.user, draft)) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      
+      const mediaId = parseInt(req.params.mediaId);
+      const [item] = (await storage.getMediaForDrafts([draft.id])).filter((media) => media.id === mediaId);
+      
+      if (!item) {
+        return res.status(404).json({ error: "Draft media not found" });
+      }
+      
+      await storage.deleteDraftMedia(item.id);
+      removeFiles([item.filePath]);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting draft media:", error);
+      res.status(500).json({ error: "Failed to delete draft media" });
+    }
+  });
+
+  // Admin: list accounts and their roles
+  app.get("/api/admin/users", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Admin: change a user's role
+  app.patch("/api/admin/users/:id/role", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const role = req.body?.role;
+      
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of: ${userRoles.join(", ")}` });
+      }
+      
+      const user = await storage.updateUserRole(id, role);
+      
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  // Admin: inspect ticket deliveries, optionally filtered by status
+  app.get("/api/admin/outbox", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const entries = await storage.getOutboxEntries(status);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching outbox entries:", error);
+      res.status(500).json({ error: "Failed to fetch outbox entries" });
+    }
+  });
+
+  // Admin: requeue a delivery for immediate processing
+  app.post("/api/admin/outbox/:id/retry", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await outboxWorker.retry(id);
+      
+      if (!entry) {
+        return res.status(404).json({ error: "Outbox entry not found" });
+      }
+      
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof OutboxRetryError) {
+        return res.status(409).json({ error: error.message });
+      }
+      
+      console.error("Error retrying outbox entry:", error);
+      res.status(500).json({ error: "Failed to retry outbox entry" });
+    }
+  });
+
+  // Admin: outbound webhook subscriptions. The secret is only returned when
+  // a subscription is created or its secret replaced.
+  app.get("/api/admin/webhooks", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await storage.getWebhookSubscriptions();
+      res.json(subscriptions.map(toPublicSubscription));
+    } catch (error) {
+      console.error("Error fetching webhook subscriptions:", error);
+      res.status(500).json({ error: "Failed to fetch webhook subscriptions" });
+    }
+  });
+
+  app.post("/api/admin/webhooks", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { secret, description, ...fields } = webhookSubscriptionSchema.parse(req.body);
+      const subscription = await storage.createWebhookSubscription({
+        ...fields,
+        description: description || null,
+        secret: secret ?? generateWebhookSecret(),
+      });
+      
+      res.status(201).json({ ...toPublicSubscription(subscription), secret: subscription.secret });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error creating webhook subscription:", error);
+      res.status(500).json({ error: "Failed to create webhook subscription" });
+    }
+  });
+
+  app.patch("/api/admin/webhooks/:id", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { rotateSecret, ...updates } = updateWebhookSubscriptionSchema.parse(req.body);
+      if (rotateSecret) {
+        updates.secret = generateWebhookSecret();
+      }
+      if (updates.description !== undefined) {
+        updates.description = updates.description || null;
+      }
+      
+      const subscription = await storage.updateWebhookSubscription(id, updates);
+      
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      
+      res.json(updates.secret
+        ? { ...toPublicSubscription(subscription), secret: subscription.secret }
+        : toPublicSubscription(subscription));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error updating webhook subscription:", error);
+      res.status(500).json({ error: "Failed to update webhook subscription" });
+    }
+  });
+
+  app.delete("/api/admin/webhooks/:id", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteWebhookSubscription(parseInt(req.params.id));
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting webhook subscription:", error);
+      res.status(500).json({ error: "Failed to delete webhook subscription" });
     }
+  });
+
+  // Admin: delivery log of a subscription, most recent first
+  app.get("/api/admin/webhooks/:id/deliveries", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const subscription = await storage.getWebhookSubscription(id);
+      
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 50, 1), 200);
+      res.json(await storage.getWebhookDeliveries(id, limit));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Admin: send a delivery's payload again
+  app.post("/api/admin/webhooks/deliveries/:id/replay", requireAuth, requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const delivery = await webhookDispatcher.replay(parseInt(req.params.id));
+      
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      
+      res.status(201).json(delivery);
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ error: "Failed to replay webhook delivery" });
+    }
+  });
+
+  // Ticket changes pushed by a tracker (status transitions, new comments).
+  // Deliveries are authenticated by their signature instead of a session,
+  // over the raw body kept by the middleware in index.ts.
+  app.post("/api/webhooks/:system", async (req: Request, res: Response) => {
+    try {
+      const tracker = trackerRouter.forSystem(req.params.system);
+      
+      if (!tracker?.verifyWebhook || !tracker.parseWebhook) {
+        return res.status(404).json({ error: "No webhook for this tracker" });
+      }
+      
+      const request = { headers: req.headers, rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0) };
+      if (!tracker.verifyWebhook(request)) {
+        return res.status(401).json({ error: "Invalid webhook signature" });
+      }
+      
+      const outcome = await trackerWebhooks.receive(tracker, request);
+      res.json({ outcome });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Webhook payload is not valid JSON" });
+      }
+      
+      console.error("Error handling tracker webhook:", error);
+      res.status(500).json({ error: "Failed to handle webhook" });
+    }
+  });
+
+  // Resumable uploads for large attachments. A client creates an upload,
+  // PATCHes chunks at Upload-Offset and, after a dropped connection, asks for
+  // the offset to continue from. Finished uploads are then referenced by ID
+  // in the stagedUploads field of POST /api/issues.
+  app.post("/api/uploads", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const input = stagedUploadSchema.parse(req.body);
+      const status = await stagedUploads.create(req.user!.id, input);
+      
+      res.status(201).json(status);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      if (error instanceof StagedUploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      
+      console.error("Error creating upload:", error);
+      res.status(500).json({ error: "Failed to create upload" });
+    }
+  });
+
+  app.get("/api/uploads/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const status = await stagedUploads.status(req.params.id, req.user!.id);
+      
+      res.set("Cache-Control", "no-store");
+      res.set("Upload-Offset", String(status.offset));
+      res.set("Upload-Length", String(status.size));
+      res.json(status);
+    } catch (error) {
+      if (error instanceof StagedUploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ error: "Failed to fetch upload" });
+    }
+  });
+
+  // Body is the raw chunk; "Upload-Checksum: sha256 <base64>" is optional
+  app.patch(
+    "/api/uploads/:id",
+    requireAuth,
+    express.raw({ type: "application/offset+octet-stream", limit: maxChunkSize }),
+    async (req: Request, res: Response) => {
+      try {
+        const offset = Number(req.get("Upload-Offset"));
+        if (!Number.isInteger(offset) || offset < 0) {
+          return res.status(400).json({ error: "Upload-Offset header is required" });
+        }
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(415).json({ error: "Content-Type must be application/offset+octet-stream" });
+        }
+        
+        const status = await stagedUploads.append(req.params.id, req.user!.id, offset, req.body, req.get("Upload-Checksum"));
+        
+        res.set("Upload-Offset", String(status.offset));
+        res.json(status);
+      } catch (error) {
+        if (error instanceof StagedUploadError) {
+          if (error.offset !== undefined) {
+            res.set("Upload-Offset", String(error.offset));
+          }
+          return res.status(error.status).json({ error: error.message, offset: error.offset });
+        }
+        
+        console.error("Error uploading chunk:", error);
+        res.status(500).json({ error: "Failed to upload chunk" });
+      }
+    },
+  );
+
+  app.delete("/api/uploads/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      await stagedUploads.remove(req.params.id, req.user!.id);
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof StagedUploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      
+      console.error("Error deleting upload:", error);
+      res.status(500).json({ error: "Failed to delete upload" });
+    }
+  });
+
+  // Stream an attachment by media ID, with Range support for seeking.
+  // ?size= picks a derived copy (falling back to the original) and
+  // ?download=1 asks the browser to save the file.
+  app.get("/api/media/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = mediaFileQuerySchema.parse(req.query);
+      const item = await storage.getMedia(parseInt(req.params.id));
+      
+      if (!item) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      
+      const issue = await storage.getIssue(item.issueId);
+      if (!issue || !canAccessIssue(req.user, issue)) {
+        return sendForbidden(res);
+      }
+      
+      await streamFile(req, res, {
+        ...mediaFile(item, query.size),
+        disposition: query.download === "1" || item.type === "file" ? "attachment" : "inline",
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error serving media:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to serve media" });
+      }
+    }
+  });
+
+  // Serve uploaded files by stored name; draft media is only reachable here
+  app.get("/uploads/:filename", requireAuth, async (req: Request, res: Response) => {
+    const filename = path.basename(req.params.filename);
+    const filePath = path.join(uploadDir, filename);
     
-    res.sendFile(filePath);
+    // Only serve attachments of issues the user may see, or of their own drafts
+    try {
+      const query = mediaFileQuerySchema.parse(req.query);
+      const disposition = query.download === "1" ? "attachment" : "inline";
+      
+      const mediaRow = await storage.getMediaByFilePath(filePath);
+      if (mediaRow) {
+        const issue = await storage.getIssue(mediaRow.issueId);
+        if (!issue || !canAccessIssue(req.user, issue)) {
+          return sendForbidden(res);
+        }
+        return await streamFile(req, res, { ...mediaFile(mediaRow, query.size), disposition });
+      }
+      
+      const draftMediaRow = await storage.getDraftMediaByFilePath(filePath);
+      const draft = draftMediaRow ? await storage.getDraft(draftMediaRow.draftId) : undefined;
+      if (!draftMediaRow || !draft || !canAccessDraft(req.user, draft)) {
+        return fs.existsSync(filePath) ? sendForbidden(res) : res.status(404).json({ error: "File not found" });
+      }
+      
+      await streamFile(req, res, {
+        filePath,
+        mimeType: draftMediaRow.mimeType,
+        filename: draftMediaRow.filename,
+        disposition,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      
+      console.error("Error serving file:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to serve file" });
+      }
+    }
   });
 
   const httpServer = createServer(app);
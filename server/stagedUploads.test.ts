@@ -0,0 +1,147 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// uploads.ts creates its directory under the working directory on import,
+// so the module is loaded from inside a temporary one
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "staged-uploads-test-"));
+const originalCwd = process.cwd();
+let StagedUploadStore: typeof import("./stagedUploads").StagedUploadStore;
+let StagedUploadError: typeof import("./stagedUploads").StagedUploadError;
+
+const owner = 1;
+const stranger = 2;
+const contents = Buffer.from("line one\nline two\nline three\n");
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("base64");
+}
+
+// Rejects with a StagedUploadError carrying the status and offset
+function rejectsWith(promise: Promise<unknown>, status: number, offset?: number) {
+  return assert.rejects(promise, (error) => {
+    assert.ok(error instanceof StagedUploadError);
+    assert.equal(error.status, status);
+    if (offset !== undefined) assert.equal(error.offset, offset);
+    return true;
+  });
+}
+
+describe("StagedUploadStore", () => {
+  let dir: string;
+  let store: InstanceType<typeof StagedUploadStore>;
+
+  before(async () => {
+    process.chdir(workDir);
+    ({ StagedUploadStore, StagedUploadError } = await import("./stagedUploads"));
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(workDir, "staging-"));
+    store = new StagedUploadStore(dir);
+  });
+
+  const create = (checksum?: string) =>
+    store.create(owner, { filename: "device.log", mimeType: "text/plain", size: contents.length, checksum });
+
+  it("accepts chunks in order and reports progress for resuming", async () => {
+    const upload = await create();
+    assert.equal(upload.offset, 0);
+    assert.equal(upload.complete, false);
+
+    await store.append(upload.id, owner, 0, contents.subarray(0, 10));
+    assert.equal((await store.status(upload.id, owner)).offset, 10);
+
+    const done = await store.append(upload.id, owner, 10, contents.subarray(10));
+    assert.equal(done.offset, contents.length);
+    assert.equal(done.complete, true);
+  });
+
+  it("refuses a chunk at the wrong offset and names the right one", async () => {
+    const upload = await create();
+    await store.append(upload.id, owner, 0, contents.subarray(0, 10));
+
+    await rejectsWith(store.append(upload.id, owner, 5, contents.subarray(5, 15)), 409, 10);
+    await rejectsWith(store.append(upload.id, owner, 20, contents.subarray(20)), 409, 10);
+    await rejectsWith(store.append(upload.id, owner, 10, Buffer.alloc(contents.length)), 400, 10);
+  });
+
+  it("discards bytes an interrupted write left past the recorded offset", async () => {
+    const upload = await create();
+    await store.append(upload.id, owner, 0, contents.subarray(0, 10));
+    // A dropped connection can leave part of the next chunk on disk
+    fs.appendFileSync(path.join(dir, `${upload.id}.part`), "garbage");
+
+    await store.append(upload.id, owner, 10, contents.subarray(10));
+    const file = await store.claim(upload.id, owner);
+    assert.deepEqual(fs.readFileSync(file.path), contents);
+  });
+
+  it("answers 460 to a chunk whose checksum does not match", async () => {
+    const upload = await create();
+    const chunk = contents.subarray(0, 10);
+
+    await rejectsWith(store.append(upload.id, owner, 0, chunk, `sha256 ${sha256(Buffer.from("other"))}`), 460, 0);
+    await rejectsWith(store.append(upload.id, owner, 0, chunk, "md5 abc"), 400);
+    assert.equal((await store.status(upload.id, owner)).offset, 0);
+
+    const accepted = await store.append(upload.id, owner, 0, chunk, `sha256 ${sha256(chunk)}`);
+    assert.equal(accepted.offset, 10);
+  });
+
+  it("restarts an upload whose whole-file checksum does not match", async () => {
+    const upload = await create(sha256(Buffer.from("something else")));
+    await store.append(upload.id, owner, 0, contents.subarray(0, 10));
+
+    await rejectsWith(store.append(upload.id, owner, 10, contents.subarray(10)), 460, 0);
+    assert.equal((await store.status(upload.id, owner)).offset, 0);
+    assert.equal(fs.statSync(path.join(dir, `${upload.id}.part`)).size, 0);
+
+    const verified = await create(sha256(contents));
+    assert.equal((await store.append(verified.id, owner, 0, contents)).complete, true);
+  });
+
+  it("removes an upload whose contents do not match its declared type", async () => {
+    const upload = await store.create(owner, { filename: "photo.png", mimeType: "image/png", size: contents.length });
+
+    await rejectsWith(store.append(upload.id, owner, 0, contents), 415);
+    await rejectsWith(store.status(upload.id, owner), 404);
+  });
+
+  it("keeps uploads to their owner", async () => {
+    const upload = await create();
+    await store.append(upload.id, owner, 0, contents);
+
+    await rejectsWith(store.status(upload.id, stranger), 404);
+    await rejectsWith(store.append(upload.id, stranger, contents.length, Buffer.alloc(0)), 404);
+    await rejectsWith(store.assertComplete([upload.id], stranger), 404);
+    await rejectsWith(store.claim(upload.id, stranger), 404);
+    await rejectsWith(store.remove(upload.id, stranger), 404);
+
+    await store.assertComplete([upload.id], owner);
+  });
+
+  it("claims only complete uploads, moving them out of staging", async () => {
+    const upload = await create();
+    await store.append(upload.id, owner, 0, contents.subarray(0, 10));
+
+    await rejectsWith(store.assertComplete([upload.id], owner), 400, 10);
+    await rejectsWith(store.claim(upload.id, owner), 400, 10);
+
+    await store.append(upload.id, owner, 10, contents.subarray(10));
+    const file = await store.claim(upload.id, owner);
+    assert.equal(file.originalname, "device.log");
+    assert.equal(file.mimetype, "text/plain");
+    assert.equal(path.dirname(file.path), path.join(workDir, "uploads"));
+    assert.deepEqual(fs.readFileSync(file.path), contents);
+    await rejectsWith(store.status(upload.id, owner), 404);
+  });
+});
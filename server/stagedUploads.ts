@@ -0,0 +1,272 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { NewStagedUpload, StagedUploadStatus } from "@shared/schema";
+import { uploadRejectionReason } from "@shared/uploadTypes";
+import { checkUploadType, readFileHead, sniffLength } from "./contentSniffing";
+import { storedFilename, uploadDir, type StoredFile } from "./uploads";
+import { log } from "./vite";
+
+export const maxStagedUploadSize = 2 * 1024 * 1024 * 1024; // 2GB
+export const maxChunkSize = 16 * 1024 * 1024; // 16MB per PATCH
+const expireAfterMs = 24 * 60 * 60 * 1000;
+
+// Upload in progress. Bytes live in <id>.part, this metadata in <id>.json.
+interface StagedUpload {
+  id: string;
+  userId: number;
+  filename: string;
+  mimeType: string;
+  size: number;
+  offset: number;
+  // Optional SHA-256 (base64) of the whole file, verified on completion
+  checksum: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Carries the HTTP status the route should answer with
+export class StagedUploadError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public offset?: number,
+  ) {
+    super(message);
+    this.name = "StagedUploadError";
+  }
+}
+
+const idPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("base64");
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("base64");
+}
+
+// Resumable uploads staged on disk: clients create an upload, send it in
+// chunks at explicit offsets (each optionally checksummed, tus-style
+// "Upload-Checksum: sha256 <base64>"), and can ask for the current offset to
+// resume after a dropped connection. Finished uploads are claimed by an issue.
+export class StagedUploadStore {
+  private busy = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async create(userId: number, input: NewStagedUpload): Promise<StagedUploadStatus> {
+    const rejection = uploadRejectionReason(input.filename, input.mimeType);
+    if (rejection) {
+      throw new StagedUploadError(415, rejection);
+    }
+    if (input.size > maxStagedUploadSize) {
+      throw new StagedUploadError(413, "File is too large");
+    }
+
+    const now = new Date().toISOString();
+    const upload: StagedUpload = {
+      id: crypto.randomUUID(),
+      userId,
+      filename: path.basename(input.filename),
+      mimeType: input.mimeType,
+      size: input.size,
+      offset: 0,
+      checksum: input.checksum ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.promises.writeFile(this.dataPath(upload.id), Buffer.alloc(0));
+    await this.save(upload);
+    return toStatus(upload);
+  }
+
+  // Only the user who started an upload can see or continue it
+  async status(id: string, userId: number): Promise<StagedUploadStatus> {
+    return toStatus(await this.load(id, userId));
+  }
+
+  async append(id: string, userId: number, offset: number, chunk: Buffer, chunkChecksum?: string): Promise<StagedUploadStatus> {
+    if (this.busy.has(id)) {
+      throw new StagedUploadError(409, "Another chunk of this upload is being written");
+    }
+    this.busy.add(id);
+
+    try {
+      const upload = await this.load(id, userId);
+
+      if (offset !== upload.offset) {
+        throw new StagedUploadError(409, "Upload offset does not match", upload.offset);
+      }
+      if (offset + chunk.length > upload.size) {
+        throw new StagedUploadError(400, "Chunk extends past the declared file size", upload.offset);
+      }
+      if (chunkChecksum !== undefined) {
+        const [algorithm, expected] = chunkChecksum.split(" ");
+        if (algorithm !== "sha256") {
+          throw new StagedUploadError(400, "Only sha256 chunk checksums are supported");
+        }
+        if (sha256(chunk) !== expected) {
+          throw new StagedUploadError(460, "Chunk checksum mismatch", upload.offset);
+        }
+      }
+
+      // Write at the offset and truncate, so bytes left by an interrupted
+      // write beyond the recorded offset are discarded
+      const handle = await fs.promises.open(this.dataPath(id), "r+");
+      try {
+        await handle.write(chunk, 0, chunk.length, offset);
+        await handle.truncate(offset + chunk.length);
+      } finally {
+        await handle.close();
+      }
+
+      upload.offset = offset + chunk.length;
+      upload.updatedAt = new Date().toISOString();
+
+      // Check the contents as soon as enough has arrived to identify them,
+      // rather than after a large upload has finished
+      const sniffAt = Math.min(upload.size, sniffLength);
+      if (offset < sniffAt && upload.offset >= sniffAt) {
+        const check = checkUploadType(await readFileHead(this.dataPath(id)), upload.filename, upload.mimeType);
+        if ("reason" in check) {
+          await this.delete(id);
+          throw new StagedUploadError(415, check.reason);
+        }
+        upload.mimeType = check.mimeType;
+      }
+
+      if (upload.offset === upload.size && upload.checksum) {
+        const actual = await sha256File(this.dataPath(id));
+        if (actual !== upload.checksum) {
+          // Start over rather than keep a corrupted file
+          upload.offset = 0;
+          await fs.promises.truncate(this.dataPath(id), 0);
+          await this.save(upload);
+          throw new StagedUploadError(460, "File checksum mismatch, upload restarted", 0);
+        }
+      }
+
+      await this.save(upload);
+      return toStatus(upload);
+    } finally {
+      this.busy.delete(id);
+    }
+  }
+
+  // Check that every upload is finished and belongs to the user
+  async assertComplete(ids: string[], userId: number): Promise<void> {
+    for (const id of ids) {
+      const upload = await this.load(id, userId);
+      if (upload.offset !== upload.size) {
+        throw new StagedUploadError(400, `Upload ${id} is not complete`, upload.offset);
+      }
+    }
+  }
+
+  // Move a finished upload into the uploads directory for use as an attachment
+  async claim(id: string, userId: number): Promise<StoredFile> {
+    const upload = await this.load(id, userId);
+    if (upload.offset !== upload.size) {
+      throw new StagedUploadError(400, `Upload ${id} is not complete`, upload.offset);
+    }
+
+    const filePath = path.join(uploadDir, storedFilename(upload.filename));
+    await fs.promises.rename(this.dataPath(id), filePath);
+    await fs.promises.rm(this.metaPath(id), { force: true });
+
+    return { originalname: upload.filename, path: filePath, mimetype: upload.mimeType, size: upload.size };
+  }
+
+  async remove(id: string, userId: number): Promise<void> {
+    await this.load(id, userId);
+    await this.delete(id);
+  }
+
+  // Periodically drop uploads nobody has touched for a day
+  start(intervalMs = 60 * 60 * 1000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweepExpired().catch((error) => console.error("Error cleaning staged uploads:", error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sweepExpired(now = Date.now()): Promise<void> {
+    const names = await fs.promises.readdir(this.dir);
+    for (const name of names.filter((file) => file.endsWith(".json"))) {
+      const id = name.slice(0, -".json".length);
+      const upload = await this.read(id);
+      if (upload && now - Date.parse(upload.updatedAt) > expireAfterMs) {
+        await this.delete(id);
+        log(`removed expired upload ${id}`, "uploads");
+      }
+    }
+  }
+
+  private async load(id: string, userId: number): Promise<StagedUpload> {
+    const upload = await this.read(id);
+    if (!upload || upload.userId !== userId) {
+      throw new StagedUploadError(404, "Upload not found");
+    }
+    return upload;
+  }
+
+  private async read(id: string): Promise<StagedUpload | undefined> {
+    if (!idPattern.test(id)) return undefined;
+    try {
+      return JSON.parse(await fs.promises.readFile(this.metaPath(id), "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Write then rename so a crash never leaves half-written metadata
+  private async save(upload: StagedUpload): Promise<void> {
+    const tempPath = `${this.metaPath(upload.id)}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(upload));
+    await fs.promises.rename(tempPath, this.metaPath(upload.id));
+  }
+
+  private async delete(id: string): Promise<void> {
+    await fs.promises.rm(this.dataPath(id), { force: true });
+    await fs.promises.rm(this.metaPath(id), { force: true });
+  }
+
+  private metaPath(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private dataPath(id: string) {
+    return path.join(this.dir, `${id}.part`);
+  }
+}
+
+function toStatus(upload: StagedUpload): StagedUploadStatus {
+  return {
+    id: upload.id,
+    filename: upload.filename,
+    mimeType: upload.mimeType,
+    size: upload.size,
+    offset: upload.offset,
+    complete: upload.offset === upload.size,
+  };
+}
+
+export const stagedUploads = new StagedUploadStore(path.join(uploadDir, "staging"));
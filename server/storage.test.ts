@@ -0,0 +1,218 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import pg from "pg";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { issueQuerySchema, type InsertIssue, type IssueQuery } from "@shared/schema";
+import type { IssueStatus } from "@shared/workflow";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { reportValues } from "./testing";
+
+// The ESM build of drizzle-kit/api cannot load under Node, the CommonJS one can
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// Runs DatabaseStorage against an in-process Postgres (PGlite) with the
+// schema drizzle-kit would push, so queries are checked by a real database
+async function createTestDatabase() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { client, db: drizzle(client, { schema }) };
+}
+
+describe("DatabaseStorage", () => {
+  let client: PGlite;
+  // The session store only connects once a session is used
+  const pool = new pg.Pool();
+  let storage: DatabaseStorage;
+
+  before(async () => {
+    const database = await createTestDatabase();
+    client = database.client;
+    storage = new DatabaseStorage(database.db, pool);
+  });
+
+  after(async () => {
+    await client.close();
+    await pool.end();
+  });
+
+  it("round-trips users and their role changes", async () => {
+    const user = await storage.createUser({ username: "dana", password: "hashed" });
+
+    assert.equal(user.role, "reporter");
+    assert.deepEqual(await storage.getUserByUsername("dana"), user);
+
+    const admin = await storage.updateUserRole(user.id, "admin");
+    assert.equal(admin?.role, "admin");
+    assert.equal((await storage.getUser(user.id))?.role, "admin");
+  });
+
+  it("round-trips issues and finds them by their tracker ticket", async () => {
+    const issue = await storage.createIssue(reportValues());
+
+    assert.equal(issue.status, "submitted");
+    assert.equal(issue.externalTicket, null);
+    assert.deepEqual(await storage.getIssue(issue.id), issue);
+
+    const ticket = { system: "jira", key: "SCAN-42", url: "https://jira.example.com/browse/SCAN-42" };
+    const updated = await storage.updateExternalTicket(issue.id, ticket);
+    assert.deepEqual(updated?.externalTicket, ticket);
+    assert.equal(updated?.syncStatus, "processed");
+
+    assert.equal((await storage.getIssueByExternalTicket("jira", "SCAN-42"))?.id, issue.id);
+    assert.equal(await storage.getIssueByExternalTicket("github", "SCAN-42"), undefined);
+  });
+
+  it("deletes an issue with its media and status history", async () => {
+    const issue = await storage.createIssue(reportValues());
+    await storage.createStatusHistory({ issueId: issue.id, fromStatus: null, toStatus: "submitted", changedByName: "Dana" });
+    await storage.createMedia({ issueId: issue.id, type: "photo", filename: "screenshot.png", filePath: "uploads/screenshot.png", mimeType: "image/png", fileSize: 13 });
+
+    assert.equal(await storage.deleteIssue(issue.id), true);
+    assert.equal(await storage.getIssue(issue.id), undefined);
+    assert.deepEqual(await storage.getMediaForIssue(issue.id), []);
+    assert.deepEqual(await storage.getStatusHistory(issue.id), []);
+    assert.equal(await storage.deleteIssue(issue.id), false);
+  });
+
+  it("round-trips comments and their tracker IDs", async () => {
+    const issue = await storage.createIssue(reportValues());
+    const comment = await storage.createComment({ issueId: issue.id, authorId: null, authorName: "Dana", body: "Still happens" });
+
+    assert.equal(comment.trackerCommentId, null);
+    assert.equal(comment.trackerSyncPending, false);
+
+    await storage.updateComment(comment.id, { trackerCommentId: "10001", trackerSyncPending: false });
+    assert.equal((await storage.getCommentByTrackerId(issue.id, "10001"))?.id, comment.id);
+    assert.deepEqual((await storage.getCommentsForIssue(issue.id)).map((item) => item.body), ["Still happens"]);
+
+    assert.equal(await storage.deleteComment(comment.id), true);
+    assert.equal(await storage.getComment(comment.id), undefined);
+  });
+
+  it("applies status changes only from the expected status", async () => {
+    const issue = await storage.createIssue(reportValues());
+
+    const triaged = await storage.changeIssueStatus({ issueId: issue.id, fromStatus: "submitted", toStatus: "triaged", changedByName: "Dana" });
+    assert.equal(triaged?.status, "triaged");
+
+    const stale = await storage.changeIssueStatus({ issueId: issue.id, fromStatus: "submitted", toStatus: "closed", changedByName: "Dana" });
+    assert.equal(stale, undefined);
+    assert.deepEqual((await storage.getStatusHistory(issue.id)).map((entry) => entry.toStatus), ["triaged"]);
+  });
+});
+
+describe("queryIssues parity", () => {
+  const createdAt = new Date("2024-05-01T10:00:00Z").getTime();
+
+  // Reports with ties on every sort key, filed `at` ms after createdAt
+  const reports: { values: Partial<InsertIssue>; status?: IssueStatus; at: number }[] = [
+    { values: { title: "Scanner freezes on startup", severity: "critical", productCategory: "pegasus", platform: "desktop" }, at: 0 },
+    { values: { title: "battery drains overnight", severity: "minor", productCategory: "mercury", platform: "mobile", reportedBy: "Sam" }, status: "triaged", at: 1000 },
+    { values: { title: "Battery icon missing", severity: "trivial", productCategory: "mercury", platform: "mobile", reportedBy: "Sam" }, at: 1000 },
+    { values: { title: "Export fails at 100% progress", description: "Stops at 100%", severity: "major", productCategory: "titanium", platform: "desktop" }, status: "triaged", at: 2000 },
+    { values: { title: "Export slow for 1000 items", severity: "major", productCategory: "titanium", platform: "web", reportedBy: "Lee" }, status: "in_progress", at: 3000 },
+    { values: { title: "Ärger with umlauts in names", severity: "blocker", productCategory: "pegasus", platform: "web", reportedBy: "Lee" }, at: 5000 },
+    { values: { title: "scanner freeze after update", severity: "blocker", productCategory: "pegasusX", platform: "desktop", reportedBy: "Sam" }, at: 5000 },
+    { values: { title: "Zoom resets", severity: "critical", productCategory: "antalya", platform: "mobile" }, status: "closed", at: 6000 },
+  ];
+
+  const queries: Record<string, unknown>[] = [
+    {},
+    { order: "asc" },
+    { sort: "title", order: "asc" },
+    { sort: "title" },
+    { sort: "severity" },
+    { sort: "severity", order: "asc" },
+    { sort: "status", order: "asc" },
+    { sort: "productCategory", order: "asc" },
+    { sort: "reportedBy" },
+    { severity: "blocker,critical" },
+    { productCategory: "mercury", platform: "mobile", sort: "title", order: "asc" },
+    { status: "triaged,in_progress" },
+    { reportedBy: "Sam", sort: "severity" },
+    // Both bounds are inclusive and fall exactly on reports
+    { createdFrom: new Date(createdAt + 2000).toISOString(), createdTo: new Date(createdAt + 5000).toISOString() },
+    { q: "FREEZE scanner" },
+    { q: "100%" },
+  ];
+
+  let client: PGlite;
+  const pool = new pg.Pool();
+  let database: DatabaseStorage;
+  let memory: MemStorage;
+
+  before(async () => {
+    const test = await createTestDatabase();
+    client = test.client;
+    database = new DatabaseStorage(test.db, pool);
+
+    // MemStorage stamps reports with Date.now()
+    mock.timers.enable({ apis: ["Date"], now: createdAt });
+    memory = new MemStorage();
+    let now = 0;
+    for (const report of reports) {
+      mock.timers.tick(report.at - now);
+      now = report.at;
+      for (const storage of [database, memory]) {
+        const issue = await storage.createIssue(reportValues(report.values));
+        if (report.status) {
+          await storage.changeIssueStatus({ issueId: issue.id, fromStatus: "submitted", toStatus: report.status, changedByName: "Dana" });
+        }
+      }
+    }
+    mock.timers.reset();
+
+    // Postgres keeps microseconds, which JS dates and cursors cannot carry
+    const filedAt = sql.join(reports.map((report, index) => sql`when ${index + 1} then ${report.at}::int`), sql` `);
+    await test.db.update(schema.issues).set({
+      createdAt: sql`${new Date(createdAt).toISOString()}::timestamp
+        + (case ${schema.issues.id} ${filedAt} end) * interval '1 millisecond'
+        + interval '456 microseconds'`,
+    });
+  });
+
+  after(async () => {
+    await client.close();
+    await pool.end();
+  });
+
+  // Every page of the query, three reports at a time, following nextCursor
+  async function pages(storage: IStorage, input: Record<string, unknown>) {
+    const ids: number[][] = [];
+    let total = 0;
+    let cursor: string | undefined;
+    do {
+      const query: IssueQuery = issueQuerySchema.parse({ ...input, limit: 3, cursor });
+      const result = await storage.queryIssues(query);
+      ids.push(result.items.map((issue) => issue.id));
+      total = result.total;
+      cursor = result.nextCursor ?? undefined;
+    } while (cursor && ids.length < reports.length);
+    return { total, ids };
+  }
+
+  for (const input of queries) {
+    it(`matches MemStorage for ${JSON.stringify(input)}`, async () => {
+      assert.deepEqual(await pages(database, input), await pages(memory, input));
+    });
+  }
+
+  it("sorts text by code point and breaks ties by ID", async () => {
+    assert.deepEqual(await pages(database, { sort: "title", order: "asc" }), {
+      total: 8,
+      ids: [[3, 4, 5], [1, 8, 2], [7, 6]],
+    });
+    assert.deepEqual(await pages(database, {}), {
+      total: 8,
+      ids: [[8, 7, 6], [5, 4, 3], [2, 1]],
+    });
+  });
+});
@@ -1,38 +1,175 @@
-import { issues, type Issue, type InsertIssue, media, type Media, type InsertMedia, users, type User, type InsertUser } from "@shared/schema";
+import { issues, type Issue, type InsertIssue, type ExternalTicket, type IssueQuery, type IssueQueryResult, media, type Media, type InsertMedia, users, type User, type InsertUser, type UserRole, defaultNotificationPreferences, ticketOutbox, type OutboxEntry, issueStatusHistory, type StatusHistoryEntry, type InsertStatusHistory, issueComments, type IssueComment, trackerWebhookDeliveries, webhookSubscriptions, type WebhookSubscription, webhookDeliveries, type WebhookDelivery, type WebhookPayload, type InsertComment, issueDrafts, type IssueDraft, type DraftBody, draftMedia, type DraftMedia, type InsertDraftMedia } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { createDb, type Database } from "./db";
+import {
+  compareIssues,
+  decodeCursor,
+  encodeCursor,
+  isAfterCursor,
+  matchesIssueQuery,
+  searchTerms,
+  severityRanks,
+  sortValue,
+} from "./issueQuery";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  createUser(user: InsertUser & { role?: UserRole }): Promise<User>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  updateUserSettings(id: number, updates: UserSettingsUpdate): Promise<User | undefined>;
   
   // Issue methods
   getIssue(id: number): Promise<Issue | undefined>;
   getIssues(): Promise<Issue[]>;
+  queryIssues(query: IssueQuery): Promise<IssueQueryResult>;
   createIssue(issue: InsertIssue): Promise<Issue>;
   updateIssue(id: number, updates: Partial<InsertIssue>): Promise<Issue | undefined>;
-  updateJiraTicketId(id: number, jiraTicketId: string): Promise<Issue | undefined>;
+  // Records the tracker ticket and marks the issue as processed
+  updateExternalTicket(id: number, externalTicket: ExternalTicket): Promise<Issue | undefined>;
+  updateSyncStatus(id: number, syncStatus: string): Promise<Issue | undefined>;
+  getIssueByExternalTicket(system: string, key: string): Promise<Issue | undefined>;
+  // Removes a report that could not be filed, with its media rows and status history
+  deleteIssue(id: number): Promise<boolean>;
+
+  // Status workflow methods
+  // Applies entry.toStatus only if the issue is still in entry.fromStatus
+  changeIssueStatus(entry: InsertStatusHistory): Promise<Issue | undefined>;
+  createStatusHistory(entry: InsertStatusHistory): Promise<StatusHistoryEntry>;
+  getStatusHistory(issueId: number): Promise<StatusHistoryEntry[]>;
   
   // Media methods
+  // Report attachments only; comment attachments are fetched per comment
   getMediaForIssue(issueId: number): Promise<Media[]>;
+  getMediaForComments(commentIds: number[]): Promise<Media[]>;
+  getMedia(id: number): Promise<Media | undefined>;
+  getMediaByFilePath(filePath: string): Promise<Media | undefined>;
   createMedia(media: InsertMedia): Promise<Media>;
+  // Videos waiting for the transcoder, oldest first
+  getMediaPendingProcessing(limit: number): Promise<Media[]>;
+  updateMediaProcessing(id: number, updates: MediaProcessingUpdate): Promise<Media | undefined>;
+  // Voice notes waiting for the transcriber, oldest first
+  getMediaPendingTranscription(limit: number): Promise<Media[]>;
+  updateMediaTranscription(id: number, updates: MediaTranscriptionUpdate): Promise<Media | undefined>;
+
+  // Comment methods
+  getComment(id: number): Promise<IssueComment | undefined>;
+  getCommentsForIssue(issueId: number): Promise<IssueComment[]>;
+  createComment(comment: InsertComment): Promise<IssueComment>;
+  updateComment(id: number, updates: CommentUpdate): Promise<IssueComment | undefined>;
+  getCommentByTrackerId(issueId: number, trackerCommentId: string): Promise<IssueComment | undefined>;
+  // Removes the comment together with its media rows
+  deleteComment(id: number): Promise<boolean>;
+
+  // Draft methods
+  getDraftsForUser(userId: number): Promise<IssueDraft[]>;
+  getDraft(id: number): Promise<IssueDraft | undefined>;
+  createDraft(userId: number, draft: DraftBody): Promise<IssueDraft>;
+  updateDraft(id: number, draft: DraftBody): Promise<IssueDraft | undefined>;
+  // Removes the draft together with its media rows
+  deleteDraft(id: number): Promise<boolean>;
+  getMediaForDrafts(draftIds: number[]): Promise<DraftMedia[]>;
+  getDraftMediaByFilePath(filePath: string): Promise<DraftMedia | undefined>;
+  createDraftMedia(media: InsertDraftMedia): Promise<DraftMedia>;
+  deleteDraftMedia(id: number): Promise<boolean>;
+
+  // Ticket outbox methods
+  createOutboxEntry(issueId: number): Promise<OutboxEntry>;
+  getOutboxEntry(id: number): Promise<OutboxEntry | undefined>;
+  getOutboxEntries(status?: string): Promise<OutboxEntry[]>;
+  getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]>;
+  updateOutboxEntry(id: number, updates: OutboxEntryUpdate): Promise<OutboxEntry | undefined>;
+
+  // Tracker webhook methods
+  // Returns false if the delivery was already claimed, i.e. it is a replay
+  claimWebhookDelivery(system: string, deliveryId: string, issueId: number): Promise<boolean>;
+  // Forgets a delivery that could not be applied, so a retry is processed
+  releaseWebhookDelivery(system: string, deliveryId: string): Promise<void>;
+
+  // Outbound webhook methods
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  // Removes the subscription together with its delivery log
+  deleteWebhookSubscription(id: number): Promise<boolean>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  // Most recent first
+  getWebhookDeliveries(subscriptionId: number, limit: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined>;
 }
 
+export type UserSettingsUpdate = Partial<Pick<User, "email" | "notificationPreferences">>;
+export type OutboxEntryUpdate = Partial<Pick<OutboxEntry, "status" | "attempts" | "nextAttemptAt" | "lastError" | "sentAt">>;
+export type MediaProcessingUpdate = Partial<Pick<Media, "processingStatus" | "processingError" | "renditionPath" | "posterPath" | "durationSeconds">>;
+export type MediaTranscriptionUpdate = Partial<Pick<Media, "transcription" | "transcriptionStatus" | "transcriptionError" | "transcriptionLanguage" | "transcriptionSegments">>;
+export type InsertWebhookSubscription = Pick<WebhookSubscription, "url" | "secret" | "events" | "description" | "active">;
+export type InsertWebhookDelivery = { subscriptionId: number; event: string; payload: WebhookPayload };
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "responseStatus" | "lastError" | "sentAt">>;
+export type CommentUpdate = Partial<Pick<IssueComment, "body" | "updatedAt" | "trackerCommentId" | "trackerSyncPending">>;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private issues: Map<number, Issue>;
   private medias: Map<number, Media>;
+  private outbox: Map<number, OutboxEntry>;
+  private statusHistory: Map<number, StatusHistoryEntry>;
+  private comments: Map<number, IssueComment>;
+  private drafts: Map<number, IssueDraft>;
+  private draftMedias: Map<number, DraftMedia>;
+  private trackerDeliveries: Set<string>;
+  private webhookSubscriptions: Map<number, WebhookSubscription>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
   private currentUserId: number;
   private currentIssueId: number;
   private currentMediaId: number;
+  private currentOutboxId: number;
+  private currentStatusHistoryId: number;
+  private currentCommentId: number;
+  private currentDraftId: number;
+  private currentDraftMediaId: number;
+  private currentWebhookSubscriptionId: number;
+  private currentWebhookDeliveryId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.issues = new Map();
     this.medias = new Map();
+    this.outbox = new Map();
+    this.statusHistory = new Map();
+    this.comments = new Map();
+    this.drafts = new Map();
+    this.draftMedias = new Map();
+    this.trackerDeliveries = new Set();
+    this.webhookSubscriptions = new Map();
+    this.webhookDeliveries = new Map();
     this.currentUserId = 1;
     this.currentIssueId = 1;
     this.currentMediaId = 1;
+    this.currentOutboxId = 1;
+    this.currentStatusHistoryId = 1;
+    this.currentCommentId = 1;
+    this.currentDraftId = 1;
+    this.currentDraftMediaId = 1;
+    this.currentWebhookSubscriptionId = 1;
+    this.currentWebhookDeliveryId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   // User methods
@@ -46,13 +183,41 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role ?? "reporter",
+      email: insertUser.email ?? null,
+      notificationPreferences: defaultNotificationPreferences,
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserSettings(id: number, updates: UserSettingsUpdate): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Issue methods
   async getIssue(id: number): Promise<Issue | undefined> {
     return this.issues.get(id);
@@ -62,6 +227,25 @@ export class MemStorage implements IStorage {
     return Array.from(this.issues.values());
   }
 
+  async queryIssues(query: IssueQuery): Promise<IssueQueryResult> {
+    const matching = Array.from(this.issues.values())
+      .filter((issue) => matchesIssueQuery(issue, query))
+      .sort((a, b) => compareIssues(a, b, query));
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const remaining = cursor
+      ? matching.filter((issue) => isAfterCursor(issue, cursor, query))
+      : matching;
+
+    const items = remaining.slice(0, query.limit);
+    const last = items[items.length - 1];
+    const nextCursor = remaining.length > query.limit && last
+      ? encodeCursor({ value: sortValue(last, query.sort), id: last.id })
+      : null;
+
+    return { items, total: matching.length, nextCursor };
+  }
+
   async createIssue(insertIssue: InsertIssue): Promise<Issue> {
     const id = this.currentIssueId++;
     const createdAt = new Date();
@@ -69,8 +253,10 @@ export class MemStorage implements IStorage {
       ...insertIssue, 
       id, 
       status: "submitted", 
+      syncStatus: null,
       createdAt,
-      jiraTicketId: null
+      externalTicket: null,
+      reporterId: insertIssue.reporterId ?? null
     };
     this.issues.set(id, issue);
     return issue;
@@ -85,29 +271,909 @@ export class MemStorage implements IStorage {
     return updatedIssue;
   }
 
-  async updateJiraTicketId(id: number, jiraTicketId: string): Promise<Issue | undefined> {
+  async updateExternalTicket(id: number, externalTicket: ExternalTicket): Promise<Issue | undefined> {
+    const issue = this.issues.get(id);
+    if (!issue) return undefined;
+    
+    const updatedIssue = { ...issue, externalTicket, syncStatus: "processed" };
+    this.issues.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async updateSyncStatus(id: number, syncStatus: string): Promise<Issue | undefined> {
     const issue = this.issues.get(id);
     if (!issue) return undefined;
     
-    const updatedIssue = { ...issue, jiraTicketId, status: "processed" };
+    const updatedIssue = { ...issue, syncStatus };
     this.issues.set(id, updatedIssue);
     return updatedIssue;
   }
 
+  async getIssueByExternalTicket(system: string, key: string): Promise<Issue | undefined> {
+    return Array.from(this.issues.values()).find(
+      (issue) => issue.externalTicket?.system === system && issue.externalTicket.key === key
+    );
+  }
+  async deleteIssue(id: number): Promise<boolean> {
+    Array.from(this.medias.values())
+      .filter((media) => media.issueId === id)
+      .forEach((media) => this.medias.delete(media.id));
+    Array.from(this.statusHistory.values())
+      .filter((entry) => entry.issueId === id)
+      .forEach((entry) => this.statusHistory.delete(entry.id));
+    return this.issues.delete(id);
+  }
+
+
+  // Status workflow methods
+  async changeIssueStatus(entry: InsertStatusHistory): Promise<Issue | undefined> {
+    const issue = this.issues.get(entry.issueId);
+    if (!issue || issue.status !== (entry.fromStatus ?? null)) return undefined;
+
+    const updatedIssue = { ...issue, status: entry.toStatus };
+    this.issues.set(issue.id, updatedIssue);
+    await this.createStatusHistory(entry);
+    return updatedIssue;
+  }
+
+  async createStatusHistory(entry: InsertStatusHistory): Promise<StatusHistoryEntry> {
+    const id = this.currentStatusHistoryId++;
+    const historyEntry: StatusHistoryEntry = {
+      id,
+      issueId: entry.issueId,
+      fromStatus: entry.fromStatus ?? null,
+      toStatus: entry.toStatus,
+      changedById: entry.changedById ?? null,
+      changedByName: entry.changedByName,
+      note: entry.note ?? null,
+      createdAt: new Date(),
+    };
+    this.statusHistory.set(id, historyEntry);
+    return historyEntry;
+  }
+
+  async getStatusHistory(issueId: number): Promise<StatusHistoryEntry[]> {
+    return Array.from(this.statusHistory.values()).filter(
+      (entry) => entry.issueId === issueId
+    );
+  }
+
   // Media methods
   async getMediaForIssue(issueId: number): Promise<Media[]> {
     return Array.from(this.medias.values()).filter(
-      (media) => media.issueId === issueId
+      (media) => media.issueId === issueId && media.commentId === null
+    );
+  }
+
+  async getMediaForComments(commentIds: number[]): Promise<Media[]> {
+    return Array.from(this.medias.values()).filter(
+      (media) => media.commentId !== null && commentIds.includes(media.commentId)
+    );
+  }
+
+  async getMedia(id: number): Promise<Media | undefined> {
+    return this.medias.get(id);
+  }
+
+  async getMediaByFilePath(filePath: string): Promise<Media | undefined> {
+    return Array.from(this.medias.values()).find(
+      (media) => media.filePath === filePath
     );
   }
 
   async createMedia(insertMedia: InsertMedia): Promise<Media> {
     const id = this.currentMediaId++;
     const createdAt = new Date();
-    const media: Media = { ...insertMedia, id, createdAt };
+    const media: Media = {
+      ...insertMedia,
+      commentId: insertMedia.commentId ?? null,
+      transcription: insertMedia.transcription ?? null,
+      transcriptionStatus: insertMedia.transcriptionStatus ?? null,
+      transcriptionError: insertMedia.transcriptionError ?? null,
+      transcriptionLanguage: insertMedia.transcriptionLanguage ?? null,
+      transcriptionSegments: insertMedia.transcriptionSegments ?? null,
+      thumbnailPath: insertMedia.thumbnailPath ?? null,
+      previewPath: insertMedia.previewPath ?? null,
+      processingStatus: insertMedia.processingStatus ?? null,
+      processingError: insertMedia.processingError ?? null,
+      renditionPath: insertMedia.renditionPath ?? null,
+      posterPath: insertMedia.posterPath ?? null,
+      durationSeconds: insertMedia.durationSeconds ?? null,
+      id,
+      createdAt,
+    };
     this.medias.set(id, media);
     return media;
   }
+
+  async getMediaPendingProcessing(limit: number): Promise<Media[]> {
+    return Array.from(this.medias.values())
+      .filter((media) => media.processingStatus === "pending")
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async updateMediaProcessing(id: number, updates: MediaProcessingUpdate): Promise<Media | undefined> {
+    const media = this.medias.get(id);
+    if (!media) return undefined;
+
+    const updated: Media = { ...media, ...updates };
+    this.medias.set(id, updated);
+    return updated;
+  }
+
+  async getMediaPendingTranscription(limit: number): Promise<Media[]> {
+    return Array.from(this.medias.values())
+      .filter((media) => media.transcriptionStatus === "pending")
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async updateMediaTranscription(id: number, updates: MediaTranscriptionUpdate): Promise<Media | undefined> {
+    const media = this.medias.get(id);
+    if (!media) return undefined;
+
+    const updated: Media = { ...media, ...updates };
+    this.medias.set(id, updated);
+    return updated;
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<IssueComment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async getCommentsForIssue(issueId: number): Promise<IssueComment[]> {
+    return Array.from(this.comments.values()).filter(
+      (comment) => comment.issueId === issueId
+    );
+  }
+
+  async createComment(insertComment: InsertComment): Promise<IssueComment> {
+    const id = this.currentCommentId++;
+    const comment: IssueComment = {
+      ...insertComment,
+      id,
+      authorId: insertComment.authorId ?? null,
+      trackerCommentId: null,
+      trackerSyncPending: false,
+      createdAt: new Date(),
+      updatedAt: null,
+    };
+    this.comments.set(id, comment);
+    return comment;
+  }
+
+  async updateComment(id: number, updates: CommentUpdate): Promise<IssueComment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    const updatedComment = { ...comment, ...updates };
+    this.comments.set(id, updatedComment);
+    return updatedComment;
+  }
+
+  async getCommentByTrackerId(issueId: number, trackerCommentId: string): Promise<IssueComment | undefined> {
+    return Array.from(this.comments.values()).find(
+      (comment) => comment.issueId === issueId && comment.trackerCommentId === trackerCommentId
+    );
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    Array.from(this.medias.values())
+      .filter((media) => media.commentId === id)
+      .forEach((media) => this.medias.delete(media.id));
+    return this.comments.delete(id);
+  }
+
+  // Draft methods
+  async getDraftsForUser(userId: number): Promise<IssueDraft[]> {
+    return Array.from(this.drafts.values())
+      .filter((draft) => draft.userId === userId)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0) || b.id - a.id);
+  }
+
+  async getDraft(id: number): Promise<IssueDraft | undefined> {
+    return this.drafts.get(id);
+  }
+
+  async createDraft(userId: number, body: DraftBody): Promise<IssueDraft> {
+    const id = this.currentDraftId++;
+    const now = new Date();
+    const draft: IssueDraft = { ...body, id, userId, createdAt: now, updatedAt: now };
+    this.drafts.set(id, draft);
+    return draft;
+  }
+
+  async updateDraft(id: number, body: DraftBody): Promise<IssueDraft | undefined> {
+    const draft = this.drafts.get(id);
+    if (!draft) return undefined;
+
+    const updatedDraft = { ...draft, ...body, updatedAt: new Date() };
+    this.drafts.set(id, updatedDraft);
+    return updatedDraft;
+  }
+
+  async deleteDraft(id: number): Promise<boolean> {
+    Array.from(this.draftMedias.values())
+      .filter((media) => media.draftId === id)
+      .forEach((media) => this.draftMedias.delete(media.id));
+    return this.drafts.delete(id);
+  }
+
+  async getMediaForDrafts(draftIds: number[]): Promise<DraftMedia[]> {
+    return Array.from(this.draftMedias.values()).filter(
+      (media) => draftIds.includes(media.draftId)
+    );
+  }
+
+  async getDraftMediaByFilePath(filePath: string): Promise<DraftMedia | undefined> {
+    return Array.from(this.draftMedias.values()).find(
+      (media) => media.filePath === filePath
+    );
+  }
+
+  async createDraftMedia(insertMedia: InsertDraftMedia): Promise<DraftMedia> {
+    const id = this.currentDraftMediaId++;
+    const media: DraftMedia = {
+      ...insertMedia,
+      id,
+      duration: insertMedia.duration ?? null,
+      createdAt: new Date(),
+    };
+    this.draftMedias.set(id, media);
+    return media;
+  }
+
+  async deleteDraftMedia(id: number): Promise<boolean> {
+    return this.draftMedias.delete(id);
+  }
+
+  // Ticket outbox methods
+  async createOutboxEntry(issueId: number): Promise<OutboxEntry> {
+    const id = this.currentOutboxId++;
+    const now = new Date();
+    const entry: OutboxEntry = {
+      id,
+      issueId,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+      sentAt: null,
+      createdAt: now,
+    };
+    this.outbox.set(id, entry);
+    return entry;
+  }
+
+  async getOutboxEntry(id: number): Promise<OutboxEntry | undefined> {
+    return this.outbox.get(id);
+  }
+
+  async getOutboxEntries(status?: string): Promise<OutboxEntry[]> {
+    return Array.from(this.outbox.values()).filter(
+      (entry) => !status || entry.status === status
+    );
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]> {
+    return Array.from(this.outbox.values())
+      .filter((entry) => entry.status === "pending" && entry.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateOutboxEntry(id: number, updates: OutboxEntryUpdate): Promise<OutboxEntry | undefined> {
+    const entry = this.outbox.get(id);
+    if (!entry) return undefined;
+
+    const updatedEntry = { ...entry, ...updates };
+    this.outbox.set(id, updatedEntry);
+    return updatedEntry;
+  }
+
+  // Tracker webhook methods
+  async claimWebhookDelivery(system: string, deliveryId: string, _issueId: number): Promise<boolean> {
+    const key = `${system}:${deliveryId}`;
+    if (this.trackerDeliveries.has(key)) return false;
+    this.trackerDeliveries.add(key);
+    return true;
+  }
+
+  async releaseWebhookDelivery(system: string, deliveryId: string): Promise<void> {
+    this.trackerDeliveries.delete(`${system}:${deliveryId}`);
+  }
+
+  // Outbound webhook methods
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values());
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptions.get(id);
+  }
+
+  async createWebhookSubscription(insertSubscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const id = this.currentWebhookSubscriptionId++;
+    const subscription: WebhookSubscription = { ...insertSubscription, id, createdAt: new Date() };
+    this.webhookSubscriptions.set(id, subscription);
+    return subscription;
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const subscription = this.webhookSubscriptions.get(id);
+    if (!subscription) return undefined;
+
+    const updatedSubscription = { ...subscription, ...updates };
+    this.webhookSubscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<boolean> {
+    Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.subscriptionId === id)
+      .forEach((delivery) => this.webhookDeliveries.delete(delivery.id));
+    return this.webhookSubscriptions.delete(id);
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.currentWebhookDeliveryId++;
+    const now = new Date();
+    const delivery: WebhookDelivery = {
+      ...insertDelivery,
+      id,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      responseStatus: null,
+      lastError: null,
+      sentAt: null,
+      createdAt: now,
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.subscriptionId === subscriptionId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateWebhookDelivery(id: number, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updatedDelivery = { ...delivery, ...updates };
+    this.webhookDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserSettings(id: number, updates: UserSettingsUpdate): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) return this.getUser(id);
+
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Issue methods
+  async getIssue(id: number): Promise<Issue | undefined> {
+    const [issue] = await this.db.select().from(issues).where(eq(issues.id, id));
+    return issue;
+  }
+
+  async getIssues(): Promise<Issue[]> {
+    return this.db.select().from(issues).orderBy(issues.id);
+  }
+
+  async queryIssues(query: IssueQuery): Promise<IssueQueryResult> {
+    const filters = issueQueryFilters(query);
+    const sortExpr = issueSortExpression(query);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const conditions = [...filters];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      const value = query.sort === "createdAt"
+        ? sql`${new Date(cursor.value).toISOString()}::timestamp`
+        : sql`${cursor.value}`;
+      const comparator = query.order === "asc" ? sql`>` : sql`<`;
+      conditions.push(
+        sql`(${sortExpr} ${comparator} ${value} or (${sortExpr} = ${value} and ${issues.id} ${comparator} ${cursor.id}))`,
+      );
+    }
+
+    const rows = await this.db
+      .select()
+      .from(issues)
+      .where(and(...conditions))
+      .orderBy(direction(sortExpr), direction(issues.id))
+      .limit(query.limit + 1);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(issues)
+      .where(and(...filters));
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    const nextCursor = rows.length > query.limit && last
+      ? encodeCursor({ value: sortValue(last, query.sort), id: last.id })
+      : null;
+
+    return { items, total, nextCursor };
+  }
+
+  async createIssue(insertIssue: InsertIssue): Promise<Issue> {
+    const [issue] = await this.db
+      .insert(issues)
+      .values({ ...insertIssue, status: "submitted" })
+      .returning();
+    return issue;
+  }
+
+  async updateIssue(id: number, updates: Partial<InsertIssue>): Promise<Issue | undefined> {
+    if (Object.keys(updates).length === 0) return this.getIssue(id);
+
+    const [issue] = await this.db
+      .update(issues)
+      .set(updates)
+      .where(eq(issues.id, id))
+      .returning();
+    return issue;
+  }
+
+  async updateExternalTicket(id: number, externalTicket: ExternalTicket): Promise<Issue | undefined> {
+    const [issue] = await this.db
+      .update(issues)
+      .set({ externalTicket, syncStatus: "processed" })
+      .where(eq(issues.id, id))
+      .returning();
+    return issue;
+  }
+
+  async updateSyncStatus(id: number, syncStatus: string): Promise<Issue | undefined> {
+    const [issue] = await this.db
+      .update(issues)
+      .set({ syncStatus })
+      .where(eq(issues.id, id))
+      .returning();
+    return issue;
+  }
+
+  async getIssueByExternalTicket(system: string, key: string): Promise<Issue | undefined> {
+    const [issue] = await this.db
+      .select()
+      .from(issues)
+      .where(sql`${issues.externalTicket}->>'system' = ${system} and ${issues.externalTicket}->>'key' = ${key}`);
+    return issue;
+  }
+  async deleteIssue(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(media).where(eq(media.issueId, id));
+      await tx.delete(issueStatusHistory).where(eq(issueStatusHistory.issueId, id));
+      const deleted = await tx.delete(issues).where(eq(issues.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+
+  // Status workflow methods
+  async changeIssueStatus(entry: InsertStatusHistory): Promise<Issue | undefined> {
+    return this.db.transaction(async (tx) => {
+      const currentStatus = entry.fromStatus
+        ? eq(issues.status, entry.fromStatus)
+        : isNull(issues.status);
+      const [issue] = await tx
+        .update(issues)
+        .set({ status: entry.toStatus })
+        .where(and(eq(issues.id, entry.issueId), currentStatus))
+        .returning();
+      if (!issue) return undefined;
+
+      await tx.insert(issueStatusHistory).values(entry);
+      return issue;
+    });
+  }
+
+  async createStatusHistory(entry: InsertStatusHistory): Promise<StatusHistoryEntry> {
+    const [row] = await this.db.insert(issueStatusHistory).values(entry).returning();
+    return row;
+  }
+
+  async getStatusHistory(issueId: number): Promise<StatusHistoryEntry[]> {
+    return this.db
+      .select()
+      .from(issueStatusHistory)
+      .where(eq(issueStatusHistory.issueId, issueId))
+      .orderBy(issueStatusHistory.id);
+  }
+
+  // Media methods
+  async getMediaForIssue(issueId: number): Promise<Media[]> {
+    return this.db
+      .select()
+      .from(media)
+      .where(and(eq(media.issueId, issueId), isNull(media.commentId)))
+      .orderBy(media.id);
+  }
+
+  async getMediaForComments(commentIds: number[]): Promise<Media[]> {
+    if (commentIds.length === 0) return [];
+    return this.db.select().from(media).where(inArray(media.commentId, commentIds)).orderBy(media.id);
+  }
+
+  async getMedia(id: number): Promise<Media | undefined> {
+    const [row] = await this.db.select().from(media).where(eq(media.id, id));
+    return row;
+  }
+
+  async getMediaByFilePath(filePath: string): Promise<Media | undefined> {
+    const [row] = await this.db.select().from(media).where(eq(media.filePath, filePath));
+    return row;
+  }
+
+  async createMedia(insertMedia: InsertMedia): Promise<Media> {
+    const [row] = await this.db.insert(media).values(insertMedia).returning();
+    return row;
+  }
+
+  async getMediaPendingProcessing(limit: number): Promise<Media[]> {
+    return this.db
+      .select()
+      .from(media)
+      .where(eq(media.processingStatus, "pending"))
+      .orderBy(asc(media.id))
+      .limit(limit);
+  }
+
+  async updateMediaProcessing(id: number, updates: MediaProcessingUpdate): Promise<Media | undefined> {
+    const [row] = await this.db.update(media).set(updates).where(eq(media.id, id)).returning();
+    return row;
+  }
+
+  async getMediaPendingTranscription(limit: number): Promise<Media[]> {
+    return this.db
+      .select()
+      .from(media)
+      .where(eq(media.transcriptionStatus, "pending"))
+      .orderBy(asc(media.id))
+      .limit(limit);
+  }
+
+  async updateMediaTranscription(id: number, updates: MediaTranscriptionUpdate): Promise<Media | undefined> {
+    const [row] = await this.db.update(media).set(updates).where(eq(media.id, id)).returning();
+    return row;
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<IssueComment | undefined> {
+    const [comment] = await this.db.select().from(issueComments).where(eq(issueComments.id, id));
+    return comment;
+  }
+
+  async getCommentsForIssue(issueId: number): Promise<IssueComment[]> {
+    return this.db
+      .select()
+      .from(issueComments)
+      .where(eq(issueComments.issueId, issueId))
+      .orderBy(issueComments.id);
+  }
+
+  async createComment(insertComment: InsertComment): Promise<IssueComment> {
+    const [comment] = await this.db.insert(issueComments).values(insertComment).returning();
+    return comment;
+  }
+
+  async updateComment(id: number, updates: CommentUpdate): Promise<IssueComment | undefined> {
+    const [comment] = await this.db
+      .update(issueComments)
+      .set(updates)
+      .where(eq(issueComments.id, id))
+      .returning();
+    return comment;
+  }
+
+  async getCommentByTrackerId(issueId: number, trackerCommentId: string): Promise<IssueComment | undefined> {
+    const [comment] = await this.db
+      .select()
+      .from(issueComments)
+      .where(and(eq(issueComments.issueId, issueId), eq(issueComments.trackerCommentId, trackerCommentId)));
+    return comment;
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(media).where(eq(media.commentId, id));
+      const deleted = await tx.delete(issueComments).where(eq(issueComments.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Draft methods
+  async getDraftsForUser(userId: number): Promise<IssueDraft[]> {
+    return this.db
+      .select()
+      .from(issueDrafts)
+      .where(eq(issueDrafts.userId, userId))
+      .orderBy(desc(issueDrafts.updatedAt), desc(issueDrafts.id));
+  }
+
+  async getDraft(id: number): Promise<IssueDraft | undefined> {
+    const [draft] = await this.db.select().from(issueDrafts).where(eq(issueDrafts.id, id));
+    return draft;
+  }
+
+  async createDraft(userId: number, body: DraftBody): Promise<IssueDraft> {
+    const [draft] = await this.db.insert(issueDrafts).values({ ...body, userId }).returning();
+    return draft;
+  }
+
+  async updateDraft(id: number, body: DraftBody): Promise<IssueDraft | undefined> {
+    const [draft] = await this.db
+      .update(issueDrafts)
+      .set({ ...body, updatedAt: new Date() })
+      .where(eq(issueDrafts.id, id))
+      .returning();
+    return draft;
+  }
+
+  async deleteDraft(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(draftMedia).where(eq(draftMedia.draftId, id));
+      const deleted = await tx.delete(issueDrafts).where(eq(issueDrafts.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getMediaForDrafts(draftIds: number[]): Promise<DraftMedia[]> {
+    if (draftIds.length === 0) return [];
+    return this.db.select().from(draftMedia).where(inArray(draftMedia.draftId, draftIds)).orderBy(draftMedia.id);
+  }
+
+  async getDraftMediaByFilePath(filePath: string): Promise<DraftMedia | undefined> {
+    const [row] = await this.db.select().from(draftMedia).where(eq(draftMedia.filePath, filePath));
+    return row;
+  }
+
+  async createDraftMedia(insertMedia: InsertDraftMedia): Promise<DraftMedia> {
+    const [row] = await this.db.insert(draftMedia).values(insertMedia).returning();
+    return row;
+  }
+
+  async deleteDraftMedia(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(draftMedia).where(eq(draftMedia.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Ticket outbox methods
+  async createOutboxEntry(issueId: number): Promise<OutboxEntry> {
+    const [entry] = await this.db.insert(ticketOutbox).values({ issueId }).returning();
+    return entry;
+  }
+
+  async getOutboxEntry(id: number): Promise<OutboxEntry | undefined> {
+    const [entry] = await this.db.select().from(ticketOutbox).where(eq(ticketOutbox.id, id));
+    return entry;
+  }
+
+  async getOutboxEntries(status?: string): Promise<OutboxEntry[]> {
+    return this.db
+      .select()
+      .from(ticketOutbox)
+      .where(status ? eq(ticketOutbox.status, status) : undefined)
+      .orderBy(ticketOutbox.id);
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]> {
+    return this.db
+      .select()
+      .from(ticketOutbox)
+      .where(and(eq(ticketOutbox.status, "pending"), lte(ticketOutbox.nextAttemptAt, now)))
+      .orderBy(asc(ticketOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateOutboxEntry(id: number, updates: OutboxEntryUpdate): Promise<OutboxEntry | undefined> {
+    const [entry] = await this.db
+      .update(ticketOutbox)
+      .set(updates)
+      .where(eq(ticketOutbox.id, id))
+      .returning();
+    return entry;
+  }
+
+  // Tracker webhook methods
+  async claimWebhookDelivery(system: string, deliveryId: string, issueId: number): Promise<boolean> {
+    const claimed = await this.db
+      .insert(trackerWebhookDeliveries)
+      .values({ system, deliveryId, issueId })
+      .onConflictDoNothing()
+      .returning();
+    return claimed.length > 0;
+  }
+
+  async releaseWebhookDelivery(system: string, deliveryId: string): Promise<void> {
+    await this.db
+      .delete(trackerWebhookDeliveries)
+      .where(and(eq(trackerWebhookDeliveries.system, system), eq(trackerWebhookDeliveries.deliveryId, deliveryId)));
+  }
+
+  // Outbound webhook methods
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.db.select().from(webhookSubscriptions).orderBy(webhookSubscriptions.id);
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await this.db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+
+  async createWebhookSubscription(insertSubscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const [subscription] = await this.db.insert(webhookSubscriptions).values(insertSubscription).returning();
+    return subscription;
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    if (Object.keys(updates).length === 0) return this.getWebhookSubscription(id);
+
+    const [subscription] = await this.db
+      .update(webhookSubscriptions)
+      .set(updates)
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+      const deleted = await tx.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateWebhookDelivery(id: number, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+}
+
+// Escape LIKE wildcards so search terms match literally
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// JS dates only carry milliseconds, so compare creation times at that precision
+const createdAtMilliseconds = sql`date_trunc('milliseconds', ${issues.createdAt})`;
+
+function issueQueryFilters(query: IssueQuery): SQL[] {
+  const filters: SQL[] = [];
+  if (query.severity?.length) filters.push(inArray(issues.severity, query.severity));
+  if (query.productCategory?.length) filters.push(inArray(issues.productCategory, query.productCategory));
+  if (query.platform?.length) filters.push(inArray(issues.platform, query.platform));
+  if (query.status?.length) filters.push(inArray(issues.status, query.status));
+  if (query.reportedBy) filters.push(eq(issues.reportedBy, query.reportedBy));
+  if (query.reporterId !== undefined) filters.push(eq(issues.reporterId, query.reporterId));
+  if (query.createdFrom) filters.push(gte(createdAtMilliseconds, query.createdFrom));
+  if (query.createdTo) filters.push(lte(createdAtMilliseconds, query.createdTo));
+
+  for (const term of searchTerms(query.q)) {
+    const pattern = likePattern(term);
+    filters.push(or(
+      ilike(issues.title, pattern),
+      ilike(issues.description, pattern),
+      ilike(issues.actualBehavior, pattern),
+      ilike(issues.reproductionSteps, pattern),
+    )!);
+  }
+
+  return filters;
+}
+
+// Sort keys mirror sortValue() in issueQuery.ts
+function issueSortExpression(query: IssueQuery): SQL {
+  switch (query.sort) {
+    case "createdAt":
+      return createdAtMilliseconds;
+    case "severity":
+      return sql`(case ${issues.severity} ${sql.join(
+        Object.entries(severityRanks).map(([severity, rank]) => sql`when ${severity} then ${rank}::int`),
+        sql` `,
+      )} else 0 end)`;
+    default:
+      return sql`coalesce(${issues[query.sort]}, '') collate "C"`;
+  }
+}
+
+// Use Postgres when DATABASE_URL is configured; otherwise fall back to the
+// in-memory store (handy for local development and tests).
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl || process.env.STORAGE_DRIVER === "memory") {
+    return new MemStorage();
+  }
+
+  const { db, pool } = createDb(databaseUrl);
+  return new DatabaseStorage(db, pool);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
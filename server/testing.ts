@@ -0,0 +1,22 @@
+import type { InsertIssue } from "@shared/schema";
+
+// Fixtures shared by the server tests
+
+// The fields of a submitted report form
+export function reportValues(overrides: Partial<InsertIssue> = {}): InsertIssue {
+  return {
+    title: "Scanner freezes on startup",
+    description: "The scanner hangs at the splash screen",
+    platform: "desktop",
+    productCategory: "pegasus",
+    severity: "critical",
+    frequency: "always",
+    reproducible: "yes",
+    reproductionSteps: "1. Start the scanner",
+    actualBehavior: "Nothing happens",
+    softwareVersion: "2.4.1",
+    osVersion: "14.2",
+    reportedBy: "Dana",
+    ...overrides,
+  };
+}
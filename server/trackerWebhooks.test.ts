@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, it, mock, type Mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import type { Issue } from "@shared/schema";
+import { MemStorage } from "./storage";
+import type { IssueTrackerAdapter, TrackerTicket, TrackerWebhookEvent, TrackerWebhookRequest } from "./trackers";
+import { headerValue, hmacSignatureMatches, parseWebhookPayload, secretsEqual } from "./trackers/webhooks";
+import { webhookRequest } from "./trackers/testing";
+import { WebhookDispatcher } from "./webhookDispatcher";
+import { Notifier } from "./notifier";
+import { TrackerWebhookReceiver } from "./trackerWebhooks";
+import { reportValues } from "./testing";
+
+const secret = "webhook-secret";
+
+// Receives deliveries whose body is the event itself, verified by an HMAC
+// signature like GitHub and Jira or by a shared token like GitLab
+class StubTracker implements IssueTrackerAdapter {
+  readonly system = "stub";
+
+  constructor(private verification: "hmac" | "token" = "hmac") {}
+
+  async createTicket(): Promise<TrackerTicket> {
+    throw new Error("Not used by these tests");
+  }
+
+  verifyWebhook(request: TrackerWebhookRequest): boolean {
+    return this.verification === "hmac"
+      ? hmacSignatureMatches(secret, request, headerValue(request, "X-Stub-Signature"))
+      : secretsEqual(secret, headerValue(request, "X-Stub-Token"));
+  }
+
+  parseWebhook(request: TrackerWebhookRequest): TrackerWebhookEvent | null {
+    return parseWebhookPayload<TrackerWebhookEvent | null>(request);
+  }
+}
+
+function signature(body: Buffer, key = secret): string {
+  return `sha256=${createHmac("sha256", key).update(body).digest("hex")}`;
+}
+
+describe("TrackerWebhookReceiver", () => {
+  const tracker = new StubTracker();
+  let storage: MemStorage;
+  let emit: Mock<WebhookDispatcher["emit"]>;
+  let receiver: TrackerWebhookReceiver;
+  let issue: Issue;
+
+  const statusEvent = (deliveryId?: string): TrackerWebhookEvent => ({
+    ticketKey: "STUB-1",
+    deliveryId,
+    actorName: "Sam",
+    status: { remote: "Done", local: "resolved" },
+  });
+  const commentEvent = (id: string, body: string, deliveryId?: string): TrackerWebhookEvent => ({
+    ticketKey: "STUB-1",
+    deliveryId,
+    actorName: "Sam",
+    comment: { id, body, authorName: "Sam" },
+  });
+  const receive = (event: TrackerWebhookEvent | null) => receiver.receive(tracker, webhookRequest(event));
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    const events = new WebhookDispatcher(storage);
+    emit = mock.method(events, "emit", () => {});
+    const notifier = new Notifier(storage, null);
+    mock.method(notifier, "statusChanged", () => {});
+    mock.method(notifier, "commentAdded", () => {});
+    receiver = new TrackerWebhookReceiver(storage, events, notifier);
+
+    issue = await storage.createIssue(reportValues());
+    await storage.updateExternalTicket(issue.id, { system: "stub", key: "STUB-1", url: null });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("moves the issue to the mapped status and records who changed it", async () => {
+    assert.equal(await receive(statusEvent("delivery-1")), "applied");
+
+    assert.equal((await storage.getIssue(issue.id))?.status, "resolved");
+    const [entry] = await storage.getStatusHistory(issue.id);
+    assert.equal(entry.toStatus, "resolved");
+    assert.equal(entry.changedByName, "Sam (stub)");
+    assert.equal(entry.note, "stub status: Done");
+    assert.deepEqual(emit.mock.calls.map((call) => call.arguments[0]), ["issue.status_changed"]);
+  });
+
+  it("ignores events it does not act on and tickets it does not know", async () => {
+    assert.equal(await receive(null), "ignored");
+    assert.equal(await receive({ ...statusEvent("delivery-1"), ticketKey: "STUB-2" }), "ignored");
+    assert.equal((await storage.getIssue(issue.id))?.status, "submitted");
+  });
+
+  it("recognises a replay by its delivery ID", async () => {
+    assert.equal(await receive(commentEvent("c1", "Looking into it", "delivery-1")), "applied");
+    // A redelivery carries the same ID even if the payload was rebuilt
+    assert.equal(await receive(commentEvent("c2", "Looking into it again", "delivery-1")), "duplicate");
+    assert.equal(await receive(commentEvent("c2", "Looking into it again", "delivery-2")), "applied");
+
+    assert.deepEqual((await storage.getCommentsForIssue(issue.id)).map((comment) => comment.trackerCommentId), ["c1", "c2"]);
+  });
+
+  it("recognises a replay without a delivery ID by its body", async () => {
+    assert.equal(await receive(commentEvent("c1", "Looking into it")), "applied");
+    assert.equal(await receive(commentEvent("c1", "Looking into it")), "duplicate");
+    assert.equal(await receive(commentEvent("c2", "Fixed in 2.4.2")), "applied");
+
+    assert.equal((await storage.getCommentsForIssue(issue.id)).length, 2);
+  });
+
+  it("releases the delivery when applying it fails, so a retry goes through", async () => {
+    mock.method(storage, "changeIssueStatus", async () => {
+      throw new Error("Database unavailable");
+    }, { times: 1 });
+
+    await assert.rejects(receive(statusEvent("delivery-1")), /Database unavailable/);
+    assert.equal(await receive(statusEvent("delivery-1")), "applied");
+    assert.equal((await storage.getIssue(issue.id))?.status, "resolved");
+  });
+
+  it("adds remote comments to the thread once", async () => {
+    assert.equal(await receive(commentEvent("c1", "Looking into it", "delivery-1")), "applied");
+    // The same comment reported again by another event
+    assert.equal(await receive(commentEvent("c1", "Looking into it", "delivery-2")), "applied");
+
+    const comments = await storage.getCommentsForIssue(issue.id);
+    assert.equal(comments.length, 1);
+    assert.equal(comments[0].authorName, "Sam (stub)");
+    assert.equal(comments[0].body, "Looking into it");
+    assert.equal(comments[0].trackerCommentId, "c1");
+    assert.deepEqual(emit.mock.calls.map((call) => call.arguments[0]), ["comment.created"]);
+  });
+
+  it("claims the echo of a comment still being posted instead of adding it again", async () => {
+    const local = await storage.createComment({ issueId: issue.id, authorId: null, authorName: "Dana", body: "Happens on 2.4.1 too" });
+    await storage.updateComment(local.id, { trackerSyncPending: true });
+
+    const echo = "Happens on 2.4.1 too\n\n_Comment by Dana_";
+    assert.equal(await receive(commentEvent("c1", echo, "delivery-1")), "applied");
+
+    const comments = await storage.getCommentsForIssue(issue.id);
+    assert.equal(comments.length, 1);
+    assert.equal(comments[0].trackerCommentId, "c1");
+    assert.equal(emit.mock.callCount(), 0);
+  });
+
+  it("does not claim a comment that is not being posted", async () => {
+    await storage.createComment({ issueId: issue.id, authorId: null, authorName: "Dana", body: "Happens on 2.4.1 too" });
+
+    await receive(commentEvent("c1", "Happens on 2.4.1 too\n\n_Comment by Dana_", "delivery-1"));
+
+    const comments = await storage.getCommentsForIssue(issue.id);
+    assert.deepEqual(comments.map((comment) => comment.trackerCommentId), [null, "c1"]);
+  });
+});
+
+describe("webhook verification", () => {
+  const body = Buffer.from(JSON.stringify({ ticketKey: "STUB-1" }));
+  const request = (headers: Record<string, string>, rawBody = body): TrackerWebhookRequest => ({ headers, rawBody });
+
+  const cases: { name: string; tracker: StubTracker; request: TrackerWebhookRequest; verified: boolean }[] = [
+    { name: "a valid signature", tracker: new StubTracker(), request: request({ "x-stub-signature": signature(body) }), verified: true },
+    { name: "a signature made with another secret", tracker: new StubTracker(), request: request({ "x-stub-signature": signature(body, "guess") }), verified: false },
+    {
+      name: "a signature over another body",
+      tracker: new StubTracker(),
+      request: request({ "x-stub-signature": signature(body) }, Buffer.from(JSON.stringify({ ticketKey: "STUB-2" }))),
+      verified: false,
+    },
+    {
+      name: "a signature without its algorithm",
+      tracker: new StubTracker(),
+      request: request({ "x-stub-signature": signature(body).slice("sha256=".length) }),
+      verified: false,
+    },
+    { name: "a missing signature", tracker: new StubTracker(), request: request({}), verified: false },
+    { name: "the shared token", tracker: new StubTracker("token"), request: request({ "x-stub-token": secret }), verified: true },
+    { name: "a wrong token", tracker: new StubTracker("token"), request: request({ "x-stub-token": "webhook-secreT" }), verified: false },
+    { name: "a token prefix", tracker: new StubTracker("token"), request: request({ "x-stub-token": "webhook" }), verified: false },
+    { name: "a missing token", tracker: new StubTracker("token"), request: request({}), verified: false },
+  ];
+
+  for (const testCase of cases) {
+    it(`${testCase.verified ? "accepts" : "rejects"} ${testCase.name}`, () => {
+      assert.equal(testCase.tracker.verifyWebhook(testCase.request), testCase.verified);
+    });
+  }
+});
@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import type { Issue } from "@shared/schema";
+import { labelFor, trackerSystemLabels } from "@shared/labels";
+import type { IssueStatus } from "@shared/workflow";
+import { storage, type IStorage } from "./storage";
+import type { IssueTrackerAdapter, TrackerWebhookEvent, TrackerWebhookRequest } from "./trackers";
+import { webhookDispatcher, type WebhookDispatcher } from "./webhookDispatcher";
+import { notifier, type Notifier } from "./notifier";
+import { log } from "./vite";
+
+export type WebhookOutcome = "applied" | "duplicate" | "ignored";
+
+// Status changes are retried this often when a triager changes the status
+// at the same moment
+const maxStatusAttempts = 3;
+
+// Applies ticket changes reported by tracker webhooks to the linked issue:
+// remote workflow states move the issue status, and remote comments are
+// added to its thread. The tracker is the authority once a ticket exists,
+// so remote changes skip the local transition rules.
+export class TrackerWebhookReceiver {
+  constructor(
+    private storage: IStorage,
+    private events: WebhookDispatcher,
+    private notifier: Notifier,
+  ) {}
+
+  // The caller verifies the delivery's signature first
+  async receive(tracker: IssueTrackerAdapter, request: TrackerWebhookRequest): Promise<WebhookOutcome> {
+    const event = tracker.parseWebhook?.(request);
+    if (!event) return "ignored";
+
+    const issue = await this.storage.getIssueByExternalTicket(tracker.system, event.ticketKey);
+    if (!issue) return "ignored";
+
+    const deliveryId = event.deliveryId ?? createHash("sha256").update(request.rawBody).digest("hex");
+    if (!(await this.storage.claimWebhookDelivery(tracker.system, deliveryId, issue.id))) {
+      return "duplicate";
+    }
+
+    try {
+      await this.apply(tracker.system, issue, event);
+    } catch (error) {
+      await this.storage.releaseWebhookDelivery(tracker.system, deliveryId);
+      throw error;
+    }
+    return "applied";
+  }
+
+  private async apply(system: string, issue: Issue, event: TrackerWebhookEvent) {
+    const trackerName = labelFor(trackerSystemLabels, system);
+
+    if (event.status?.local) {
+      await this.changeStatus(issue, event.status.local, {
+        changedByName: `${event.actorName} (${trackerName})`,
+        note: `${trackerName} status: ${event.status.remote}`,
+      });
+    } else if (event.status) {
+      log(`no mapping for ${trackerName} status "${event.status.remote}" of issue ${issue.id}`, "webhooks");
+    }
+
+    // Comments mirrored from here come back through the webhook as well, and
+    // are recognised by the tracker comment ID stored when they were posted
+    if (event.comment && !(await this.storage.getCommentByTrackerId(issue.id, event.comment.id)) &&
+        !(await this.claimEcho(issue.id, event.comment))) {
+      const comment = await this.storage.createComment({
+        issueId: issue.id,
+        authorId: null,
+        authorName: `${event.comment.authorName} (${trackerName})`,
+        body: event.comment.body,
+      });
+      const recorded = await this.storage.updateComment(comment.id, { trackerCommentId: event.comment.id });
+      this.events.emit("comment.created", { issueId: issue.id, comment: recorded ?? comment });
+      this.notifier.commentAdded(issue, recorded ?? comment);
+    }
+  }
+
+  // A comment still being posted from here has no tracker comment ID yet, so
+  // its echo is matched on the body and the author credit the tracker
+  // adapters append, and the ID is recorded on it
+  private async claimEcho(issueId: number, remote: { id: string; body: string }): Promise<boolean> {
+    const comments = await this.storage.getCommentsForIssue(issueId);
+    const echo = comments.find((comment) =>
+      comment.trackerSyncPending && !comment.trackerCommentId &&
+      remote.body.includes(comment.body) && remote.body.includes(`Comment by ${comment.authorName}`));
+    if (!echo) return false;
+
+    await this.storage.updateComment(echo.id, { trackerCommentId: remote.id });
+    return true;
+  }
+
+  private async changeStatus(issue: Issue, status: IssueStatus, entry: { changedByName: string; note: string }) {
+    let current = issue;
+    for (let attempt = 0; attempt < maxStatusAttempts; attempt++) {
+      if (current.status === status) return;
+
+      const changed = await this.storage.changeIssueStatus({
+        issueId: current.id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedById: null,
+        ...entry,
+      });
+      if (changed) {
+        this.events.emit("issue.status_changed", {
+          issue: changed,
+          fromStatus: current.status,
+          toStatus: status,
+          changedBy: entry.changedByName,
+          note: entry.note,
+        });
+        this.notifier.statusChanged(changed, {
+          fromStatus: current.status,
+          toStatus: status,
+          changedById: null,
+          ...entry,
+        });
+        return;
+      }
+
+      const reloaded = await this.storage.getIssue(issue.id);
+      if (!reloaded) return;
+      current = reloaded;
+    }
+    throw new Error(`Could not change the status of issue ${issue.id} to ${status}`);
+  }
+}
+
+export const trackerWebhooks = new TrackerWebhookReceiver(storage, webhookDispatcher, notifier);
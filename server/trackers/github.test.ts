@@ -0,0 +1,89 @@
+import { after, afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { GitHubAdapter } from "./github";
+import { issueFixture, jsonResponse, mediaFixture, mockFetch, removeMediaFixtures, webhookRequest } from "./testing";
+
+const config = { repository: "acme/scanner", token: "token", appBaseUrl: "https://bugs.example.com/" };
+
+describe("GitHubAdapter", () => {
+  afterEach(() => mock.restoreAll());
+  after(removeMediaFixtures);
+
+  describe("createTicket", () => {
+    it("creates the issue with labels and links to the attachments", async () => {
+      const fetch = mockFetch(jsonResponse({ number: 12, html_url: "https://github.com/acme/scanner/issues/12" }, 201));
+      const adapter = new GitHubAdapter(config);
+
+      const ticket = await adapter.createTicket(issueFixture(), [mediaFixture()]);
+
+      assert.deepEqual(ticket, { key: "12", url: "https://github.com/acme/scanner/issues/12" });
+      const [url, init] = fetch.mock.calls[0].arguments as [string, RequestInit];
+      assert.equal(url, "https://api.github.com/repos/acme/scanner/issues");
+      assert.equal((init.headers as Record<string, string>).Authorization, "Bearer token");
+      const body = JSON.parse(init.body as string);
+      assert.equal(body.title, "Scanner freezes on startup");
+      assert.deepEqual(body.labels, ["severity: Critical", "product: Pegasus"]);
+      assert.match(body.body, /- \[screenshot\.png\]\(https:\/\/bugs\.example\.com\/api\/media\/3\?download=1\)/);
+    });
+
+    it("throws when the issue cannot be created", async () => {
+      mockFetch(new Response("Bad credentials", { status: 401 }));
+      const adapter = new GitHubAdapter(config);
+
+      await assert.rejects(adapter.createTicket(issueFixture(), []), /401/);
+    });
+  });
+
+  describe("parseWebhook", () => {
+    const closed = (stateReason: string | null) => webhookRequest({
+      action: "closed",
+      sender: { login: "sam" },
+      repository: { full_name: "Acme/Scanner" },
+      issue: { number: 12, state_reason: stateReason },
+    }, { "x-github-event": "issues", "x-github-delivery": "delivery-1" });
+
+    it("maps closed and reopened issues by their state reason", () => {
+      const adapter = new GitHubAdapter(config);
+
+      assert.deepEqual(adapter.parseWebhook(closed("not_planned")), {
+        ticketKey: "12",
+        deliveryId: "delivery-1",
+        actorName: "sam",
+        status: { remote: "not_planned", local: "wont_fix" },
+      });
+      assert.deepEqual(adapter.parseWebhook(closed(null))?.status, { remote: "completed", local: "resolved" });
+
+      const reopened = adapter.parseWebhook(webhookRequest({
+        action: "reopened",
+        repository: { full_name: "acme/scanner" },
+        issue: { number: 12 },
+      }, { "x-github-event": "issues" }));
+      assert.deepEqual(reopened?.status, { remote: "open", local: "triaged" });
+    });
+
+    it("ignores other repositories and pull requests", () => {
+      const adapter = new GitHubAdapter({ ...config, repository: "acme/firmware" });
+      assert.equal(adapter.parseWebhook(closed("completed")), null);
+
+      const pullRequest = webhookRequest({
+        action: "created",
+        repository: { full_name: "acme/scanner" },
+        issue: { number: 13, pull_request: {} },
+        comment: { id: 1, body: "LGTM" },
+      }, { "x-github-event": "issue_comment" });
+      assert.equal(new GitHubAdapter(config).parseWebhook(pullRequest), null);
+    });
+  });
+
+  describe("verifyWebhook", () => {
+    it("accepts only payloads signed with the webhook secret", () => {
+      const adapter = new GitHubAdapter({ ...config, webhookSecret: "secret" });
+      const request = webhookRequest({ action: "closed" });
+      const signature = createHmac("sha256", "secret").update(request.rawBody).digest("hex");
+
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-hub-signature-256": `sha256=${signature}` } }), true);
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-hub-signature-256": "sha256=0000" } }), false);
+    });
+  });
+});
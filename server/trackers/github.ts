@@ -0,0 +1,156 @@
+import type { Issue, IssueComment, Media } from "@shared/schema";
+import {
+  type IssueTrackerAdapter,
+  type TrackerComment,
+  type TrackerTicket,
+  type TrackerWebhookEvent,
+  type TrackerWebhookRequest,
+  TrackerRequestError,
+} from "./types";
+import { buildMarkdownComment, buildMarkdownDescription, issueLabels } from "./markdown";
+import { headerValue, hmacSignatureMatches, mapRemoteStatus, parseWebhookPayload, type StatusMap } from "./webhooks";
+
+export interface GitHubConfig {
+  // "owner/repo"
+  repository: string;
+  token: string;
+  // GitHub Enterprise Server uses https://<host>/api/v3
+  apiUrl?: string;
+  // Base URL of this application; attachments are linked from the ticket
+  // since the GitHub API cannot upload files to issues
+  appBaseUrl?: string;
+  // Secret configured on the repository webhook; inbound events are refused without it
+  webhookSecret?: string;
+  statusMap?: StatusMap;
+}
+
+// GitHub issues are open or closed with a reason; closed issues are keyed
+// by their state_reason
+export const defaultGitHubStatusMap: StatusMap = {
+  "open": "triaged",
+  "completed": "resolved",
+  "not_planned": "wont_fix",
+  "duplicate": "duplicate",
+};
+
+// The parts of the issues and issue_comment webhook payloads we read
+interface GitHubWebhookPayload {
+  action?: string;
+  sender?: { login?: string };
+  repository?: { full_name?: string };
+  issue?: { number?: number; state_reason?: string | null; pull_request?: unknown };
+  comment?: { id?: number; body?: string; user?: { login?: string } };
+}
+
+export class GitHubAdapter implements IssueTrackerAdapter {
+  readonly system = "github";
+  private apiUrl: string;
+  private statusMap: StatusMap;
+
+  constructor(private config: GitHubConfig) {
+    this.apiUrl = (config.apiUrl || "https://api.github.com").replace(/\/+$/, "");
+    this.statusMap = config.statusMap ?? defaultGitHubStatusMap;
+  }
+
+  async createTicket(issue: Issue, media: Media[]): Promise<TrackerTicket> {
+    const response = await this.request(`${this.repositoryPath()}/issues`, {
+      method: "POST",
+      body: JSON.stringify({
+        title: issue.title,
+        body: buildMarkdownDescription(issue, media, media.map((item) => this.attachmentLink(item))),
+        labels: issueLabels(issue),
+      }),
+    });
+    const created = (await response.json()) as { number: number; html_url: string };
+
+    return { key: String(created.number), url: created.html_url };
+  }
+
+  async addComment(ticketKey: string, comment: IssueComment, attachments: Media[]): Promise<TrackerComment> {
+    const response = await this.request(`${this.repositoryPath()}/issues/${encodeURIComponent(ticketKey)}/comments`, {
+      method: "POST",
+      body: JSON.stringify({
+        body: buildMarkdownComment(comment, attachments.map((item) => this.attachmentLink(item))),
+      }),
+    });
+    const created = (await response.json()) as { id: number };
+    return { id: String(created.id) };
+  }
+
+  async updateComment(_ticketKey: string, commentId: string, comment: IssueComment): Promise<void> {
+    await this.request(`${this.repositoryPath()}/issues/comments/${encodeURIComponent(commentId)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ body: buildMarkdownComment(comment, []) }),
+    });
+  }
+
+  async deleteComment(_ticketKey: string, commentId: string): Promise<void> {
+    await this.request(`${this.repositoryPath()}/issues/comments/${encodeURIComponent(commentId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  verifyWebhook(request: TrackerWebhookRequest): boolean {
+    if (!this.config.webhookSecret) return false;
+    return hmacSignatureMatches(this.config.webhookSecret, request, headerValue(request, "X-Hub-Signature-256"));
+  }
+
+  parseWebhook(request: TrackerWebhookRequest): TrackerWebhookEvent | null {
+    const payload = parseWebhookPayload<GitHubWebhookPayload>(request);
+    // Issue numbers are only unique within a repository, and pull requests share them
+    if (payload.repository?.full_name?.toLowerCase() !== this.config.repository.toLowerCase()) return null;
+    if (!payload.issue?.number || payload.issue.pull_request) return null;
+
+    const event: TrackerWebhookEvent = {
+      ticketKey: String(payload.issue.number),
+      deliveryId: headerValue(request, "X-GitHub-Delivery"),
+      actorName: payload.sender?.login ?? "GitHub",
+    };
+
+    const eventName = headerValue(request, "X-GitHub-Event");
+    if (eventName === "issues" && (payload.action === "closed" || payload.action === "reopened")) {
+      const remote = payload.action === "closed" ? payload.issue.state_reason || "completed" : "open";
+      event.status = { remote, local: mapRemoteStatus(this.statusMap, remote) };
+    } else if (eventName === "issue_comment" && payload.action === "created" && payload.comment?.id && payload.comment.body) {
+      event.comment = {
+        id: String(payload.comment.id),
+        body: payload.comment.body,
+        authorName: payload.comment.user?.login ?? event.actorName,
+      };
+    }
+
+    return event.status || event.comment ? event : null;
+  }
+
+  private attachmentLink(item: Media): string {
+    if (!this.config.appBaseUrl) {
+      return `- ${item.filename} (in the issue reporting system)`;
+    }
+    const url = `${this.config.appBaseUrl.replace(/\/+$/, "")}/api/media/${item.id}?download=1`;
+    return `- [${item.filename}](${url})`;
+  }
+
+  private repositoryPath(): string {
+    const [owner, repo] = this.config.repository.split("/");
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${this.config.token}`,
+        "Content-Type": "application/json",
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new TrackerRequestError(this.system, response.status, await response.text());
+    }
+
+    return response;
+  }
+}
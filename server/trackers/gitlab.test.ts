@@ -0,0 +1,94 @@
+import { after, afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GitLabAdapter } from "./gitlab";
+import { issueFixture, jsonResponse, mediaFixture, mockFetch, removeMediaFixtures, webhookRequest } from "./testing";
+
+const config = { project: "acme/scanner", token: "token", baseUrl: "https://gitlab.example.com/" };
+
+describe("GitLabAdapter", () => {
+  afterEach(() => mock.restoreAll());
+  after(removeMediaFixtures);
+
+  describe("createTicket", () => {
+    it("uploads attachments first and references them from the description", async () => {
+      const fetch = mockFetch(
+        jsonResponse({ markdown: "![screenshot.png](/uploads/abc/screenshot.png)" }, 201),
+        jsonResponse({ iid: 5, web_url: "https://gitlab.example.com/acme/scanner/-/issues/5" }, 201),
+      );
+      const adapter = new GitLabAdapter(config);
+
+      const ticket = await adapter.createTicket(issueFixture(), [mediaFixture()]);
+
+      assert.deepEqual(ticket, { key: "5", url: "https://gitlab.example.com/acme/scanner/-/issues/5" });
+      const [uploadUrl, uploadInit] = fetch.mock.calls[0].arguments as [string, RequestInit];
+      assert.equal(uploadUrl, "https://gitlab.example.com/api/v4/projects/acme%2Fscanner/uploads");
+      assert.equal((uploadInit.headers as Record<string, string>)["PRIVATE-TOKEN"], "token");
+
+      const [createUrl, createInit] = fetch.mock.calls[1].arguments as [string, RequestInit];
+      assert.equal(createUrl, "https://gitlab.example.com/api/v4/projects/acme%2Fscanner/issues");
+      const body = JSON.parse(createInit.body as string);
+      assert.equal(body.labels, "severity: Critical,product: Pegasus");
+      assert.match(body.description, /- !\[screenshot\.png\]\(\/uploads\/abc\/screenshot\.png\)/);
+    });
+
+    it("creates no issue when an attachment upload fails", async () => {
+      const fetch = mockFetch(new Response("File is too big", { status: 413 }));
+      const adapter = new GitLabAdapter(config);
+
+      await assert.rejects(adapter.createTicket(issueFixture(), [mediaFixture()]), /413/);
+      assert.equal(fetch.mock.callCount(), 1);
+    });
+  });
+
+  describe("parseWebhook", () => {
+    const issueEvent = (action: string, state: string, project = { id: 42, path_with_namespace: "acme/scanner" }) => webhookRequest({
+      object_kind: "issue",
+      user: { name: "Sam" },
+      project,
+      object_attributes: { iid: 5, action, state },
+    }, { "idempotency-key": "delivery-1" });
+
+    it("maps closed and reopened issues", () => {
+      const adapter = new GitLabAdapter(config);
+
+      assert.deepEqual(adapter.parseWebhook(issueEvent("close", "closed")), {
+        ticketKey: "5",
+        deliveryId: "delivery-1",
+        actorName: "Sam",
+        status: { remote: "closed", local: "resolved" },
+      });
+      assert.deepEqual(adapter.parseWebhook(issueEvent("reopen", "opened"))?.status, { remote: "opened", local: "triaged" });
+      assert.equal(adapter.parseWebhook(issueEvent("update", "opened")), null);
+    });
+
+    it("matches the project by ID or path", () => {
+      assert.notEqual(new GitLabAdapter({ ...config, project: "42" }).parseWebhook(issueEvent("close", "closed")), null);
+      assert.equal(new GitLabAdapter(config).parseWebhook(issueEvent("close", "closed", { id: 43, path_with_namespace: "acme/firmware" })), null);
+    });
+
+    it("reads discussion notes and skips system notes", () => {
+      const adapter = new GitLabAdapter(config);
+      const note = (system: boolean) => webhookRequest({
+        object_kind: "note",
+        user: { name: "Sam" },
+        project: { id: 42, path_with_namespace: "acme/scanner" },
+        object_attributes: { id: 900, note: "Fixed in 2.4.2", noteable_type: "Issue", system },
+        issue: { iid: 5 },
+      });
+
+      assert.deepEqual(adapter.parseWebhook(note(false))?.comment, { id: "900", body: "Fixed in 2.4.2", authorName: "Sam" });
+      assert.equal(adapter.parseWebhook(note(true)), null);
+    });
+  });
+
+  describe("verifyWebhook", () => {
+    it("compares the secret token header", () => {
+      const adapter = new GitLabAdapter({ ...config, webhookSecret: "secret" });
+      const request = webhookRequest({ object_kind: "issue" });
+
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-gitlab-token": "secret" } }), true);
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-gitlab-token": "guess" } }), false);
+      assert.equal(adapter.verifyWebhook(request), false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import fs from "fs";
+import type { Issue, IssueComment, Media } from "@shared/schema";
+import {
+  type IssueTrackerAdapter,
+  type TrackerComment,
+  type TrackerTicket,
+  type TrackerWebhookEvent,
+  type TrackerWebhookRequest,
+  TrackerRequestError,
+} from "./types";
+import { buildMarkdownComment, buildMarkdownDescription, issueLabels } from "./markdown";
+import { headerValue, mapRemoteStatus, parseWebhookPayload, secretsEqual, type StatusMap } from "./webhooks";
+import { mediaFile } from "../mediaVariants";
+
+export interface GitLabConfig {
+  // Numeric project ID or full path, e.g. "group/project"
+  project: string;
+  token: string;
+  baseUrl?: string;
+  // Secret token configured on the project webhook; inbound events are refused without it
+  webhookSecret?: string;
+  statusMap?: StatusMap;
+}
+
+// GitLab issues are either opened or closed
+export const defaultGitLabStatusMap: StatusMap = {
+  "opened": "triaged",
+  "closed": "resolved",
+};
+
+// The parts of the issue and note webhook payloads we read
+interface GitLabWebhookPayload {
+  object_kind?: string;
+  user?: { name?: string };
+  project?: { id?: number; path_with_namespace?: string };
+  // Issue events carry the issue here, note events the note
+  object_attributes?: {
+    id?: number;
+    iid?: number;
+    action?: string;
+    state?: string;
+    note?: string;
+    noteable_type?: string;
+    system?: boolean;
+  };
+  issue?: { iid?: number };
+}
+
+export class GitLabAdapter implements IssueTrackerAdapter {
+  readonly system = "gitlab";
+  private baseUrl: string;
+  private statusMap: StatusMap;
+
+  constructor(private config: GitLabConfig) {
+    this.baseUrl = (config.baseUrl || "https://gitlab.com").replace(/\/+$/, "");
+    this.statusMap = config.statusMap ?? defaultGitLabStatusMap;
+  }
+
+  async createTicket(issue: Issue, media: Media[]): Promise<TrackerTicket> {
+    // Files are uploaded to the project first and referenced from the description
+    const attachments: string[] = [];
+    for (const item of media) {
+      attachments.push(`- ${await this.uploadAttachment(item)}`);
+    }
+
+    const response = await this.request(`${this.projectPath()}/issues`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: issue.title,
+        description: buildMarkdownDescription(issue, media, attachments),
+        labels: issueLabels(issue).join(","),
+      }),
+    });
+    const created = (await response.json()) as { iid: number; web_url: string };
+
+    return { key: String(created.iid), url: created.web_url };
+  }
+
+  async addComment(ticketKey: string, comment: IssueComment, attachments: Media[]): Promise<TrackerComment> {
+    const links: string[] = [];
+    for (const item of attachments) {
+      links.push(`- ${await this.uploadAttachment(item)}`);
+    }
+
+    const response = await this.request(this.notesPath(ticketKey), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: buildMarkdownComment(comment, links) }),
+    });
+    const created = (await response.json()) as { id: number };
+    return { id: String(created.id) };
+  }
+
+  async updateComment(ticketKey: string, commentId: string, comment: IssueComment): Promise<void> {
+    await this.request(`${this.notesPath(ticketKey)}/${encodeURIComponent(commentId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: buildMarkdownComment(comment, []) }),
+    });
+  }
+
+  async deleteComment(ticketKey: string, commentId: string): Promise<void> {
+    await this.request(`${this.notesPath(ticketKey)}/${encodeURIComponent(commentId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  // GitLab sends the secret token as is rather than signing the payload
+  verifyWebhook(request: TrackerWebhookRequest): boolean {
+    if (!this.config.webhookSecret) return false;
+    return secretsEqual(this.config.webhookSecret, headerValue(request, "X-Gitlab-Token"));
+  }
+
+  parseWebhook(request: TrackerWebhookRequest): TrackerWebhookEvent | null {
+    const payload = parseWebhookPayload<GitLabWebhookPayload>(request);
+    // Issue IIDs are only unique within a project
+    const project = this.config.project;
+    if (String(payload.project?.id) !== project && payload.project?.path_with_namespace !== project) return null;
+
+    const attributes = payload.object_attributes;
+    const actorName = payload.user?.name ?? "GitLab";
+    // Idempotency-Key stays the same when GitLab retries a delivery
+    const deliveryId = headerValue(request, "Idempotency-Key") ?? headerValue(request, "X-Gitlab-Event-UUID");
+
+    if (payload.object_kind === "issue" && attributes?.iid && attributes.state &&
+        (attributes.action === "close" || attributes.action === "reopen")) {
+      return {
+        ticketKey: String(attributes.iid),
+        deliveryId,
+        actorName,
+        status: { remote: attributes.state, local: mapRemoteStatus(this.statusMap, attributes.state) },
+      };
+    }
+
+    // System notes record changes such as label edits, not discussion
+    if (payload.object_kind === "note" && attributes?.noteable_type === "Issue" && !attributes.system &&
+        (attributes.action ?? "create") === "create" && payload.issue?.iid && attributes.id && attributes.note) {
+      return {
+        ticketKey: String(payload.issue.iid),
+        deliveryId,
+        actorName,
+        comment: { id: String(attributes.id), body: attributes.note, authorName: actorName },
+      };
+    }
+
+    return null;
+  }
+
+  // Returns the Markdown GitLab generates for the uploaded file
+  private async uploadAttachment(item: Media): Promise<string> {
+    // Videos go as their MP4 rendition when there is one
+    const source = mediaFile(item, "mp4");
+    const contents = await fs.promises.readFile(source.filePath);
+    const form = new FormData();
+    form.append("file", new Blob([contents], { type: source.mimeType }), source.filename);
+
+    const response = await this.request(`${this.projectPath()}/uploads`, {
+      method: "POST",
+      body: form,
+    });
+    const uploaded = (await response.json()) as { markdown: string };
+    return uploaded.markdown;
+  }
+
+  private projectPath(): string {
+    return `/api/v4/projects/${encodeURIComponent(this.config.project)}`;
+  }
+
+  private notesPath(issueIid: string): string {
+    return `${this.projectPath()}/issues/${encodeURIComponent(issueIid)}/notes`;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: "application/json",
+        "PRIVATE-TOKEN": this.config.token,
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new TrackerRequestError(this.system, response.status, await response.text());
+    }
+
+    return response;
+  }
+}
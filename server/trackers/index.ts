@@ -0,0 +1,84 @@
+import type { Issue } from "@shared/schema";
+import type { IssueTrackerAdapter, TrackerTicket } from "./types";
+import { defaultJiraStatusMap, JiraAdapter } from "./jira";
+import { defaultGitHubStatusMap, GitHubAdapter } from "./github";
+import { defaultGitLabStatusMap, GitLabAdapter } from "./gitlab";
+import { parseTrackerRoutes, TrackerRouter } from "./router";
+import { parseStatusMap } from "./webhooks";
+
+export * from "./types";
+export { JiraAdapter, type JiraConfig } from "./jira";
+export { GitHubAdapter, type GitHubConfig } from "./github";
+export { GitLabAdapter, type GitLabConfig } from "./gitlab";
+export { TrackerRouter, parseTrackerRoutes } from "./router";
+export { parseStatusMap, type StatusMap } from "./webhooks";
+
+// Used when no tracker is configured. Ticket keys are derived from the
+// issue ID so they are stable and never collide.
+export class LocalTrackerAdapter implements IssueTrackerAdapter {
+  readonly system = "local";
+
+  constructor(private prefix = "IRS") {}
+
+  async createTicket(issue: Issue): Promise<TrackerTicket> {
+    return { key: `${this.prefix}-${issue.id}` };
+  }
+}
+
+// Every tracker with credentials in the environment, plus the local one.
+// *_WEBHOOK_SECRET enables a tracker's inbound webhook, and *_STATUS_MAP
+// ("In Review=in_progress,Done=closed") adjusts how its workflow states
+// map onto ours.
+export function createIssueTrackers(env: NodeJS.ProcessEnv = process.env): IssueTrackerAdapter[] {
+  const trackers: IssueTrackerAdapter[] = [];
+
+  if (env.JIRA_BASE_URL && env.JIRA_PROJECT_KEY) {
+    trackers.push(new JiraAdapter({
+      baseUrl: env.JIRA_BASE_URL,
+      projectKey: env.JIRA_PROJECT_KEY,
+      issueType: env.JIRA_ISSUE_TYPE,
+      email: env.JIRA_EMAIL,
+      apiToken: env.JIRA_API_TOKEN,
+      personalAccessToken: env.JIRA_PAT,
+      webhookSecret: env.JIRA_WEBHOOK_SECRET,
+      statusMap: parseStatusMap(env.JIRA_STATUS_MAP, defaultJiraStatusMap),
+    }));
+  }
+
+  if (env.GITHUB_REPOSITORY && env.GITHUB_TOKEN) {
+    trackers.push(new GitHubAdapter({
+      repository: env.GITHUB_REPOSITORY,
+      token: env.GITHUB_TOKEN,
+      apiUrl: env.GITHUB_API_URL,
+      appBaseUrl: env.APP_BASE_URL,
+      webhookSecret: env.GITHUB_WEBHOOK_SECRET,
+      statusMap: parseStatusMap(env.GITHUB_STATUS_MAP, defaultGitHubStatusMap),
+    }));
+  }
+
+  if (env.GITLAB_PROJECT && env.GITLAB_TOKEN) {
+    trackers.push(new GitLabAdapter({
+      project: env.GITLAB_PROJECT,
+      token: env.GITLAB_TOKEN,
+      baseUrl: env.GITLAB_BASE_URL,
+      webhookSecret: env.GITLAB_WEBHOOK_SECRET,
+      statusMap: parseStatusMap(env.GITLAB_STATUS_MAP, defaultGitLabStatusMap),
+    }));
+  }
+
+  trackers.push(new LocalTrackerAdapter());
+  return trackers;
+}
+
+// TRACKER_ROUTES sends categories to specific trackers ("pegasus=github");
+// everything else goes to TRACKER_DEFAULT, or the first configured tracker
+export function createTrackerRouter(env: NodeJS.ProcessEnv = process.env): TrackerRouter {
+  const trackers = createIssueTrackers(env);
+  return new TrackerRouter(
+    trackers,
+    parseTrackerRoutes(env.TRACKER_ROUTES),
+    env.TRACKER_DEFAULT || trackers[0].system,
+  );
+}
+
+export const trackerRouter = createTrackerRouter();
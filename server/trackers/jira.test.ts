@@ -0,0 +1,157 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { JiraAdapter, defaultJiraStatusMap } from "./jira";
+import { parseStatusMap } from "./webhooks";
+import { TrackerStandIn, issueFixture, mediaFixture, recordedForm, removeMediaFixtures, webhookRequest } from "./testing";
+
+const config = { baseUrl: "https://jira.example.com/", projectKey: "SCAN", personalAccessToken: "pat" };
+
+describe("JiraAdapter", () => {
+  after(removeMediaFixtures);
+
+  describe("createTicket", () => {
+    const jira = new TrackerStandIn();
+    const adapter = () => new JiraAdapter({ ...config, baseUrl: `${jira.baseUrl}/` });
+
+    before(() => jira.start());
+    after(() => jira.close());
+
+    it("creates the issue and uploads each attachment", async () => {
+      jira.reply({ status: 201, body: { id: "10001", key: "SCAN-42" } }, { status: 200, body: [] });
+
+      const ticket = await adapter().createTicket(issueFixture(), [mediaFixture()]);
+
+      assert.deepEqual(ticket, { key: "SCAN-42", url: `${jira.baseUrl}/browse/SCAN-42`, failedAttachments: [] });
+      assert.equal(jira.requests.length, 2);
+
+      const [create, upload] = jira.requests;
+      assert.equal(create.method, "POST");
+      assert.equal(create.url, "/rest/api/2/issue");
+      assert.equal(create.headers.authorization, "Bearer pat");
+      assert.equal(create.headers["content-type"], "application/json");
+      const { fields } = JSON.parse(create.body.toString("utf8"));
+      assert.equal(fields.summary, "Scanner freezes on startup");
+      assert.deepEqual(fields.project, { key: "SCAN" });
+      assert.deepEqual(fields.priority, { name: "High" });
+      assert.deepEqual(fields.components, [{ name: "Pegasus" }]);
+      assert.deepEqual(fields.labels, ["platform-desktop-app"]);
+
+      assert.equal(upload.method, "POST");
+      assert.equal(upload.url, "/rest/api/2/issue/SCAN-42/attachments");
+      assert.equal(upload.headers["x-atlassian-token"], "no-check");
+      assert.equal(upload.headers.authorization, "Bearer pat");
+      assert.match(String(upload.headers["content-type"]), /^multipart\/form-data; boundary=/);
+      const file = (await recordedForm(upload)).get("file") as File;
+      assert.equal(file.name, "screenshot.png");
+      assert.equal(file.type, "image/png");
+      assert.equal(await file.text(), "file contents");
+    });
+
+    it("reports failed attachments instead of throwing once the issue exists", async () => {
+      jira.reply(
+        { status: 201, body: { id: "10001", key: "SCAN-42" } },
+        { status: 413, body: "Attachment too large" },
+        { status: 200, body: [] },
+      );
+
+      const ticket = await adapter().createTicket(issueFixture(), [
+        mediaFixture({ filename: "recording.webm", type: "video", mimeType: "video/webm" }),
+        mediaFixture(),
+      ]);
+
+      assert.equal(ticket.key, "SCAN-42");
+      assert.equal(ticket.failedAttachments?.length, 1);
+      assert.match(ticket.failedAttachments![0], /^recording\.webm: .*413.*Attachment too large/);
+      // The issue is created once, and the remaining attachment still goes up
+      assert.deepEqual(jira.requests.map((request) => request.url), [
+        "/rest/api/2/issue",
+        "/rest/api/2/issue/SCAN-42/attachments",
+        "/rest/api/2/issue/SCAN-42/attachments",
+      ]);
+    });
+
+    it("throws when the issue cannot be created", async () => {
+      jira.reply({ status: 400, body: "Field 'priority' is invalid" });
+
+      await assert.rejects(adapter().createTicket(issueFixture(), [mediaFixture()]), /400/);
+      assert.equal(jira.requests.length, 1);
+    });
+
+    it("quotes voice note transcripts with monospaced timestamps", () => {
+      const note = mediaFixture({
+        type: "audio",
+        filename: "note.webm",
+        transcription: "It froze again",
+        transcriptionLanguage: "en",
+        transcriptionSegments: [{ start: 65.4, end: 67, text: "It froze again" }],
+      });
+
+      const { description } = new JiraAdapter(config).buildFields(issueFixture(), [note]);
+
+      assert.match(description as string, /h3\. Voice Notes\n\*note\.webm\* \(language: en\)\n\{quote\}\{\{1:05\}\} It froze again\{quote\}/);
+    });
+  });
+
+  describe("parseWebhook", () => {
+    it("maps status changes with the default workflow", () => {
+      const adapter = new JiraAdapter(config);
+
+      const event = adapter.parseWebhook(webhookRequest({
+        webhookEvent: "jira:issue_updated",
+        user: { displayName: "Sam" },
+        issue: { key: "SCAN-42" },
+        changelog: { items: [{ field: "status", toString: "In Progress" }] },
+      }, { "x-atlassian-webhook-identifier": "delivery-1" }));
+
+      assert.deepEqual(event, {
+        ticketKey: "SCAN-42",
+        deliveryId: "delivery-1",
+        actorName: "Sam",
+        status: { remote: "In Progress", local: "in_progress" },
+      });
+    });
+
+    it("uses a configured status map and leaves unknown states unmapped", () => {
+      const adapter = new JiraAdapter({ ...config, statusMap: parseStatusMap("Won't Do=wont_fix", defaultJiraStatusMap) });
+      const statusChange = (status: string) => adapter.parseWebhook(webhookRequest({
+        webhookEvent: "jira:issue_updated",
+        issue: { key: "SCAN-42" },
+        changelog: { items: [{ field: "status", toString: status }] },
+      }))?.status;
+
+      assert.deepEqual(statusChange("Won't Do"), { remote: "Won't Do", local: "wont_fix" });
+      assert.deepEqual(statusChange("Done"), { remote: "Done", local: "resolved" });
+      assert.deepEqual(statusChange("Blocked"), { remote: "Blocked", local: null });
+    });
+
+    it("reads comments and ignores updates without a status change", () => {
+      const adapter = new JiraAdapter(config);
+
+      const event = adapter.parseWebhook(webhookRequest({
+        webhookEvent: "comment_created",
+        issue: { key: "SCAN-42" },
+        comment: { id: "20001", body: "Fixed in 2.4.2", author: { displayName: "Sam" } },
+      }));
+      assert.deepEqual(event?.comment, { id: "20001", body: "Fixed in 2.4.2", authorName: "Sam" });
+
+      assert.equal(adapter.parseWebhook(webhookRequest({
+        webhookEvent: "jira:issue_updated",
+        issue: { key: "SCAN-42" },
+        changelog: { items: [{ field: "assignee", toString: "Sam" }] },
+      })), null);
+    });
+  });
+
+  describe("verifyWebhook", () => {
+    it("accepts only payloads signed with the webhook secret", () => {
+      const adapter = new JiraAdapter({ ...config, webhookSecret: "secret" });
+      const request = webhookRequest({ webhookEvent: "comment_created" });
+      const signature = createHmac("sha256", "secret").update(request.rawBody).digest("hex");
+
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-hub-signature": `sha256=${signature}` } }), true);
+      assert.equal(adapter.verifyWebhook({ ...request, headers: { "x-hub-signature": "sha256=0000" } }), false);
+      assert.equal(new JiraAdapter(config).verifyWebhook({ ...request, headers: { "x-hub-signature": `sha256=${signature}` } }), false);
+    });
+  });
+});
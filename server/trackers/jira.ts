@@ -0,0 +1,280 @@
+import fs from "fs";
+import type { Issue, IssueComment, Media } from "@shared/schema";
+import {
+  type IssueTrackerAdapter,
+  type TrackerComment,
+  type TrackerTicket,
+  type TrackerWebhookEvent,
+  type TrackerWebhookRequest,
+  TrackerRequestError,
+} from "./types";
+import { headerValue, hmacSignatureMatches, mapRemoteStatus, parseWebhookPayload, type StatusMap } from "./webhooks";
+import { frequencyLabels, labelFor, productCategoryLabels } from "@shared/labels";
+import { transcriptParts } from "./transcripts";
+import { mediaFile } from "../mediaVariants";
+
+export interface JiraConfig {
+  baseUrl: string;
+  projectKey: string;
+  issueType?: string;
+  // Jira Cloud authenticates with email + API token (basic auth),
+  // Jira Server/Data Center with a personal access token (bearer auth)
+  email?: string;
+  apiToken?: string;
+  personalAccessToken?: string;
+  // Secret configured on the Jira webhook; inbound events are refused without it
+  webhookSecret?: string;
+  statusMap?: StatusMap;
+}
+
+// Jira's default workflow states, by lower-cased status name
+export const defaultJiraStatusMap: StatusMap = {
+  "open": "triaged",
+  "to do": "triaged",
+  "backlog": "triaged",
+  "reopened": "triaged",
+  "in progress": "in_progress",
+  "in review": "in_progress",
+  "resolved": "resolved",
+  "done": "resolved",
+  "closed": "closed",
+};
+
+// The parts of Jira's issue and comment webhook payloads we read
+interface JiraWebhookPayload {
+  webhookEvent?: string;
+  user?: { displayName?: string };
+  issue?: { key?: string };
+  changelog?: { items?: { field?: string; toString?: string }[] };
+  comment?: { id?: string; body?: string; author?: { displayName?: string } };
+}
+
+// Map our severity levels onto Jira's default priority scheme
+const severityToPriority: Record<string, string> = {
+  blocker: "Highest",
+  critical: "High",
+  major: "Medium",
+  minor: "Low",
+  trivial: "Lowest",
+};
+
+export class JiraAdapter implements IssueTrackerAdapter {
+  readonly system = "jira";
+  private baseUrl: string;
+  private statusMap: StatusMap;
+
+  constructor(private config: JiraConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.statusMap = config.statusMap ?? defaultJiraStatusMap;
+  }
+
+  async createTicket(issue: Issue, media: Media[]): Promise<TrackerTicket> {
+    const response = await this.request("/rest/api/2/issue", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fields: this.buildFields(issue, media) }),
+    });
+    const created = (await response.json()) as { id: string; key: string };
+
+    // The ticket exists from here on, so failed uploads are reported rather
+    // than thrown, which would make the outbox file the ticket again
+    const failedAttachments: string[] = [];
+    for (const item of media) {
+      try {
+        await this.uploadAttachment(created.key, item);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failedAttachments.push(`${item.filename}: ${message}`);
+      }
+    }
+
+    return { key: created.key, url: `${this.baseUrl}/browse/${created.key}`, failedAttachments };
+  }
+
+  async addComment(ticketKey: string, comment: IssueComment, attachments: Media[]): Promise<TrackerComment> {
+    for (const item of attachments) {
+      await this.uploadAttachment(ticketKey, item);
+    }
+
+    const response = await this.request(this.commentPath(ticketKey), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: buildCommentBody(comment, attachments) }),
+    });
+    const created = (await response.json()) as { id: string };
+    return { id: created.id };
+  }
+
+  async updateComment(ticketKey: string, commentId: string, comment: IssueComment): Promise<void> {
+    await this.request(`${this.commentPath(ticketKey)}/${encodeURIComponent(commentId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: buildCommentBody(comment, []) }),
+    });
+  }
+
+  async deleteComment(ticketKey: string, commentId: string): Promise<void> {
+    await this.request(`${this.commentPath(ticketKey)}/${encodeURIComponent(commentId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  verifyWebhook(request: TrackerWebhookRequest): boolean {
+    if (!this.config.webhookSecret) return false;
+    return hmacSignatureMatches(this.config.webhookSecret, request, headerValue(request, "X-Hub-Signature"));
+  }
+
+  parseWebhook(request: TrackerWebhookRequest): TrackerWebhookEvent | null {
+    const payload = parseWebhookPayload<JiraWebhookPayload>(request);
+    const ticketKey = payload.issue?.key;
+    if (!ticketKey) return null;
+
+    const event: TrackerWebhookEvent = {
+      ticketKey,
+      // Jira Server and Data Center do not send this header
+      deliveryId: headerValue(request, "X-Atlassian-Webhook-Identifier"),
+      actorName: payload.user?.displayName ?? "Jira",
+    };
+
+    if (payload.webhookEvent === "jira:issue_updated") {
+      const change = payload.changelog?.items?.find((item) => item.field === "status");
+      // Checked by type, since a missing "toString" finds Object.prototype's
+      if (typeof change?.toString === "string") {
+        event.status = { remote: change.toString, local: mapRemoteStatus(this.statusMap, change.toString) };
+      }
+    }
+
+    // Comments come as comment_created, or inside issue_updated when added
+    // on a transition screen
+    if ((payload.webhookEvent === "comment_created" || payload.webhookEvent === "jira:issue_updated") &&
+        payload.comment?.id && payload.comment.body) {
+      event.comment = {
+        id: payload.comment.id,
+        body: payload.comment.body,
+        authorName: payload.comment.author?.displayName ?? event.actorName,
+      };
+    }
+
+    return event.status || event.comment ? event : null;
+  }
+
+  buildFields(issue: Issue, media: Media[] = []): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      project: { key: this.config.projectKey },
+      issuetype: { name: this.config.issueType || "Bug" },
+      summary: issue.title,
+      description: buildDescription(issue, media),
+      components: [{ name: labelFor(productCategoryLabels, issue.productCategory) }],
+      labels: [`platform-${issue.platform.trim().toLowerCase().replace(/\s+/g, "-")}`],
+    };
+
+    const priority = severityToPriority[issue.severity];
+    if (priority) {
+      fields.priority = { name: priority };
+    }
+
+    return fields;
+  }
+
+  private async uploadAttachment(issueKey: string, item: Media): Promise<void> {
+    // Videos go as their MP4 rendition when there is one, since browser
+    // recordings in webm often do not play in tracker viewers
+    const source = mediaFile(item, "mp4");
+    const contents = await fs.promises.readFile(source.filePath);
+    const form = new FormData();
+    form.append("file", new Blob([contents], { type: source.mimeType }), source.filename);
+
+    await this.request(`/rest/api/2/issue/${encodeURIComponent(issueKey)}/attachments`, {
+      method: "POST",
+      // Jira rejects attachment uploads without this XSRF bypass header
+      headers: { "X-Atlassian-Token": "no-check" },
+      body: form,
+    });
+  }
+
+  private commentPath(issueKey: string): string {
+    return `/rest/api/2/issue/${encodeURIComponent(issueKey)}/comment`;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: "application/json",
+        Authorization: this.authorizationHeader(),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new TrackerRequestError(this.system, response.status, await response.text());
+    }
+
+    return response;
+  }
+
+  private authorizationHeader(): string {
+    if (this.config.personalAccessToken) {
+      return `Bearer ${this.config.personalAccessToken}`;
+    }
+    const credentials = `${this.config.email ?? ""}:${this.config.apiToken ?? ""}`;
+    return `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+}
+
+// Build the ticket body using Jira wiki markup (REST API v2)
+function buildDescription(issue: Issue, media: Media[]): string {
+  const frequency = issue.frequency === "custom" && issue.customFrequencyDescription
+    ? `Custom: ${issue.customFrequencyDescription}`
+    : labelFor(frequencyLabels, issue.frequency);
+
+  const sections = [
+    `h3. Description\n${issue.description}`,
+    `h3. Steps to Reproduce\n${issue.reproductionSteps}`,
+  ];
+
+  if (issue.expectedBehavior) {
+    sections.push(`h3. Expected Behavior\n${issue.expectedBehavior}`);
+  }
+  sections.push(`h3. Actual Behavior\n${issue.actualBehavior}`);
+
+  const environment = [
+    `* *Platform:* ${issue.platform}`,
+    `* *Hardware Version:* ${issue.softwareVersion}`,
+    `* *CNHOS Version:* ${issue.osVersion}`,
+    `* *Frequency:* ${frequency}`,
+    `* *Reproducible:* ${issue.reproducible}`,
+  ];
+  if (issue.additionalEnvironment) {
+    environment.push(`* *Additional Information:* ${issue.additionalEnvironment}`);
+  }
+  sections.push(`h3. Environment\n${environment.join("\n")}`);
+
+  const transcripts = media.filter((item) => item.type === "audio" && item.transcription);
+  if (transcripts.length > 0) {
+    sections.push(`h3. Voice Notes\n${transcripts.map(buildTranscript).join("\n\n")}`);
+  }
+
+  sections.push(`Reported by: ${issue.reportedBy}`);
+
+  return sections.join("\n\n");
+}
+
+// Timestamps are monospaced since square brackets would become wiki links
+function buildTranscript(item: Media): string {
+  const { heading, lines } = transcriptParts(item, {
+    bold: (text) => `*${text}*`,
+    code: (text) => `{{${text}}}`,
+  });
+  return `${heading}\n{quote}${lines.join("\n")}{quote}`;
+}
+
+// Comments are posted by the integration user, so credit the real author
+function buildCommentBody(comment: IssueComment, attachments: Media[]): string {
+  const parts = [comment.body];
+  if (attachments.length > 0) {
+    parts.push(attachments.map((item) => `[^${mediaFile(item, "mp4").filename}]`).join("\n"));
+  }
+  parts.push(`_Comment by ${comment.authorName}_`);
+  return parts.join("\n\n");
+}
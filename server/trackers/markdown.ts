@@ -0,0 +1,73 @@
+import type { Issue, IssueComment, Media } from "@shared/schema";
+import { frequencyLabels, labelFor, productCategoryLabels, severityLabels } from "@shared/labels";
+import { transcriptParts } from "./transcripts";
+
+// Labels applied to tickets in trackers that label issues freely (GitHub, GitLab)
+export function issueLabels(issue: Issue): string[] {
+  return [
+    `severity: ${labelFor(severityLabels, issue.severity)}`,
+    `product: ${labelFor(productCategoryLabels, issue.productCategory)}`,
+  ];
+}
+
+// Build the ticket body in Markdown. Attachments are passed in as ready-made
+// Markdown lines, since each tracker links or uploads them differently.
+export function buildMarkdownDescription(issue: Issue, media: Media[], attachments: string[]): string {
+  const frequency = issue.frequency === "custom" && issue.customFrequencyDescription
+    ? `Custom: ${issue.customFrequencyDescription}`
+    : labelFor(frequencyLabels, issue.frequency);
+
+  const sections = [
+    `### Description\n${issue.description}`,
+    `### Steps to Reproduce\n${issue.reproductionSteps}`,
+  ];
+
+  if (issue.expectedBehavior) {
+    sections.push(`### Expected Behavior\n${issue.expectedBehavior}`);
+  }
+  sections.push(`### Actual Behavior\n${issue.actualBehavior}`);
+
+  const environment = [
+    `- **Severity:** ${labelFor(severityLabels, issue.severity)}`,
+    `- **Platform:** ${issue.platform}`,
+    `- **Hardware Version:** ${issue.softwareVersion}`,
+    `- **CNHOS Version:** ${issue.osVersion}`,
+    `- **Frequency:** ${frequency}`,
+    `- **Reproducible:** ${issue.reproducible}`,
+  ];
+  if (issue.additionalEnvironment) {
+    environment.push(`- **Additional Information:** ${issue.additionalEnvironment}`);
+  }
+  sections.push(`### Environment\n${environment.join("\n")}`);
+
+  const transcripts = media.filter((item) => item.type === "audio" && item.transcription);
+  if (transcripts.length > 0) {
+    sections.push(`### Voice Notes\n${transcripts.map(buildTranscript).join("\n\n")}`);
+  }
+
+  if (attachments.length > 0) {
+    sections.push(`### Attachments\n${attachments.join("\n")}`);
+  }
+
+  sections.push(`Reported by: ${issue.reportedBy}`);
+
+  return sections.join("\n\n");
+}
+
+// Comments are posted by the integration user, so credit the real author
+export function buildMarkdownComment(comment: IssueComment, attachments: string[]): string {
+  const parts = [comment.body];
+  if (attachments.length > 0) {
+    parts.push(attachments.join("\n"));
+  }
+  parts.push(`_Comment by ${comment.authorName}_`);
+  return parts.join("\n\n");
+}
+
+function buildTranscript(item: Media): string {
+  const { heading, lines } = transcriptParts(item, {
+    bold: (text) => `**${text}**`,
+    code: (text) => `\`${text}\``,
+  });
+  return `${heading}\n${lines.map((line) => `> ${line}`).join("\n>\n")}`;
+}
@@ -0,0 +1,48 @@
+import type { Issue } from "@shared/schema";
+import type { IssueTrackerAdapter } from "./types";
+
+// Chooses the tracker that receives a report. Routes map a productCategory to
+// a tracker system; categories without a route go to the default tracker.
+export class TrackerRouter {
+  private trackers = new Map<string, IssueTrackerAdapter>();
+
+  constructor(
+    trackers: IssueTrackerAdapter[],
+    private routes: Record<string, string>,
+    private defaultSystem: string,
+  ) {
+    for (const tracker of trackers) {
+      this.trackers.set(tracker.system, tracker);
+    }
+    for (const system of [defaultSystem, ...Object.values(routes)]) {
+      if (!this.trackers.has(system)) {
+        throw new Error(`Tracker "${system}" is routed to but not configured`);
+      }
+    }
+  }
+
+  forIssue(issue: Issue): IssueTrackerAdapter {
+    const system = this.routes[issue.productCategory] ?? this.defaultSystem;
+    return this.trackers.get(system)!;
+  }
+
+  // The tracker holding an existing ticket, which may no longer be the one
+  // new reports for the issue's category are routed to
+  forSystem(system: string): IssueTrackerAdapter | undefined {
+    return this.trackers.get(system);
+  }
+}
+
+// Parse "pegasus=github,mercury=gitlab" into { pegasus: "github", mercury: "gitlab" }
+export function parseTrackerRoutes(value: string | undefined): Record<string, string> {
+  const routes: Record<string, string> = {};
+  for (const rule of (value ?? "").split(",")) {
+    if (!rule.trim()) continue;
+    const [category, system] = rule.split("=").map((part) => part?.trim());
+    if (!category || !system) {
+      throw new Error(`Invalid tracker route "${rule.trim()}", expected category=system`);
+    }
+    routes[category] = system;
+  }
+  return routes;
+}
@@ -0,0 +1,154 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { mock } from "node:test";
+import type { Issue, Media } from "@shared/schema";
+
+// Fixtures shared by the tracker adapter tests
+
+export function issueFixture(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 7,
+    title: "Scanner freezes on startup",
+    description: "The scanner hangs at the splash screen",
+    platform: "Desktop App",
+    productCategory: "pegasus",
+    severity: "critical",
+    frequency: "always",
+    customFrequencyDescription: null,
+    reproducible: "yes",
+    reproductionSteps: "1. Start the scanner",
+    expectedBehavior: null,
+    actualBehavior: "Nothing happens",
+    softwareVersion: "2.4.1",
+    operatingSystem: null,
+    osVersion: "14.2",
+    reportedBy: "Dana",
+    reporterId: null,
+    additionalEnvironment: null,
+    externalTicket: null,
+    status: "submitted",
+    syncStatus: "queued",
+    createdAt: new Date("2024-05-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+const fixtureDirs: string[] = [];
+
+// A media row whose file exists in a temporary directory. Remove the
+// directories with removeMediaFixtures() once the tests are done.
+export function mediaFixture(overrides: Partial<Media> = {}): Media {
+  const filename = overrides.filename ?? "screenshot.png";
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tracker-test-"));
+  fixtureDirs.push(dir);
+  const filePath = path.join(dir, filename);
+  fs.writeFileSync(filePath, "file contents");
+
+  return {
+    id: 3,
+    issueId: 7,
+    commentId: null,
+    type: "photo",
+    filename,
+    filePath,
+    mimeType: "image/png",
+    fileSize: 13,
+    transcription: null,
+    transcriptionStatus: null,
+    transcriptionError: null,
+    transcriptionLanguage: null,
+    transcriptionSegments: null,
+    thumbnailPath: null,
+    previewPath: null,
+    processingStatus: null,
+    processingError: null,
+    renditionPath: null,
+    posterPath: null,
+    durationSeconds: null,
+    createdAt: new Date("2024-05-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function removeMediaFixtures(): void {
+  for (const dir of fixtureDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Replaces fetch with one answering the given responses in order. Restore it
+// with mock.restoreAll().
+export function mockFetch(...responses: Response[]) {
+  return mock.method(globalThis, "fetch", async () => {
+    const response = responses.shift();
+    if (!response) throw new Error("Unexpected request");
+    return response;
+  });
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+export function webhookRequest(payload: unknown, headers: Record<string, string> = {}) {
+  return { headers, rawBody: Buffer.from(JSON.stringify(payload)) };
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// Status and body of a stand-in reply; bodies other than strings go as JSON
+export interface StandInReply {
+  status: number;
+  body?: unknown;
+}
+
+// A local HTTP server standing in for a tracker's API, so adapters send real
+// requests. It records each request and answers with the queued replies in order.
+export class TrackerStandIn {
+  readonly requests: RecordedRequest[] = [];
+  private replies: StandInReply[] = [];
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      this.requests.push({ method: req.method ?? "", url: req.url ?? "", headers: req.headers, body: Buffer.concat(chunks) });
+      const reply = this.replies.shift() ?? { status: 500, body: "Unexpected request" };
+      const json = typeof reply.body !== "string";
+      res.writeHead(reply.status, { "Content-Type": json ? "application/json" : "text/plain" });
+      res.end(json ? JSON.stringify(reply.body ?? {}) : reply.body);
+    });
+  });
+
+  get baseUrl(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async close(): Promise<void> {
+    // fetch keeps connections alive, which would hold close() open
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  reply(...replies: StandInReply[]): void {
+    this.replies = replies;
+    this.requests.length = 0;
+  }
+}
+
+// Parses a recorded multipart/form-data body
+export async function recordedForm(request: RecordedRequest): Promise<FormData> {
+  return new Response(request.body, { headers: { "Content-Type": String(request.headers["content-type"]) } }).formData();
+}
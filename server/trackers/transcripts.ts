@@ -0,0 +1,24 @@
+import type { Media } from "@shared/schema";
+
+// Inline markup of a tracker's body format
+export interface TranscriptMarkup {
+  bold(text: string): string;
+  code(text: string): string;
+}
+
+// Heading and lines of a voice note transcript, one line per timed segment
+// when available. Each tracker body wraps the lines in its own quote style.
+export function transcriptParts(item: Media, markup: TranscriptMarkup): { heading: string; lines: string[] } {
+  const name = markup.bold(item.filename);
+  const heading = item.transcriptionLanguage ? `${name} (language: ${item.transcriptionLanguage})` : name;
+  const lines = item.transcriptionSegments?.length
+    ? item.transcriptionSegments.map((segment) => `${markup.code(formatTimestamp(segment.start))} ${segment.text}`)
+    : [item.transcription ?? ""];
+  return { heading, lines };
+}
+
+// m:ss from a number of seconds
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
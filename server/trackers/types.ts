@@ -0,0 +1,65 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Issue, IssueComment, Media } from "@shared/schema";
+import type { IssueStatus } from "@shared/workflow";
+
+// Reference to a ticket created in an external issue tracker
+export interface TrackerTicket {
+  key: string;
+  url?: string;
+  // Attachments that could not be uploaded after the ticket was created,
+  // with the reason. The ticket stands, so creating it again would duplicate it.
+  failedAttachments?: string[];
+}
+
+// Reference to a comment mirrored onto a tracker ticket
+export interface TrackerComment {
+  id: string;
+}
+
+// A webhook delivery as received, before its body is parsed. Signatures are
+// computed over the raw bytes, so the body is kept as sent.
+export interface TrackerWebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody: Buffer;
+}
+
+// A change made on a tracker ticket, reported through the tracker's webhook
+export interface TrackerWebhookEvent {
+  ticketKey: string;
+  // Tracker-assigned delivery ID, the same on every retry. Without one a
+  // replay is recognised by its payload.
+  deliveryId?: string;
+  actorName: string;
+  // The workflow state the ticket moved to, and the local status it maps
+  // to (null when the remote state has no mapping)
+  status?: { remote: string; local: IssueStatus | null };
+  comment?: { id: string; body: string; authorName: string };
+}
+
+// Common interface implemented by every external issue tracker integration
+export interface IssueTrackerAdapter {
+  readonly system: string;
+  createTicket(issue: Issue, media: Media[]): Promise<TrackerTicket>;
+
+  // Trackers that support comments implement these to mirror issue discussions
+  addComment?(ticketKey: string, comment: IssueComment, attachments: Media[]): Promise<TrackerComment>;
+  updateComment?(ticketKey: string, commentId: string, comment: IssueComment): Promise<void>;
+  deleteComment?(ticketKey: string, commentId: string): Promise<void>;
+
+  // Trackers that send webhooks implement these to report changes made on
+  // their tickets. parseWebhook returns null for events we do not act on.
+  verifyWebhook?(request: TrackerWebhookRequest): boolean;
+  parseWebhook?(request: TrackerWebhookRequest): TrackerWebhookEvent | null;
+}
+
+// Raised when a tracker responds with a non-2xx status
+export class TrackerRequestError extends Error {
+  constructor(
+    public system: string,
+    public status: number,
+    public body: string,
+  ) {
+    super(`${system} request failed with status ${status}: ${body}`);
+    this.name = "TrackerRequestError";
+  }
+}
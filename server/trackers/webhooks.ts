@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { isIssueStatus, type IssueStatus } from "@shared/workflow";
+import type { TrackerWebhookRequest } from "./types";
+
+// Remote workflow state (lower-cased) -> local issue status
+export type StatusMap = Record<string, IssueStatus>;
+
+// Parse "In Review=in_progress,Done=closed" into a status map, on top of
+// the tracker's defaults
+export function parseStatusMap(value: string | undefined, defaults: StatusMap): StatusMap {
+  const map: StatusMap = { ...defaults };
+  for (const rule of (value ?? "").split(",")) {
+    if (!rule.trim()) continue;
+    const [remote, local] = rule.split("=").map((part) => part?.trim());
+    if (!remote || !isIssueStatus(local)) {
+      throw new Error(`Invalid status mapping "${rule.trim()}", expected remote state=local status`);
+    }
+    map[remote.toLowerCase()] = local;
+  }
+  return map;
+}
+
+export function mapRemoteStatus(map: StatusMap, remote: string): IssueStatus | null {
+  return map[remote.trim().toLowerCase()] ?? null;
+}
+
+export function headerValue(request: TrackerWebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Throws SyntaxError for bodies that are not JSON
+export function parseWebhookPayload<T>(request: TrackerWebhookRequest): T {
+  return JSON.parse(request.rawBody.toString("utf8")) as T;
+}
+
+// Checks a "sha256=<hex>" HMAC of the raw body, as sent by GitHub and Jira
+export function hmacSignatureMatches(secret: string, request: TrackerWebhookRequest, header: string | undefined): boolean {
+  if (!header?.startsWith("sha256=")) return false;
+  const expected = createHmac("sha256", secret).update(request.rawBody).digest("hex");
+  return secretsEqual(expected, header.slice("sha256=".length));
+}
+
+// Constant-time comparison, so response timing does not leak the secret
+export function secretsEqual(expected: string, supplied: string | undefined): boolean {
+  if (supplied === undefined) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(supplied);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
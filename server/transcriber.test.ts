@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, mock, type Mock } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { FakeTranscriptionProvider, type TranscriptionProvider } from "./transcription";
+import { WebhookDispatcher } from "./webhookDispatcher";
+import { Transcriber } from "./transcriber";
+import { reportValues } from "./testing";
+
+describe("Transcriber", () => {
+  let storage: MemStorage;
+  let events: WebhookDispatcher;
+  let emit: Mock<WebhookDispatcher["emit"]>;
+
+  function transcriber(provider: TranscriptionProvider | null) {
+    return new Transcriber(storage, provider, events, { batchSize: 2 });
+  }
+
+  async function voiceNote(filename = "voice-note.webm") {
+    const issue = await storage.createIssue(reportValues());
+    return storage.createMedia({
+      issueId: issue.id,
+      type: "audio",
+      filename,
+      filePath: `uploads/${filename}`,
+      mimeType: "audio/webm",
+      fileSize: 2048,
+      transcriptionStatus: "pending",
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    events = new WebhookDispatcher(storage);
+    emit = mock.method(events, "emit", () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("stores the transcript and announces it with media.transcribed", async () => {
+    const media = await voiceNote();
+
+    await transcriber(new FakeTranscriptionProvider()).processPending();
+
+    const updated = await storage.getMedia(media.id);
+    assert.equal(updated?.transcriptionStatus, "ready");
+    assert.equal(updated?.transcriptionError, null);
+    assert.equal(updated?.transcription, "This is a fake transcript of voice-note.webm.");
+    assert.equal(updated?.transcriptionLanguage, "en");
+    assert.deepEqual(updated?.transcriptionSegments, [
+      { start: 0, end: 2.5, text: "This is a fake transcript" },
+      { start: 2.5, end: 4, text: "of voice-note.webm." },
+    ]);
+
+    assert.equal(emit.mock.callCount(), 1);
+    assert.deepEqual(emit.mock.calls[0].arguments, ["media.transcribed", {
+      issueId: media.issueId,
+      commentId: null,
+      mediaId: media.id,
+      filename: "voice-note.webm",
+      transcription: updated?.transcription,
+      language: "en",
+      segments: updated?.transcriptionSegments,
+    }]);
+  });
+
+  it("marks the voice note failed with the engine's error and announces nothing", async () => {
+    const media = await voiceNote();
+    const provider = new FakeTranscriptionProvider(() => {
+      throw new Error("whisper-cli exited with code 1");
+    });
+
+    await transcriber(provider).processPending();
+
+    const updated = await storage.getMedia(media.id);
+    assert.equal(updated?.transcriptionStatus, "failed");
+    assert.equal(updated?.transcriptionError, "whisper-cli exited with code 1");
+    assert.equal(updated?.transcription, null);
+    assert.equal(emit.mock.callCount(), 0);
+  });
+
+  it("keeps going past a failure and takes batchSize voice notes per pass", async () => {
+    const broken = await voiceNote("broken.webm");
+    const first = await voiceNote("first.webm");
+    const second = await voiceNote("second.webm");
+    const provider = new FakeTranscriptionProvider((filePath) => {
+      if (filePath.endsWith("broken.webm")) throw new Error("Unsupported codec");
+      return { text: filePath, language: null, segments: [] };
+    });
+    const worker = transcriber(provider);
+
+    await worker.processPending();
+    assert.equal((await storage.getMedia(broken.id))?.transcriptionStatus, "failed");
+    assert.equal((await storage.getMedia(first.id))?.transcriptionStatus, "ready");
+    assert.equal((await storage.getMedia(second.id))?.transcriptionStatus, "pending");
+
+    await worker.processPending();
+    assert.equal((await storage.getMedia(second.id))?.transcription, "uploads/second.webm");
+  });
+
+  it("stays disabled without an engine", async () => {
+    const media = await voiceNote();
+    const worker = transcriber(null);
+
+    await worker.start();
+    await worker.processPending();
+
+    assert.equal(worker.enabled, false);
+    assert.equal((await storage.getMedia(media.id))?.transcriptionStatus, "pending");
+  });
+});
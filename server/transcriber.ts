@@ -0,0 +1,116 @@
+import type { Media } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { transcriptionProvider, type TranscriptionProvider } from "./transcription";
+import { webhookDispatcher, type WebhookDispatcher } from "./webhookDispatcher";
+import { log } from "./vite";
+
+export interface TranscriberOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+const defaultOptions: TranscriberOptions = {
+  pollIntervalMs: 10_000,
+  batchSize: 5,
+};
+
+// Turns voice notes into text with segment timestamps through the configured
+// TranscriptionProvider. Pending voice notes are persisted through IStorage,
+// so work interrupted by a restart is picked up again.
+export class Transcriber {
+  private options: TranscriberOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private available = false;
+
+  constructor(
+    private storage: IStorage,
+    private provider: TranscriptionProvider | null,
+    private events: WebhookDispatcher,
+    options: Partial<TranscriberOptions> = {},
+  ) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  // Whether new voice notes should be queued; false until the engine has been checked
+  get enabled(): boolean {
+    return this.available;
+  }
+
+  async start() {
+    if (this.timer) return;
+
+    if (!this.provider) {
+      log("no transcription engine configured, voice notes are not transcribed", "transcribe");
+      return;
+    }
+    if (!(await this.provider.isAvailable())) {
+      log(`${this.provider.engine} is not available, voice notes are not transcribed`, "transcribe");
+      return;
+    }
+
+    this.available = true;
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.kick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Trigger a processing pass without waiting for it to finish
+  kick() {
+    this.processPending().catch((error) => {
+      console.error("Error transcribing voice notes:", error);
+    });
+  }
+
+  async processPending(): Promise<void> {
+    if (this.running || !this.provider) return;
+    this.running = true;
+
+    try {
+      const pending = await this.storage.getMediaPendingTranscription(this.options.batchSize);
+      for (const item of pending) {
+        await this.transcribe(this.provider, item);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async transcribe(provider: TranscriptionProvider, item: Media): Promise<void> {
+    try {
+      const result = await provider.transcribe(item.filePath);
+      await this.storage.updateMediaTranscription(item.id, {
+        transcriptionStatus: "ready",
+        transcriptionError: null,
+        transcription: result.text,
+        transcriptionLanguage: result.language,
+        transcriptionSegments: result.segments,
+      });
+      this.events.emit("media.transcribed", {
+        issueId: item.issueId,
+        commentId: item.commentId,
+        mediaId: item.id,
+        filename: item.filename,
+        transcription: result.text,
+        language: result.language,
+        segments: result.segments,
+      });
+      log(`transcribed media ${item.id} (${item.filename}) with ${provider.engine}`, "transcribe");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.storage.updateMediaTranscription(item.id, {
+        transcriptionStatus: "failed",
+        transcriptionError: message.slice(-1000),
+      });
+      log(`transcribing media ${item.id} failed: ${message.slice(-200)}`, "transcribe");
+    }
+  }
+}
+
+export const transcriber = new Transcriber(storage, transcriptionProvider, webhookDispatcher);
@@ -0,0 +1,30 @@
+import path from "path";
+import type { TranscriptionProvider, TranscriptionResult } from "./types";
+
+// Deterministic engine for development and tests: every voice note gets the
+// same transcript, or the one built by the given function
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly engine = "fake";
+
+  constructor(private result: (filePath: string) => TranscriptionResult = defaultResult) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async transcribe(filePath: string): Promise<TranscriptionResult> {
+    return this.result(filePath);
+  }
+}
+
+function defaultResult(filePath: string): TranscriptionResult {
+  const segments = [
+    { start: 0, end: 2.5, text: "This is a fake transcript" },
+    { start: 2.5, end: 4, text: `of ${path.basename(filePath)}.` },
+  ];
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    language: "en",
+    segments,
+  };
+}
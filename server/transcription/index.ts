@@ -0,0 +1,35 @@
+import type { TranscriptionProvider } from "./types";
+import { FakeTranscriptionProvider } from "./fake";
+import { WhisperCppProvider } from "./whisperCpp";
+
+export * from "./types";
+export { FakeTranscriptionProvider } from "./fake";
+export { WhisperCppProvider, type WhisperCppConfig } from "./whisperCpp";
+
+// TRANSCRIPTION_ENGINE picks the engine explicitly; otherwise whisper.cpp is
+// used when a model is configured. Null means voice notes are not transcribed.
+export function createTranscriptionProvider(env: NodeJS.ProcessEnv = process.env): TranscriptionProvider | null {
+  const engine = env.TRANSCRIPTION_ENGINE || (env.WHISPER_MODEL_PATH ? "whisper.cpp" : "none");
+
+  switch (engine) {
+    case "whisper.cpp":
+      if (!env.WHISPER_MODEL_PATH) {
+        throw new Error("WHISPER_MODEL_PATH is required for the whisper.cpp transcription engine");
+      }
+      return new WhisperCppProvider({
+        binaryPath: env.WHISPER_PATH || "whisper-cli",
+        modelPath: env.WHISPER_MODEL_PATH,
+        ffmpegPath: env.FFMPEG_PATH || "ffmpeg",
+        language: env.WHISPER_LANGUAGE,
+        threads: env.WHISPER_THREADS ? parseInt(env.WHISPER_THREADS, 10) : undefined,
+      });
+    case "fake":
+      return new FakeTranscriptionProvider();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown transcription engine: ${engine}`);
+  }
+}
+
+export const transcriptionProvider = createTranscriptionProvider();
@@ -0,0 +1,16 @@
+import type { TranscriptSegment } from "@shared/schema";
+
+export interface TranscriptionResult {
+  text: string;
+  // ISO 639-1 code, null when the engine does not report one
+  language: string | null;
+  segments: TranscriptSegment[];
+}
+
+// Common interface implemented by every speech-to-text engine
+export interface TranscriptionProvider {
+  readonly engine: string;
+  // Checked once at startup; voice notes are left untranscribed when false
+  isAvailable(): Promise<boolean>;
+  transcribe(filePath: string): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,104 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { TranscriptSegment } from "@shared/schema";
+import type { TranscriptionProvider, TranscriptionResult } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+export interface WhisperCppConfig {
+  // The whisper.cpp command line tool, whisper-cli in current releases
+  binaryPath: string;
+  // A ggml model file, e.g. ggml-base.bin
+  modelPath: string;
+  // whisper.cpp only reads 16 kHz WAV reliably; browser recordings are webm/ogg
+  ffmpegPath: string;
+  // Spoken language, or "auto" to detect it per recording
+  language?: string;
+  threads?: number;
+  timeoutMs?: number;
+}
+
+// Shape of the file written by whisper-cli --output-json
+interface WhisperJson {
+  result?: { language?: string };
+  transcription?: { offsets: { from: number; to: number }; text: string }[];
+}
+
+// Offline transcription with whisper.cpp, run as a subprocess per voice note
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly engine = "whisper.cpp";
+
+  constructor(private config: WhisperCppConfig) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await fs.promises.access(this.config.modelPath, fs.constants.R_OK);
+      await execFileAsync(this.config.binaryPath, ["--help"]);
+      await execFileAsync(this.config.ffmpegPath, ["-version"]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async transcribe(filePath: string): Promise<TranscriptionResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "whisper-"));
+    try {
+      const wavPath = path.join(workDir, "audio.wav");
+      await this.run(this.config.ffmpegPath, [
+        "-hide_banner", "-loglevel", "error",
+        "-y", "-i", filePath,
+        "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le",
+        wavPath,
+      ]);
+
+      const outputBase = path.join(workDir, "transcript");
+      await this.run(this.config.binaryPath, [
+        "--model", this.config.modelPath,
+        "--file", wavPath,
+        "--language", this.config.language || "auto",
+        "--threads", String(this.config.threads ?? Math.max(os.cpus().length - 1, 1)),
+        "--output-json",
+        "--output-file", outputBase,
+        "--no-prints",
+      ]);
+
+      const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, "utf8")) as WhisperJson;
+      return parseWhisperOutput(output);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(command: string, args: string[]): Promise<void> {
+    try {
+      await execFileAsync(command, args, {
+        timeout: this.config.timeoutMs ?? 30 * 60 * 1000,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+    } catch (error) {
+      // Both tools explain failures on stderr; the error message mostly echoes the command
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw stderr ? new Error(stderr) : error;
+    }
+  }
+}
+
+function parseWhisperOutput(output: WhisperJson): TranscriptionResult {
+  const segments: TranscriptSegment[] = (output.transcription ?? [])
+    .map((segment) => ({
+      start: segment.offsets.from / 1000,
+      end: segment.offsets.to / 1000,
+      text: segment.text.trim(),
+    }))
+    .filter((segment) => segment.text !== "");
+
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    language: output.result?.language || null,
+    segments,
+  };
+}
@@ -0,0 +1,109 @@
+import type { Request, RequestHandler } from "express";
+import multer from "multer";
+import path from "path";
+import fs from "fs";
+import type { UploadRejection } from "@shared/uploadTypes";
+import { checkUploadType, readFileHead } from "./contentSniffing";
+
+// Configure multer for file uploads
+export const uploadDir = path.join(process.cwd(), "uploads");
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+// Files derived from uploads: photo thumbnails, video renditions and posters
+export const variantDir = path.join(uploadDir, "variants");
+if (!fs.existsSync(variantDir)) {
+  fs.mkdirSync(variantDir, { recursive: true });
+}
+
+// A file stored in uploadDir, as multer describes it
+export interface StoredFile {
+  originalname: string;
+  path: string;
+  mimetype: string;
+  size: number;
+}
+
+// Unique on-disk name that keeps the original extension
+export function storedFilename(originalname: string): string {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  return uniqueSuffix + path.extname(originalname);
+}
+
+const storage_config = multer.diskStorage({
+  destination: function (req, file, cb) {
+    cb(null, uploadDir);
+  },
+  filename: function (req, file, cb) {
+    cb(null, storedFilename(file.originalname));
+  }
+});
+
+const maxFileSize = 100 * 1024 * 1024; // 100MB
+
+// Types are checked by content once a file is stored, see receiveFiles
+const upload = multer({ 
+  storage: storage_config,
+  limits: {
+    fileSize: maxFileSize,
+  },
+});
+
+// Accept multipart files in the given field. Each stored file is identified by
+// its contents and gets the detected MIME type; if any file is refused, all of
+// the request's files are removed and the client is told why, per file.
+export function receiveFiles(field: string): RequestHandler {
+  const parse = upload.array(field);
+
+  return (req, res, next) => {
+    parse(req, res, async (error) => {
+      if (error instanceof multer.MulterError) {
+        removeFiles(uploadedFiles(req).map((file) => file.path));
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ error: `Files must be smaller than ${maxFileSize / (1024 * 1024)} MB` });
+        }
+        return res.status(400).json({ error: error.message });
+      }
+      if (error) return next(error);
+
+      const files = uploadedFiles(req);
+      const rejectedFiles: UploadRejection[] = [];
+      try {
+        for (const file of files) {
+          const check = checkUploadType(await readFileHead(file.path), file.originalname, file.mimetype);
+          if ("reason" in check) {
+            rejectedFiles.push({ filename: file.originalname, reason: check.reason });
+          } else {
+            file.mimetype = check.mimeType;
+          }
+        }
+      } catch (checkError) {
+        removeFiles(files.map((file) => file.path));
+        return next(checkError);
+      }
+
+      if (rejectedFiles.length > 0) {
+        removeFiles(files.map((file) => file.path));
+        return res.status(415).json({
+          error: rejectedFiles.map((file) => `${file.filename}: ${file.reason}`).join(" "),
+          rejectedFiles,
+        });
+      }
+      next();
+    });
+  };
+}
+
+// Files multer accepted for the current request
+export function uploadedFiles(req: Request): Express.Multer.File[] {
+  return Array.isArray(req.files) ? req.files : [];
+}
+
+export function removeFiles(filePaths: string[]) {
+  for (const filePath of filePaths) {
+    fs.unlink(filePath, (err) => {
+      if (err) console.error("Error deleting file:", err);
+    });
+  }
+}
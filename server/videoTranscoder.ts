@@ -0,0 +1,177 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import type { Media } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { variantDir } from "./uploads";
+import { log } from "./vite";
+
+const execFileAsync = promisify(execFile);
+
+export interface VideoTranscoderOptions {
+  ffmpegPath: string;
+  ffprobePath: string;
+  pollIntervalMs: number;
+  batchSize: number;
+  // Upper bound for a single ffmpeg run
+  timeoutMs: number;
+}
+
+const defaultOptions: VideoTranscoderOptions = {
+  ffmpegPath: "ffmpeg",
+  ffprobePath: "ffprobe",
+  pollIntervalMs: 10_000,
+  batchSize: 5,
+  timeoutMs: 30 * 60 * 1000,
+};
+
+// Normalizes uploaded videos to an MP4/H.264 rendition that browsers and
+// trackers can play, and extracts a poster frame and the duration. The
+// original file is kept. Pending videos are persisted through IStorage, so
+// work interrupted by a restart is picked up again.
+export class VideoTranscoder {
+  private options: VideoTranscoderOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private available = false;
+
+  constructor(
+    private storage: IStorage,
+    options: Partial<VideoTranscoderOptions> = {},
+  ) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  // Whether new videos should be queued; false until ffmpeg has been found
+  get enabled(): boolean {
+    return this.available;
+  }
+
+  async start() {
+    if (this.timer) return;
+
+    try {
+      await execFileAsync(this.options.ffmpegPath, ["-version"]);
+      await execFileAsync(this.options.ffprobePath, ["-version"]);
+    } catch {
+      log("ffmpeg not found, videos are served as uploaded", "video");
+      return;
+    }
+
+    this.available = true;
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.kick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Trigger a processing pass without waiting for it to finish
+  kick() {
+    this.processPending().catch((error) => {
+      console.error("Error transcoding videos:", error);
+    });
+  }
+
+  async processPending(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const pending = await this.storage.getMediaPendingProcessing(this.options.batchSize);
+      for (const item of pending) {
+        await this.transcode(item);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async transcode(item: Media): Promise<void> {
+    const base = path.join(variantDir, path.parse(item.filePath).name);
+    const renditionPath = `${base}-video.mp4`;
+    const posterPath = `${base}-poster.jpg`;
+
+    try {
+      await this.ffmpeg([
+        "-y", "-i", item.filePath,
+        "-map", "0:v:0", "-map", "0:a:0?",
+        "-c:v", "libx264", "-preset", "veryfast", "-crf", "23", "-pix_fmt", "yuv420p",
+        // H.264 needs even dimensions
+        "-vf", "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+        "-c:a", "aac", "-b:a", "128k",
+        "-movflags", "+faststart",
+        renditionPath,
+      ]);
+
+      // Probe the rendition: MediaRecorder webm files often carry no duration
+      const durationSeconds = await this.probeDuration(renditionPath);
+      const posterAt = durationSeconds ? Math.min(1, durationSeconds / 2) : 0;
+      await this.ffmpeg(["-y", "-ss", posterAt.toFixed(2), "-i", renditionPath, "-frames:v", "1", "-q:v", "3", posterPath]);
+
+      const updated = await this.storage.updateMediaProcessing(item.id, {
+        processingStatus: "ready",
+        processingError: null,
+        renditionPath,
+        posterPath,
+        durationSeconds,
+      });
+      if (!updated) {
+        // The attachment was deleted while it was being transcoded
+        await removeOutputs(renditionPath, posterPath);
+        return;
+      }
+      log(`transcoded media ${item.id} (${item.filename})`, "video");
+    } catch (error) {
+      const message = failureMessage(error);
+      await removeOutputs(renditionPath, posterPath);
+      await this.storage.updateMediaProcessing(item.id, {
+        processingStatus: "failed",
+        // ffmpeg puts the useful part of its output last
+        processingError: message.slice(-1000),
+      });
+      log(`transcoding media ${item.id} failed: ${message.slice(-200)}`, "video");
+    }
+  }
+
+  private async ffmpeg(args: string[]): Promise<void> {
+    await execFileAsync(this.options.ffmpegPath, ["-hide_banner", "-loglevel", "error", ...args], {
+      timeout: this.options.timeoutMs,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+  }
+
+  private async probeDuration(filePath: string): Promise<number | null> {
+    const { stdout } = await execFileAsync(this.options.ffprobePath, [
+      "-v", "error",
+      "-show_entries", "format=duration",
+      "-of", "default=noprint_wrappers=1:nokey=1",
+      filePath,
+    ]);
+    const duration = parseFloat(stdout);
+    return Number.isFinite(duration) ? duration : null;
+  }
+}
+
+// ffmpeg explains failures on stderr; the error message mostly echoes the command
+function failureMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr?.trim();
+  if (stderr) return stderr;
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function removeOutputs(...filePaths: string[]) {
+  for (const filePath of filePaths) {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+export const videoTranscoder = new VideoTranscoder(storage, {
+  ffmpegPath: process.env.FFMPEG_PATH || defaultOptions.ffmpegPath,
+  ffprobePath: process.env.FFPROBE_PATH || defaultOptions.ffprobePath,
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import type { WebhookSubscription } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { WebhookDispatcher, type WebhookDispatcherOptions } from "./webhookDispatcher";
+import { mockFetch } from "./trackers/testing";
+
+const options: Partial<WebhookDispatcherOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 3_000,
+};
+
+const ok = () => new Response("", { status: 200 });
+const serverError = () => new Response("Try again later", { status: 500 });
+
+describe("WebhookDispatcher", () => {
+  let storage: MemStorage;
+  let dispatcher: WebhookDispatcher;
+  let subscription: WebhookSubscription;
+  // Resolves each time the dispatcher would start a pass in the background
+  let kicked: Promise<void>;
+
+  function expectKick() {
+    kicked = new Promise((resolve) => {
+      mock.method(dispatcher, "kick", () => resolve(), { times: 1 });
+    });
+  }
+
+  // Queue an event and wait until its deliveries are stored
+  async function emit() {
+    expectKick();
+    dispatcher.emit("issue.created", { issueId: 1 });
+    await kicked;
+    const [delivery] = await storage.getWebhookDeliveries(subscription.id, 10);
+    return delivery;
+  }
+
+  beforeEach(async () => {
+    // Only Date is mocked, so requests still run on the real event loop
+    mock.timers.enable({ apis: ["Date"], now: new Date("2024-05-01T10:00:00Z") });
+    storage = new MemStorage();
+    dispatcher = new WebhookDispatcher(storage, options);
+    subscription = await storage.createWebhookSubscription({
+      url: "https://hooks.example.com/first",
+      secret: "subscriber-secret",
+      events: ["issue.created"],
+      description: null,
+      active: true,
+    });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it("signs the body with the subscription's secret", async () => {
+    const fetch = mockFetch(ok());
+    const delivery = await emit();
+
+    await dispatcher.processDue();
+
+    const [url, init] = fetch.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, "https://hooks.example.com/first");
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+    assert.equal(headers["X-Webhook-Signature"], `sha256=${createHmac("sha256", "subscriber-secret").update(body).digest("hex")}`);
+    assert.equal(headers["X-Webhook-Event"], "issue.created");
+    assert.equal(headers["X-Webhook-Delivery"], String(delivery.id));
+    assert.deepEqual(JSON.parse(body), { event: "issue.created", occurredAt: "2024-05-01T10:00:00.000Z", data: { issueId: 1 } });
+
+    const sent = await storage.getWebhookDelivery(delivery.id);
+    assert.equal(sent?.status, "sent");
+    assert.equal(sent?.responseStatus, 200);
+  });
+
+  it("queues deliveries only for active subscriptions to the event", async () => {
+    const disabled = await storage.createWebhookSubscription({ url: "https://hooks.example.com/off", secret: "s", events: ["issue.created"], description: null, active: false });
+    const other = await storage.createWebhookSubscription({ url: "https://hooks.example.com/other", secret: "s", events: ["comment.created"], description: null, active: true });
+
+    await emit();
+
+    assert.equal((await storage.getWebhookDeliveries(subscription.id, 10)).length, 1);
+    assert.equal((await storage.getWebhookDeliveries(disabled.id, 10)).length, 0);
+    assert.equal((await storage.getWebhookDeliveries(other.id, 10)).length, 0);
+  });
+
+  it("backs off exponentially up to maxDelayMs", async () => {
+    const fetch = mockFetch(serverError(), serverError(), serverError(), ok());
+    const delivery = await emit();
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await dispatcher.processDue();
+      const pending = (await storage.getWebhookDelivery(delivery.id))!;
+      assert.equal(pending.status, "pending");
+      assert.equal(pending.attempts, attempt);
+      assert.equal(pending.responseStatus, 500);
+      assert.equal(pending.lastError, "Subscriber responded with status 500: Try again later");
+
+      const delay = pending.nextAttemptAt!.getTime() - Date.now();
+      delays.push(delay);
+      // Not due until the delay has passed
+      mock.timers.tick(delay - 1);
+      await dispatcher.processDue();
+      assert.equal(fetch.mock.callCount(), attempt);
+      mock.timers.tick(1);
+    }
+    assert.deepEqual(delays, [1_000, 2_000, 3_000]);
+
+    await dispatcher.processDue();
+    assert.equal((await storage.getWebhookDelivery(delivery.id))?.status, "sent");
+  });
+
+  it("gives up after maxAttempts", async () => {
+    mockFetch(serverError(), serverError(), serverError(), serverError());
+    const delivery = await emit();
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await dispatcher.processDue();
+      mock.timers.tick(3_000);
+    }
+
+    const failed = await storage.getWebhookDelivery(delivery.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal(failed?.attempts, 4);
+  });
+
+  it("fails deliveries whose subscription was disabled", async () => {
+    const fetch = mockFetch();
+    const delivery = await emit();
+    await storage.updateWebhookSubscription(subscription.id, { active: false });
+
+    await dispatcher.processDue();
+
+    const failed = await storage.getWebhookDelivery(delivery.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal(failed?.lastError, "The subscription is disabled");
+    assert.equal(fetch.mock.callCount(), 0);
+  });
+
+  it("replays a delivery as a new one with the same payload", async () => {
+    const fetch = mockFetch(ok(), ok());
+    const original = await emit();
+    await dispatcher.processDue();
+
+    expectKick();
+    const replayed = await dispatcher.replay(original.id);
+    await kicked;
+    assert.notEqual(replayed?.id, original.id);
+    assert.equal(replayed?.status, "pending");
+    assert.deepEqual(replayed?.payload, original.payload);
+
+    await dispatcher.processDue();
+    const [first, second] = fetch.mock.calls.map((call) => call.arguments[1] as RequestInit);
+    assert.equal(second.body, first.body);
+    assert.equal((second.headers as Record<string, string>)["X-Webhook-Signature"], (first.headers as Record<string, string>)["X-Webhook-Signature"]);
+    assert.equal((second.headers as Record<string, string>)["X-Webhook-Delivery"], String(replayed?.id));
+    // The original stays in the log as it was
+    assert.equal((await storage.getWebhookDelivery(original.id))?.status, "sent");
+    assert.equal((await storage.getWebhookDelivery(replayed!.id))?.status, "sent");
+
+    assert.equal(await dispatcher.replay(999), undefined);
+  });
+});
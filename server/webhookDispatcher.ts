@@ -0,0 +1,180 @@
+import { createHmac } from "crypto";
+import type { WebhookDelivery, WebhookEvent, WebhookPayload } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+export interface WebhookDispatcherOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestTimeoutMs: number;
+}
+
+const defaultOptions: WebhookDispatcherOptions = {
+  pollIntervalMs: 5_000,
+  batchSize: 20,
+  maxAttempts: 8,
+  baseDelayMs: 30_000,
+  maxDelayMs: 60 * 60 * 1000,
+  requestTimeoutMs: 10_000,
+};
+
+// Raised when a subscriber answers with a non-2xx status
+class WebhookResponseError extends Error {
+  constructor(public status: number, body: string) {
+    super(`Subscriber responded with status ${status}: ${body.slice(0, 500)}`);
+    this.name = "WebhookResponseError";
+  }
+}
+
+// Sends lifecycle events to the webhook subscriptions listening for them.
+// Each event becomes one delivery per subscription, persisted through
+// IStorage and retried with backoff like the ticket outbox. Requests carry an
+// X-Webhook-Signature header: the hex HMAC-SHA256 of the body under the
+// subscription's secret, prefixed with "sha256=".
+export class WebhookDispatcher {
+  private options: WebhookDispatcherOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private storage: IStorage,
+    options: Partial<WebhookDispatcherOptions> = {},
+  ) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.kick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue an event for its subscribers. Failures are only logged, so the
+  // change that raised the event is never rejected because of a webhook.
+  emit(event: WebhookEvent, data: Record<string, unknown>) {
+    this.enqueue(event, data).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`queueing ${event} failed: ${message}`, "webhooks");
+    });
+  }
+
+  // Send a delivery's payload again as a new delivery, keeping the original in the log
+  async replay(deliveryId: number): Promise<WebhookDelivery | undefined> {
+    const delivery = await this.storage.getWebhookDelivery(deliveryId);
+    if (!delivery) return undefined;
+
+    const replayed = await this.storage.createWebhookDelivery({
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+      payload: delivery.payload,
+    });
+    this.kick();
+    return replayed;
+  }
+
+  // Trigger a processing pass without waiting for it to finish
+  kick() {
+    this.processDue().catch((error) => {
+      console.error("Error processing webhook deliveries:", error);
+    });
+  }
+
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const deliveries = await this.storage.getDueWebhookDeliveries(new Date(), this.options.batchSize);
+      for (const delivery of deliveries) {
+        await this.deliver(delivery);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async enqueue(event: WebhookEvent, data: Record<string, unknown>) {
+    const subscriptions = (await this.storage.getWebhookSubscriptions())
+      .filter((subscription) => subscription.active && subscription.events.includes(event));
+    if (subscriptions.length === 0) return;
+
+    const payload: WebhookPayload = { event, occurredAt: new Date().toISOString(), data };
+    for (const subscription of subscriptions) {
+      await this.storage.createWebhookDelivery({ subscriptionId: subscription.id, event, payload });
+    }
+    this.kick();
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+
+    const subscription = await this.storage.getWebhookSubscription(delivery.subscriptionId);
+    if (!subscription?.active) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: "failed",
+        lastError: "The subscription is disabled",
+      });
+      return;
+    }
+
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const signature = createHmac("sha256", subscription.secret).update(body).digest("hex");
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "CNH-FIRST-Webhooks",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(delivery.id),
+          "X-Webhook-Signature": `sha256=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new WebhookResponseError(response.status, await response.text());
+      }
+
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: "sent",
+        attempts,
+        responseStatus,
+        lastError: null,
+        sentAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= this.options.maxAttempts;
+
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        responseStatus,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + this.backoff(attempts)),
+      });
+      log(`webhook delivery ${delivery.id} (${delivery.event}) failed (attempt ${attempts}): ${message}`, "webhooks");
+    }
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at maxDelayMs
+  private backoff(attempts: number): number {
+    return Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher(storage);
@@ -0,0 +1,78 @@
+// Human-readable labels for the coded values stored on issues
+export const productCategoryLabels: Record<string, string> = {
+  pegasus: "Pegasus",
+  pegasusX: "Pegasus X",
+  mercury: "Mercury",
+  titanium: "Titanium",
+  antalya: "Antalya",
+};
+
+export const severityLabels: Record<string, string> = {
+  blocker: "Blocker",
+  critical: "Critical",
+  major: "Major",
+  minor: "Minor",
+  trivial: "Trivial",
+};
+
+// Descriptions shown when picking a severity in the reporting wizard
+export const severityDescriptions: Record<string, string> = {
+  blocker: "Blocker - Prevents function",
+  critical: "Critical - Major function affected",
+  major: "Major - System performance affected",
+  minor: "Minor - Non-essential function affected",
+  trivial: "Trivial - Cosmetic issue",
+};
+
+export const issueStatusLabels: Record<string, string> = {
+  submitted: "Submitted",
+  triaged: "Triaged",
+  in_progress: "In Progress",
+  needs_info: "Needs Info",
+  resolved: "Resolved",
+  closed: "Closed",
+  duplicate: "Duplicate",
+  wont_fix: "Won't Fix",
+};
+
+export const syncStatusLabels: Record<string, string> = {
+  queued: "Queued",
+  processed: "Created",
+  sync_failed: "Sync Failed",
+};
+
+// Issue trackers tickets can be created in, see server/trackers
+export const trackerSystemLabels: Record<string, string> = {
+  jira: "Jira",
+  github: "GitHub",
+  gitlab: "GitLab",
+  local: "Local",
+};
+
+// Events outbound webhook subscriptions can listen for
+export const webhookEventLabels: Record<string, string> = {
+  "issue.created": "Issue reported",
+  "issue.status_changed": "Status changed",
+  "issue.ticket_created": "Tracker ticket created",
+  "comment.created": "Comment added",
+  "media.transcribed": "Voice note transcribed",
+};
+
+export const webhookDeliveryStatusLabels: Record<string, string> = {
+  pending: "Pending",
+  sent: "Delivered",
+  failed: "Failed",
+};
+
+export const frequencyLabels: Record<string, string> = {
+  always: "Always (100% of the time)",
+  often: "Often (approximately 75% of the time)",
+  sometimes: "Sometimes (approximately 50% of the time)",
+  rarely: "Rarely (approximately 25% of the time)",
+  once: "Once (unable to reproduce consistently)",
+  custom: "Custom",
+};
+
+export function labelFor(labels: Record<string, string>, value: string): string {
+  return labels[value] || value;
+}
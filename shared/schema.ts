@@ -1,21 +1,90 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { issueStatuses } from "./workflow";
+
+// Reporters file issues, triagers manage them, admins manage everything
+export const userRoles = ["reporter", "triager", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Which notification emails a user receives
+export const notificationPreferencesSchema = z.object({
+  issueSubmitted: z.boolean(), // confirmations for reporters, new reports for triagers
+  statusChanged: z.boolean(),
+  commentAdded: z.boolean(),
+});
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  issueSubmitted: true,
+  statusChanged: true,
+  commentAdded: true,
+};
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("reporter"),
+  email: text("email"), // notifications are only sent when set
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>().notNull().default(defaultNotificationPreferences),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  email: true,
+});
+
+// An empty string clears the address
+const optionalEmail = z.union([
+  z.literal(""),
+  z.string().trim().max(255).email({ message: "Enter a valid email address" }),
+]).nullable().transform((value) => value || null);
+
+// Registration adds minimum lengths on top of the raw insert schema
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(2, {
+    message: "Username must be at least 2 characters long"
+  }),
+  password: z.string().min(8, {
+    message: "Password must be at least 8 characters long"
+  }),
+  email: optionalEmail.optional(),
 });
 
+// Body of PATCH /api/me
+export const accountSettingsSchema = z.object({
+  email: optionalEmail.optional(),
+  notificationPreferences: notificationPreferencesSchema.partial().optional(),
+});
+export type AccountSettings = z.infer<typeof accountSettingsSchema>;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A span of a voice note transcript, in seconds from the start of the recording
+export const transcriptSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+});
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+// Ticket created for an issue in an external tracker (Jira, GitHub, GitLab...)
+export interface ExternalTicket {
+  system: string;
+  key: string;
+  url: string | null;
+}
+
+// Body of an outbound webhook request
+export interface WebhookPayload {
+  event: WebhookEvent;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
 // Issue schema
 export const issues = pgTable("issues", {
   id: serial("id").primaryKey(),
@@ -34,9 +103,11 @@ export const issues = pgTable("issues", {
   operatingSystem: text("operating_system"),
   osVersion: text("os_version").notNull(),
   reportedBy: text("reported_by").notNull(),
+  reporterId: integer("reporter_id").references(() => users.id),
   additionalEnvironment: text("additional_environment"),
-  jiraTicketId: text("jira_ticket_id"),
-  status: text("status").default("submitted"),
+  externalTicket: jsonb("external_ticket").$type<ExternalTicket>(), // set once the tracker ticket exists
+  status: text("status").default("submitted"), // see shared/workflow.ts
+  syncStatus: text("sync_status"), // queued, processed, sync_failed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -44,29 +115,240 @@ export const issues = pgTable("issues", {
 export const media = pgTable("media", {
   id: serial("id").primaryKey(),
   issueId: integer("issue_id").notNull().references(() => issues.id),
+  commentId: integer("comment_id").references(() => issueComments.id), // null for report attachments
   type: text("type").notNull(), // photo, video, audio, file
   filename: text("filename").notNull(),
   filePath: text("file_path").notNull(),
   mimeType: text("mime_type").notNull(),
   fileSize: integer("file_size").notNull(),
   transcription: text("transcription"), // For audio files
+  // Voice notes are transcribed in the background: pending, ready or failed
+  transcriptionStatus: text("transcription_status"),
+  transcriptionError: text("transcription_error"),
+  transcriptionLanguage: text("transcription_language"), // ISO 639-1 code, detected or configured
+  transcriptionSegments: jsonb("transcription_segments").$type<TranscriptSegment[]>(),
+  thumbnailPath: text("thumbnail_path"), // Generated for photos
+  previewPath: text("preview_path"), // Generated for photos
+  // Videos are transcoded in the background: pending, ready or failed
+  processingStatus: text("processing_status"),
+  processingError: text("processing_error"),
+  renditionPath: text("rendition_path"), // MP4/H.264 copy; the original is kept
+  posterPath: text("poster_path"),
+  durationSeconds: real("duration_seconds"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Unsubmitted report wizards, saved per user so they can be resumed later
+export const issueDrafts = pgTable("issue_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  values: jsonb("values").$type<Record<string, unknown>>().notNull(), // issue form field values
+  currentStep: integer("current_step").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Files already uploaded for a draft, by the wizard slot they belong to
+export const draftMedia = pgTable("draft_media", {
+  id: serial("id").primaryKey(),
+  draftId: integer("draft_id").notNull().references(() => issueDrafts.id),
+  slot: text("slot").notNull(), // photo, video, audio, file
+  filename: text("filename").notNull(),
+  filePath: text("file_path").notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  duration: text("duration"), // For voice notes, as shown by the recorder
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Follow-up discussion between reporters and triagers
+export const issueComments = pgTable("issue_comments", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull().references(() => issues.id),
+  authorId: integer("author_id").references(() => users.id),
+  authorName: text("author_name").notNull(),
+  body: text("body").notNull(),
+  trackerCommentId: text("tracker_comment_id"), // set once mirrored to the tracker ticket
+  trackerSyncPending: boolean("tracker_sync_pending").notNull().default(false), // while being posted to the tracker
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+// Audit trail of workflow status changes
+export const issueStatusHistory = pgTable("issue_status_history", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull().references(() => issues.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedById: integer("changed_by_id").references(() => users.id),
+  changedByName: text("changed_by_name").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Outbox of pending tracker ticket deliveries, processed by a background worker
+export const ticketOutbox = pgTable("ticket_outbox", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull().references(() => issues.id),
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tracker webhook deliveries already handled, so replays are recognised
+export const trackerWebhookDeliveries = pgTable("tracker_webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  system: text("system").notNull(),
+  deliveryId: text("delivery_id").notNull(),
+  issueId: integer("issue_id").notNull().references(() => issues.id),
+  receivedAt: timestamp("received_at").defaultNow(),
+}, (table) => [unique().on(table.system, table.deliveryId)]);
+
+// Lifecycle events other systems can subscribe to through outbound webhooks
+export const webhookEvents = [
+  "issue.created",
+  "issue.status_changed",
+  "issue.ticket_created",
+  "comment.created",
+  "media.transcribed",
+] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+// Outbound webhook endpoints, managed by admins
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key for the payload signature
+  events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+  description: text("description"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Outbound webhook deliveries, sent and retried by a background worker.
+// Rows are kept as the delivery log.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id),
+  event: text("event").notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(), // sent as the request body
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  responseStatus: integer("response_status"), // of the last attempt
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Issue insert schema
 export const insertIssueSchema = createInsertSchema(issues).omit({
   id: true,
-  jiraTicketId: true,
+  externalTicket: true,
   status: true,
+  syncStatus: true,
   createdAt: true,
 });
 
 // Media insert schema
-export const insertMediaSchema = createInsertSchema(media).omit({
+export const insertMediaSchema = createInsertSchema(media, {
+  transcriptionSegments: z.array(transcriptSegmentSchema).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Fields a triager may edit after submission
+export const updateIssueSchema = insertIssueSchema.omit({
+  reportedBy: true,
+  reporterId: true,
+}).partial();
+
+export const insertStatusHistorySchema = createInsertSchema(issueStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCommentSchema = createInsertSchema(issueComments).omit({
+  id: true,
+  trackerCommentId: true,
+  trackerSyncPending: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of comment create and edit requests
+export const commentBodySchema = z.object({
+  body: z.string().trim().min(1, { message: "Comment cannot be empty" }).max(10000),
+});
+
+// Derived files requested with ?size= on the uploads route: downscaled
+// photos, and the poster frame and MP4 rendition of videos
+export const mediaVariants = ["thumb", "preview", "poster", "mp4"] as const;
+
+// Query of the media-serving routes: a derived copy, and whether the browser
+// should save the file rather than display it
+export const mediaFileQuerySchema = z.object({
+  size: z.enum(mediaVariants).optional(),
+  download: z.enum(["0", "1"]).optional(),
+});
+
+export const mediaProcessingStatuses = ["pending", "ready", "failed"] as const;
+
+export const draftSlots = ["photo", "video", "audio", "file"] as const;
+
+// Body of draft create and update requests
+export const draftBodySchema = z.object({
+  values: z.record(z.unknown()),
+  currentStep: z.number().int().min(1).max(5).default(1),
+});
+
+export const insertDraftMediaSchema = createInsertSchema(draftMedia, {
+  slot: z.enum(draftSlots),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Body of POST /api/uploads, which starts a resumable upload
+export const stagedUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  // Browsers report no type for some extensions, e.g. .log
+  mimeType: z.string().max(255),
+  size: z.number().int().positive(),
+  // Base64 SHA-256 of the whole file, verified once the last chunk arrives
+  checksum: z.string().optional(),
+});
+
+// IDs of finished uploads sent in the stagedUploads field of POST /api/issues
+export const stagedUploadIdsSchema = z.array(z.string()).max(20);
+
+// Body of PATCH /api/issues/:id/status
+export const statusChangeSchema = z.object({
+  status: z.enum(issueStatuses),
+  note: z.string().trim().max(2000).optional(),
+});
+
+// Body of POST /api/admin/webhooks. A secret is generated when none is given.
+export const webhookSubscriptionSchema = z.object({
+  url: z.string().trim().url().refine((url) => /^https?:\/\//i.test(url), {
+    message: "URL must use http or https",
+  }),
+  events: z.array(z.enum(webhookEvents)).min(1, { message: "Select at least one event" }),
+  secret: z.string().min(16).max(255).optional(),
+  description: z.string().trim().max(255).nullish(),
+  active: z.boolean().default(true),
+});
+
+// Body of PATCH /api/admin/webhooks/:id; rotateSecret replaces the secret
+// with a generated one
+export const updateWebhookSubscriptionSchema = webhookSubscriptionSchema.partial().extend({
+  rotateSecret: z.boolean().optional(),
+});
+
 // Combined schema for form data
 export const issueFormSchema = insertIssueSchema.extend({
   acceptTerms: z.boolean().refine(val => val === true, {
@@ -81,8 +363,81 @@ export const issueFormSchema = insertIssueSchema.extend({
   // Media files will be handled separately through multipart/form-data
 });
 
+// Query parameters accepted by the issue list API
+export const issueSortFields = ["createdAt", "severity", "title", "status", "productCategory", "reportedBy"] as const;
+
+// Accept either repeated params (?status=a&status=b) or a comma-separated list
+const stringList = z.preprocess(
+  (value) => {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return values
+      .flatMap((item) => String(item).split(","))
+      .map((item) => item.trim())
+      .filter(Boolean);
+  },
+  z.array(z.string()),
+).optional();
+
+export const issueQuerySchema = z.object({
+  severity: stringList,
+  productCategory: stringList,
+  platform: stringList,
+  status: stringList,
+  reportedBy: z.string().trim().min(1).optional(),
+  reporterId: z.coerce.number().int().optional(),
+  createdFrom: z.coerce.date().optional(), // inclusive
+  createdTo: z.coerce.date().optional(), // inclusive
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(issueSortFields).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+});
+
+export type IssueQuery = z.infer<typeof issueQuerySchema>;
+export type IssueSortField = typeof issueSortFields[number];
+
+export interface IssueQueryResult {
+  items: Issue[];
+  total: number;
+  nextCursor: string | null;
+}
+
 export type InsertIssue = z.infer<typeof insertIssueSchema>;
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
 export type Issue = typeof issues.$inferSelect;
 export type Media = typeof media.$inferSelect;
+export type MediaVariant = typeof mediaVariants[number];
+export type OutboxEntry = typeof ticketOutbox.$inferSelect;
+export type StatusHistoryEntry = typeof issueStatusHistory.$inferSelect;
+export type IssueDraft = typeof issueDrafts.$inferSelect;
+export type DraftMedia = typeof draftMedia.$inferSelect;
+export type InsertDraftMedia = z.infer<typeof insertDraftMediaSchema>;
+export type DraftBody = z.infer<typeof draftBodySchema>;
+
+// Draft as returned by the API, with its uploaded files
+export type DraftWithMedia = IssueDraft & { media: DraftMedia[] };
+export type IssueComment = typeof issueComments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+
+// Comment as returned by the API, with its uploaded files
+export type CommentWithAttachments = IssueComment & { attachments: Media[] };
+export type NewStagedUpload = z.infer<typeof stagedUploadSchema>;
+
+// Progress of a resumable upload as reported by /api/uploads
+export interface StagedUploadStatus {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  offset: number;
+  complete: boolean;
+}
+export type InsertStatusHistory = z.infer<typeof insertStatusHistorySchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookSubscription = z.infer<typeof webhookSubscriptionSchema>;
+
+// Subscription as returned by the API; the secret is only shown when it is set
+export type PublicWebhookSubscription = Omit<WebhookSubscription, "secret">;
 export type IssueFormData = z.infer<typeof issueFormSchema>;
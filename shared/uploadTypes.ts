@@ -0,0 +1,74 @@
+// Attachment types accepted for reports, comments and drafts. The client uses
+// this list for file pickers and to refuse files before uploading them; the
+// server checks each upload's contents against it.
+export type AttachmentKind = "photo" | "video" | "audio" | "file";
+
+export interface UploadType {
+  mimeType: string;
+  // Other names browsers report for the same format
+  aliases?: string[];
+  extensions: string[];
+  label: string;
+  kind: AttachmentKind;
+}
+
+export const uploadTypes: UploadType[] = [
+  { mimeType: "image/jpeg", extensions: [".jpg", ".jpeg"], label: "JPEG image", kind: "photo" },
+  { mimeType: "image/png", extensions: [".png"], label: "PNG image", kind: "photo" },
+  { mimeType: "image/gif", extensions: [".gif"], label: "GIF image", kind: "photo" },
+  { mimeType: "video/mp4", extensions: [".mp4", ".m4v"], label: "MP4 video", kind: "video" },
+  { mimeType: "video/webm", extensions: [".webm"], label: "WebM video", kind: "video" },
+  { mimeType: "video/quicktime", extensions: [".mov"], label: "QuickTime video", kind: "video" },
+  { mimeType: "audio/mpeg", aliases: ["audio/mp3"], extensions: [".mp3"], label: "MP3 audio", kind: "audio" },
+  { mimeType: "audio/mp4", aliases: ["audio/x-m4a"], extensions: [".m4a"], label: "MP4 audio", kind: "audio" },
+  { mimeType: "audio/wav", aliases: ["audio/wave", "audio/x-wav"], extensions: [".wav"], label: "WAV audio", kind: "audio" },
+  { mimeType: "audio/ogg", extensions: [".ogg", ".oga", ".opus"], label: "Ogg audio", kind: "audio" },
+  { mimeType: "audio/webm", extensions: [".weba"], label: "WebM audio", kind: "audio" },
+  { mimeType: "application/pdf", extensions: [".pdf"], label: "PDF document", kind: "file" },
+  { mimeType: "text/plain", aliases: ["text/x-log"], extensions: [".txt", ".log"], label: "text file", kind: "file" },
+  { mimeType: "text/csv", extensions: [".csv"], label: "CSV file", kind: "file" },
+  { mimeType: "application/zip", aliases: ["application/x-zip-compressed"], extensions: [".zip"], label: "ZIP archive", kind: "file" },
+];
+
+export function uploadTypeForMime(mimeType: string): UploadType | undefined {
+  // Recorders report types such as "audio/webm;codecs=opus"
+  const essence = mimeType.split(";")[0].trim().toLowerCase();
+  return uploadTypes.find((type) => type.mimeType === essence || type.aliases?.includes(essence));
+}
+
+function uploadTypeForFilename(filename: string): UploadType | undefined {
+  const lower = filename.toLowerCase();
+  return uploadTypes.find((type) => type.extensions.some((extension) => lower.endsWith(extension)));
+}
+
+// What the uploader says the file is: its MIME type, or its extension when
+// the browser reports none or an unusual one (e.g. for .log files)
+export function declaredUploadType(filename: string, mimeType: string): UploadType | undefined {
+  return uploadTypeForMime(mimeType) ?? uploadTypeForFilename(filename);
+}
+
+// Value for a file input's accept attribute
+export function acceptedTypesFor(...kinds: AttachmentKind[]): string {
+  return uploadTypes
+    .filter((type) => kinds.includes(type.kind))
+    .flatMap((type) => [type.mimeType, ...type.extensions])
+    .join(",");
+}
+
+export const allowedTypesDescription =
+  "Allowed types are JPEG, PNG and GIF images, MP4, WebM and QuickTime videos, MP3, MP4, WAV, Ogg and WebM audio, and PDF, text, CSV and ZIP files.";
+
+// Why a file cannot be attached, judged by its name and reported type, or
+// null when it may be uploaded. The server still checks the contents.
+export function uploadRejectionReason(filename: string, mimeType: string): string | null {
+  if (!declaredUploadType(filename, mimeType)) {
+    return `This file type is not allowed. ${allowedTypesDescription}`;
+  }
+  return null;
+}
+
+// A file the server refused, with the reason to show next to it
+export interface UploadRejection {
+  filename: string;
+  reason: string;
+}
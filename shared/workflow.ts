@@ -0,0 +1,42 @@
+// Issue triage workflow. Tracker delivery progress is tracked separately
+// in issues.syncStatus.
+export const issueStatuses = [
+  "submitted",
+  "triaged",
+  "in_progress",
+  "needs_info",
+  "resolved",
+  "closed",
+  "duplicate",
+  "wont_fix",
+] as const;
+
+export type IssueStatus = typeof issueStatuses[number];
+
+// Allowed next states for each status
+export const issueStatusTransitions: Record<IssueStatus, IssueStatus[]> = {
+  submitted: ["triaged", "needs_info", "duplicate", "wont_fix", "closed"],
+  triaged: ["in_progress", "needs_info", "duplicate", "wont_fix", "closed"],
+  in_progress: ["needs_info", "resolved", "wont_fix"],
+  needs_info: ["triaged", "in_progress", "wont_fix", "closed"],
+  resolved: ["closed", "in_progress"],
+  closed: ["triaged"],
+  duplicate: ["triaged"],
+  wont_fix: ["triaged"],
+};
+
+export function isIssueStatus(value: unknown): value is IssueStatus {
+  return typeof value === "string" && (issueStatuses as readonly string[]).includes(value);
+}
+
+export function allowedTransitions(from: string | null): IssueStatus[] {
+  return isIssueStatus(from) ? issueStatusTransitions[from] : [];
+}
+
+export function canTransition(from: string | null, to: string): boolean {
+  return allowedTransitions(from).some((status) => status === to);
+}
+
+// Tracker delivery states recorded in issues.syncStatus
+export const syncStatuses = ["queued", "processed", "sync_failed"] as const;
+export type SyncStatus = typeof syncStatuses[number];